@@ -0,0 +1,168 @@
+/**
+ * Scheduled tasks
+ * Enabled in config/server.ts (set CRON_ENABLED=false to turn them off)
+ */
+
+export default {
+  /**
+   * Opinion lifecycle: publish scheduled opinions and archive expired ones
+   * Runs every minute so queued statements go live on time
+   */
+  opinionLifecycle: {
+    task: async ({ strapi }) => {
+      try {
+        const { published, archived } = await strapi.service('api::opinion.opinion').transitionLifecycle();
+
+        if (published > 0 || archived > 0) {
+          strapi.log.info(`[Cron] Opinion lifecycle: ${published} published, ${archived} archived`);
+        }
+      } catch (error) {
+        strapi.log.error('[Cron] Opinion lifecycle transition failed:', error);
+      }
+    },
+    options: {
+      rule: '* * * * *',
+    },
+  },
+
+  /**
+   * Quote generation queue: requeue interrupted jobs and start due retries
+   * Runs every minute; new batches also start processing as soon as they are queued
+   */
+  quoteGenerationQueue: {
+    task: async ({ strapi }) => {
+      try {
+        const quoteDraftService = strapi.service('api::quote-draft.quote-draft');
+        const recovered = await quoteDraftService.recoverStaleJobs();
+        const started = await quoteDraftService.processQueue();
+
+        if (recovered > 0 || started > 0) {
+          strapi.log.info(`[Cron] Quote generation queue: ${recovered} interrupted jobs recovered, ${started} jobs started`);
+        }
+      } catch (error) {
+        strapi.log.error('[Cron] Quote generation queue failed:', error);
+      }
+    },
+    options: {
+      rule: '* * * * *',
+    },
+  },
+
+  /**
+   * Game plan analyses: resume runs interrupted by a restart or a lost instance
+   * Runs every minute; an analysis is taken over once its heartbeat is a few minutes old
+   */
+  analysisJobRecovery: {
+    task: async ({ strapi }) => {
+      try {
+        const { resumed, failed } = await strapi
+          .service('api::salespilot-conversation.salespilot-conversation')
+          .resumeInterruptedAnalyses();
+
+        if (resumed > 0 || failed > 0) {
+          strapi.log.info(`[Cron] Game plan analyses: ${resumed} interrupted analyses resumed, ${failed} failed`);
+        }
+      } catch (error) {
+        strapi.log.error('[Cron] Game plan analysis recovery failed:', error);
+      }
+    },
+    options: {
+      rule: '* * * * *',
+    },
+  },
+
+  /**
+   * Analysis job cleanup: delete finished analyses after a week (their game plans are kept)
+   * and streamed section events after a day
+   * Runs nightly at 04:00
+   */
+  analysisJobPurge: {
+    task: async ({ strapi }) => {
+      try {
+        const { count } = await strapi.db.query('api::analysis-job.analysis-job').deleteMany({
+          where: {
+            status: { $in: ['completed', 'error'] },
+            updatedAt: { $lt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) }
+          }
+        });
+
+        const events = await strapi.db.query('api::analysis-event.analysis-event').deleteMany({
+          where: { createdAt: { $lt: new Date(Date.now() - 24 * 60 * 60 * 1000) } }
+        });
+
+        if (count > 0 || events.count > 0) {
+          strapi.log.info(`[Cron] Analysis jobs: ${count} finished analyses and ${events.count} section events removed`);
+        }
+      } catch (error) {
+        strapi.log.error('[Cron] Analysis job purge failed:', error);
+      }
+    },
+    options: {
+      rule: '0 4 * * *',
+    },
+  },
+
+  /**
+   * Search cache cleanup: delete entries past their expiry
+   * Runs hourly
+   */
+  searchCachePurge: {
+    task: async ({ strapi }) => {
+      try {
+        const { count } = await strapi.db.query('api::search-cache.search-cache').deleteMany({
+          where: { expires_at: { $lt: new Date() } }
+        });
+
+        if (count > 0) {
+          strapi.log.info(`[Cron] Search cache: ${count} expired entries removed`);
+        }
+      } catch (error) {
+        strapi.log.error('[Cron] Search cache purge failed:', error);
+      }
+    },
+    options: {
+      rule: '0 * * * *',
+    },
+  },
+
+  /**
+   * Rate limit cleanup: delete counters whose window has ended
+   * Runs hourly at :30
+   */
+  rateLimitCounterPurge: {
+    task: async ({ strapi }) => {
+      try {
+        const { count } = await strapi.db.query('api::rate-limit-counter.rate-limit-counter').deleteMany({
+          where: { reset_at: { $lt: new Date() } }
+        });
+
+        if (count > 0) {
+          strapi.log.info(`[Cron] Rate limits: ${count} expired counters removed`);
+        }
+      } catch (error) {
+        strapi.log.error('[Cron] Rate limit counter purge failed:', error);
+      }
+    },
+    options: {
+      rule: '30 * * * *',
+    },
+  },
+
+  /**
+   * Duplicate detection: record near-identical opinions for sysadmin review
+   * Runs nightly at 03:00
+   */
+  opinionDuplicateScan: {
+    task: async ({ strapi }) => {
+      try {
+        const { scanned, created } = await strapi.service('api::opinion.opinion').scanDuplicates();
+        strapi.log.info(`[Cron] Duplicate scan: ${scanned} opinions scanned, ${created} new duplicate pairs`);
+      } catch (error) {
+        strapi.log.error('[Cron] Duplicate scan failed:', error);
+      }
+    },
+    options: {
+      rule: '0 3 * * *',
+    },
+  },
+};
@@ -57,6 +57,7 @@ export default [
         'Accept',
         'X-Requested-With',
       ],
+      expose: ['RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy', 'Retry-After'],
       keepHeaderOnError: true,
       credentials: true,
     },
@@ -69,6 +70,6 @@ export default [
   'strapi::favicon',
   'strapi::public',
   'global::ai-auth', // AI Manager authentication (must run before rate limit)
-  'global::ai-rate-limit', // AI Manager rate limiting
+  'global::ai-rate-limit', // Per-user rate limits for AI endpoints (AI Manager, SalesPilot, quote/opinion generation)
   'global::auth-response-enhancer', // Add primaryProfile to login responses
 ];
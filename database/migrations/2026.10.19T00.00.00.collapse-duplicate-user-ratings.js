@@ -0,0 +1,69 @@
+'use strict';
+
+/**
+ * Collapse duplicate user ratings
+ *
+ * Before ratings were unique per (user, opinion), `create` could insert any number of rows
+ * for the same pair and readers deduped by createdAt. This keeps only the most recent
+ * rating for each pair and removes the older documents (draft and published rows).
+ *
+ * Runs before Strapi syncs the schema, so it only touches tables that already exist.
+ * The unique index itself is created on bootstrap by the user-rating service.
+ */
+
+module.exports = {
+  async up(knex) {
+    const requiredTables = [
+      'user_ratings',
+      'user_ratings_opinion_lnk',
+      'user_ratings_users_permissions_user_lnk'
+    ];
+
+    for (const table of requiredTables) {
+      if (!(await knex.schema.hasTable(table))) {
+        console.log(`[Migration] ${table} does not exist yet, nothing to collapse`);
+        return;
+      }
+    }
+
+    const result = await knex.raw(`
+      SELECT DISTINCT ranked.document_id
+      FROM (
+        SELECT
+          ur.document_id,
+          ROW_NUMBER() OVER (
+            PARTITION BY ul.user_id, ol.opinion_id
+            ORDER BY ur.created_at DESC, ur.id DESC
+          ) AS rn
+        FROM user_ratings ur
+        INNER JOIN user_ratings_opinion_lnk ol ON ol.user_rating_id = ur.id
+        INNER JOIN user_ratings_users_permissions_user_lnk ul ON ul.user_rating_id = ur.id
+        WHERE ur.published_at IS NULL
+      ) ranked
+      WHERE ranked.rn > 1
+    `);
+
+    // Handle PostgreSQL .rows format
+    const rows = result.rows || result;
+    const duplicateDocumentIds = rows.map((row) => row.document_id).filter(Boolean);
+
+    if (duplicateDocumentIds.length === 0) {
+      console.log('[Migration] No duplicate user ratings found');
+      return;
+    }
+
+    const duplicateRatingIds = knex('user_ratings')
+      .select('id')
+      .whereIn('document_id', duplicateDocumentIds);
+
+    await knex('user_ratings_opinion_lnk').whereIn('user_rating_id', duplicateRatingIds).del();
+    await knex('user_ratings_users_permissions_user_lnk').whereIn('user_rating_id', duplicateRatingIds).del();
+    const deleted = await knex('user_ratings').whereIn('document_id', duplicateDocumentIds).del();
+
+    console.log(`[Migration] Collapsed duplicate user ratings: removed ${deleted} row(s) across ${duplicateDocumentIds.length} document(s)`);
+  },
+
+  async down() {
+    throw new Error('Collapsed user ratings cannot be restored');
+  }
+};
@@ -3,10 +3,13 @@
  * Configures Strapi role permissions for all content types
  *
  * This script sets up permissions for:
- * - category (authenticated users - find, findOne)
- * - opinion (authenticated users - find, findOne, create, update)
- * - user-rating (authenticated users - find, findOne, create, update, delete)
+ * - category (authenticated users - find, findOne, tree, reorder/merge/retire (sysadmin checked in controller))
+ * - opinion (authenticated users - find, findOne, create, update, search, feed, stats, generateOpinion, importOpinions/exportOpinions, duplicates/scanDuplicates/dismissDuplicate/merge (sysadmin checked in controller))
+ * - opinion-template (authenticated users - find, findOne; create, update, delete checked for sysadmin in controller)
+ * - user-rating (authenticated users - find, findOne, create, update, delete, revisions, report, moderationQueue/moderate (sysadmin checked in controller))
  * - quote-draft (authenticated users - full CRUD + custom actions)
+ * - search-cache (authenticated users - metrics, purge (sysadmin checked in controller))
+ * - ai-usage (authenticated users - me; report, setBudget (sysadmin checked in controller))
  * - user-activity-log (authenticated users - find, findOne, update, count, markAllAsRead)
  * - menu-permission (authenticated users - find, findOne)
  *
@@ -39,7 +42,7 @@ module.exports = async function seedContentPermissions() {
       currentPermissions.authenticated = {};
     }
 
-    // Configure category permissions (read-only)
+    // Configure category permissions (read-only, plus sysadmin tree management)
     if (!currentPermissions.authenticated['api::category']) {
       currentPermissions.authenticated['api::category'] = {};
     }
@@ -47,7 +50,11 @@ module.exports = async function seedContentPermissions() {
       controllers: {
         'category': {
           find: { enabled: true },
-          findOne: { enabled: true }
+          findOne: { enabled: true },
+          tree: { enabled: true },
+          reorder: { enabled: true },
+          merge: { enabled: true },
+          retire: { enabled: true }
         }
       }
     };
@@ -63,12 +70,36 @@ module.exports = async function seedContentPermissions() {
           find: { enabled: true },
           findOne: { enabled: true },
           create: { enabled: true },
-          update: { enabled: true }
+          update: { enabled: true },
+          search: { enabled: true },
+          feed: { enabled: true },
+          duplicates: { enabled: true },
+          scanDuplicates: { enabled: true },
+          dismissDuplicate: { enabled: true },
+          merge: { enabled: true },
+          stats: { enabled: true },
+          importOpinions: { enabled: true },
+          exportOpinions: { enabled: true },
+          generateOpinion: { enabled: true }
         }
       }
     };
     console.log('  ✓ Opinion permissions configured');
 
+    // Configure opinion-template permissions (writes restricted to sysadmin in controller)
+    currentPermissions.authenticated['api::opinion-template'] = {
+      controllers: {
+        'opinion-template': {
+          find: { enabled: true },
+          findOne: { enabled: true },
+          create: { enabled: true },
+          update: { enabled: true },
+          delete: { enabled: true }
+        }
+      }
+    };
+    console.log('  ✓ Opinion-template permissions configured');
+
     // Configure user-rating permissions
     if (!currentPermissions.authenticated['api::user-rating']) {
       currentPermissions.authenticated['api::user-rating'] = {};
@@ -80,7 +111,11 @@ module.exports = async function seedContentPermissions() {
           findOne: { enabled: true },
           create: { enabled: true },
           update: { enabled: true },
-          delete: { enabled: true }
+          delete: { enabled: true },
+          revisions: { enabled: true },
+          report: { enabled: true },
+          moderationQueue: { enabled: true },
+          moderate: { enabled: true }
         }
       }
     };
@@ -99,13 +134,48 @@ module.exports = async function seedContentPermissions() {
           update: { enabled: true },
           delete: { enabled: true },
           generateQuote: { enabled: true },
+          batchGenerate: { enabled: true },
+          batchStatus: { enabled: true },
           deleteAllUserDrafts: { enabled: true },
+          selectCandidate: { enabled: true },
+          updateAttribution: { enabled: true },
+          approve: { enabled: true },
+          verify: { enabled: true },
           publish: { enabled: true }
         }
       }
     };
     console.log('  ✓ Quote-draft permissions configured');
 
+    // Configure search-cache permissions (sysadmin checked in controller)
+    if (!currentPermissions.authenticated['api::search-cache']) {
+      currentPermissions.authenticated['api::search-cache'] = {};
+    }
+    currentPermissions.authenticated['api::search-cache'] = {
+      controllers: {
+        'search-cache': {
+          metrics: { enabled: true },
+          purge: { enabled: true }
+        }
+      }
+    };
+    console.log('  ✓ Search-cache permissions configured');
+
+    // Configure ai-usage permissions (sysadmin checked in controller for report/setBudget)
+    if (!currentPermissions.authenticated['api::ai-usage']) {
+      currentPermissions.authenticated['api::ai-usage'] = {};
+    }
+    currentPermissions.authenticated['api::ai-usage'] = {
+      controllers: {
+        'ai-usage': {
+          me: { enabled: true },
+          report: { enabled: true },
+          setBudget: { enabled: true }
+        }
+      }
+    };
+    console.log('  ✓ AI-usage permissions configured');
+
     // Configure user-activity-log permissions
     if (!currentPermissions.authenticated['api::user-activity-log']) {
       currentPermissions.authenticated['api::user-activity-log'] = {};
@@ -21,7 +21,13 @@ type ActivityType =
   | 'permission_profile_deleted'
   | 'email_changed'
   | 'username_changed'
-  | 'avatar_changed';
+  | 'avatar_changed'
+  | 'comment_reported'
+  | 'comment_approved'
+  | 'comment_hidden'
+  | 'comment_deleted'
+  | 'category_merged'
+  | 'category_retired';
 
 interface ActivityDetails {
   [key: string]: any;
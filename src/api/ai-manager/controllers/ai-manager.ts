@@ -1,3 +1,5 @@
+import { AI_BUDGET_EXCEEDED } from '../../../services/ai-usage-service';
+
 export default {
   async sendPrompt(ctx) {
     try {
@@ -40,6 +42,10 @@ export default {
       strapi.log.error('AI Manager prompt error:', error);
 
       // Return error in response field
+      if (error.code === AI_BUDGET_EXCEEDED) {
+        return ctx.tooManyRequests(error.message);
+      }
+
       if (error.status === 429) {
         return ctx.tooManyRequests('Rate limit exceeded. Please try again later.');
       }
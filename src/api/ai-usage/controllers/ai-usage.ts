@@ -0,0 +1,123 @@
+/**
+ * ai-usage controller
+ */
+
+import { factories } from '@strapi/strapi';
+import aiUsageService from '../../../services/ai-usage-service';
+
+const isSysadmin = (user: any) => user?.userRole === 'sysadmin' || !!user?.isSuperAdmin;
+
+const parseDate = (value: any): Date | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export default factories.createCoreController('api::ai-usage.ai-usage', ({ strapi }) => ({
+  /**
+   * Token usage and estimated spend by user and feature (sysadmin only)
+   * GET /api/ai-usage/report?from=&to=
+   */
+  async report(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in');
+    }
+
+    if (!isSysadmin(user)) {
+      return ctx.forbidden('Only sysadmins can view the AI usage report');
+    }
+
+    const from = parseDate(ctx.query.from);
+    const to = parseDate(ctx.query.to);
+
+    if (from === null || to === null) {
+      return ctx.badRequest('from and to must be valid dates');
+    }
+
+    try {
+      const report = await aiUsageService.getReport({ from, to });
+      return { data: report };
+    } catch (error) {
+      strapi.log.error('AI usage report error:', error);
+      return ctx.internalServerError('Failed to load AI usage report');
+    }
+  },
+
+  /**
+   * The current user's budgets and usage this month
+   * GET /api/ai-usage/me
+   */
+  async me(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in');
+    }
+
+    try {
+      const status = await aiUsageService.getBudgetStatus(user.id);
+      return { data: status };
+    } catch (error) {
+      strapi.log.error('AI usage status error:', error);
+      return ctx.internalServerError('Failed to load AI usage');
+    }
+  },
+
+  /**
+   * Set (or clear with null) the monthly token budget of a user or a permission profile (sysadmin only)
+   * PUT /api/ai-usage/budgets
+   * Body: { userId | profileId, monthlyTokenBudget }
+   */
+  async setBudget(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in');
+    }
+
+    if (!isSysadmin(user)) {
+      return ctx.forbidden('Only sysadmins can set AI budgets');
+    }
+
+    const { userId, profileId, monthlyTokenBudget } = ctx.request.body || {};
+
+    if (!userId === !profileId) {
+      return ctx.badRequest('Provide either userId or profileId');
+    }
+
+    if (monthlyTokenBudget !== null && (!Number.isInteger(monthlyTokenBudget) || monthlyTokenBudget < 0)) {
+      return ctx.badRequest('monthlyTokenBudget must be a non-negative integer or null');
+    }
+
+    try {
+      const uid = userId ? 'plugin::users-permissions.user' : 'api::permission-profile.permission-profile';
+      const target = await strapi.db.query(uid).findOne({ where: { id: userId || profileId }, select: ['id'] });
+
+      if (!target) {
+        return ctx.notFound(userId ? 'User not found' : 'Permission profile not found');
+      }
+
+      await strapi.db.query(uid).update({
+        where: { id: target.id },
+        data: { aiMonthlyTokenBudget: monthlyTokenBudget }
+      });
+
+      strapi.log.info(`AI Usage: ${user.username} set ${userId ? 'user' : 'profile'} ${target.id} budget to ${monthlyTokenBudget ?? 'unlimited'}`);
+
+      return {
+        data: {
+          userId: userId || null,
+          profileId: profileId || null,
+          monthlyTokenBudget
+        }
+      };
+    } catch (error) {
+      strapi.log.error('AI budget update error:', error);
+      return ctx.internalServerError('Failed to set AI budget');
+    }
+  }
+}));
@@ -0,0 +1,35 @@
+/**
+ * Custom routes for ai-usage
+ */
+
+export default {
+  routes: [
+    {
+      method: 'GET',
+      path: '/ai-usage/report',
+      handler: 'ai-usage.report',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    },
+    {
+      method: 'GET',
+      path: '/ai-usage/me',
+      handler: 'ai-usage.me',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    },
+    {
+      method: 'PUT',
+      path: '/ai-usage/budgets',
+      handler: 'ai-usage.setBudget',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    }
+  ]
+};
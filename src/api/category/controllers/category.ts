@@ -4,4 +4,117 @@
 
 import { factories } from '@strapi/strapi';
 
-export default factories.createCoreController('api::category.category');
\ No newline at end of file
+/**
+ * Shared handler for merge and retire
+ */
+const reassign = async (ctx, mode: 'merge' | 'retire') => {
+  const user = ctx.state.user;
+
+  if (!user || (user.userRole !== 'sysadmin' && !user.isSuperAdmin)) {
+    return ctx.forbidden(`Only sysadmin can ${mode} categories`);
+  }
+
+  const sourceId = Number(ctx.params.id);
+  const targetId = Number(ctx.request.body?.targetId);
+
+  if (!Number.isInteger(sourceId) || !Number.isInteger(targetId)) {
+    return ctx.badRequest('A numeric category id and targetId are required');
+  }
+
+  let result;
+  try {
+    result = await strapi.service('api::category.category').reassignCategory(sourceId, targetId, mode);
+  } catch (error) {
+    strapi.log.error(`Error trying to ${mode} category ${sourceId}:`, error);
+    return ctx.badRequest(error.message || `Failed to ${mode} category`);
+  }
+
+  await strapi.service('api::activity-logger.activity-logger').logActivity(
+    user.id,
+    mode === 'merge' ? 'category_merged' : 'category_retired',
+    result,
+    ctx
+  );
+
+  strapi.log.info(
+    `Category "${result.source.name}" ${mode === 'merge' ? 'merged' : 'retired'} into "${result.target.name}" by user ${user.id}: ${result.opinions} opinions, ${result.quoteDrafts} quote drafts, ${result.subcategories} subcategories`
+  );
+
+  return { data: result };
+};
+
+export default factories.createCoreController('api::category.category', ({ strapi }) => ({
+  /**
+   * Nested category tree
+   * GET /api/categories/tree?includeInactive=true
+   */
+  async tree(ctx) {
+    const { includeInactive } = ctx.query as any;
+
+    try {
+      const tree = await strapi.service('api::category.category').getTree({
+        includeInactive: includeInactive === 'true'
+      });
+
+      return { data: tree, meta: {} };
+    } catch (error) {
+      strapi.log.error('Error building category tree:', error);
+      return ctx.internalServerError('Failed to build category tree');
+    }
+  },
+
+  /**
+   * Merge a category into another (sysadmin only) - the category is deleted
+   * POST /api/categories/:id/merge
+   * Body: { targetId }
+   */
+  async merge(ctx) {
+    return reassign(ctx, 'merge');
+  },
+
+  /**
+   * Retire a category (sysadmin only) - its content moves to the target and it is deactivated
+   * POST /api/categories/:id/retire
+   * Body: { targetId }
+   */
+  async retire(ctx) {
+    return reassign(ctx, 'retire');
+  },
+
+  /**
+   * Move categories and change their manual order (sysadmin only)
+   * PUT /api/categories/reorder
+   * Body: { items: [{ id, parent?: id | null, sort_order?: number }] }
+   */
+  async reorder(ctx) {
+    const user = ctx.state.user;
+
+    if (!user || (user.userRole !== 'sysadmin' && !user.isSuperAdmin)) {
+      return ctx.forbidden('Only sysadmin can reorder categories');
+    }
+
+    const { items } = ctx.request.body || {};
+
+    if (!Array.isArray(items) || items.length === 0) {
+      return ctx.badRequest('items must be a non-empty array');
+    }
+
+    const invalid = items.some(item =>
+      !Number.isInteger(item?.id) ||
+      (item.parent !== undefined && item.parent !== null && !Number.isInteger(item.parent)) ||
+      (item.sort_order !== undefined && !Number.isInteger(item.sort_order))
+    );
+
+    if (invalid) {
+      return ctx.badRequest('Each item needs an integer id and optional integer parent/sort_order');
+    }
+
+    try {
+      const tree = await strapi.service('api::category.category').reorder(items);
+      return { data: tree, meta: {} };
+    } catch (error) {
+      strapi.log.error('Error reordering categories:', error);
+      return ctx.badRequest(error.message || 'Failed to reorder categories');
+    }
+  }
+}));
@@ -0,0 +1,47 @@
+/**
+ * Custom routes for category
+ *
+ * Route files load alphabetically; the 01- prefix registers these before the core
+ * /categories/:id routes, which would otherwise match /categories/tree and /categories/reorder
+ */
+
+export default {
+  routes: [
+    {
+      method: 'GET',
+      path: '/categories/tree',
+      handler: 'category.tree',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    },
+    {
+      method: 'PUT',
+      path: '/categories/reorder',
+      handler: 'category.reorder',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    },
+    {
+      method: 'POST',
+      path: '/categories/:id/merge',
+      handler: 'category.merge',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    },
+    {
+      method: 'POST',
+      path: '/categories/:id/retire',
+      handler: 'category.retire',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    }
+  ]
+};
@@ -4,4 +4,257 @@
 
 import { factories } from '@strapi/strapi';
 
-export default factories.createCoreService('api::category.category');
\ No newline at end of file
+// Separator for category paths such as "Politics/Elections"
+const PATH_SEPARATOR = '/';
+
+interface CategoryNode {
+  id: number;
+  documentId: string;
+  name: string;
+  color: string;
+  description: string | null;
+  isActive: boolean;
+  sort_order: number;
+  parentId: number | null;
+  children: CategoryNode[];
+}
+
+const byOrder = (a: CategoryNode, b: CategoryNode) =>
+  (a.sort_order ?? 0) - (b.sort_order ?? 0) || a.name.localeCompare(b.name);
+
+export default factories.createCoreService('api::category.category', ({ strapi }) => ({
+  /**
+   * Load every category as a flat list of nodes with parent ids
+   */
+  async loadNodes(): Promise<CategoryNode[]> {
+    const categories = await strapi.db.query('api::category.category').findMany({
+      select: ['id', 'documentId', 'name', 'color', 'description', 'isActive', 'sort_order'],
+      populate: { parent: { select: ['id'] } }
+    });
+
+    return categories.map((category: any) => ({
+      id: category.id,
+      documentId: category.documentId,
+      name: category.name,
+      color: category.color,
+      description: category.description ?? null,
+      isActive: category.isActive !== false,
+      sort_order: category.sort_order ?? 0,
+      parentId: category.parent?.id ?? null,
+      children: []
+    }));
+  },
+
+  /**
+   * Nested category tree ordered by sort_order, then name
+   * Inactive categories (and their subtrees) are left out unless includeInactive is set
+   */
+  async getTree({ includeInactive = false }: { includeInactive?: boolean } = {}) {
+    const nodes = (await this.loadNodes()).filter(node => includeInactive || node.isActive);
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    const roots: CategoryNode[] = [];
+
+    nodes.forEach(node => {
+      const parent = node.parentId ? byId.get(node.parentId) : null;
+      if (parent) {
+        parent.children.push(node);
+      } else if (!node.parentId) {
+        roots.push(node);
+      }
+    });
+
+    const sortTree = (list: CategoryNode[]) => {
+      list.sort(byOrder);
+      list.forEach(node => sortTree(node.children));
+      return list;
+    };
+
+    return sortTree(roots);
+  },
+
+  /**
+   * Expand category ids to include all of their descendants
+   */
+  async expandCategoryIds(categoryIds: number[]) {
+    const nodes = await this.loadNodes();
+    const childrenOf = new Map<number, number[]>();
+
+    nodes.forEach(node => {
+      if (node.parentId) {
+        childrenOf.set(node.parentId, [...(childrenOf.get(node.parentId) || []), node.id]);
+      }
+    });
+
+    const expanded = new Set<number>();
+    const queue = [...categoryIds];
+
+    while (queue.length > 0) {
+      const id = queue.shift();
+      if (expanded.has(id)) {
+        continue;
+      }
+      expanded.add(id);
+      queue.push(...(childrenOf.get(id) || []));
+    }
+
+    return Array.from(expanded);
+  },
+
+  /**
+   * Resolve a category path such as "Politics/Elections"
+   * Missing segments are created under their parent when `create` is set; returns null otherwise.
+   * Names are unique, so an existing category found under another parent is reused as-is.
+   */
+  async resolvePath(path: string, { create = false }: { create?: boolean } = {}) {
+    const segments = String(path || '')
+      .split(PATH_SEPARATOR)
+      .map(segment => segment.trim())
+      .filter(Boolean);
+
+    let parent: any = null;
+
+    for (const name of segments) {
+      let category: any = await strapi.db.query('api::category.category').findOne({
+        where: { name },
+        populate: { parent: { select: ['id'] } }
+      });
+
+      if (category && parent && category.parent?.id !== parent.id) {
+        strapi.log.warn(`Category Service: "${name}" already exists outside "${parent.name}", reusing it`);
+      }
+
+      if (!category) {
+        if (!create) {
+          return null;
+        }
+
+        category = await strapi.entityService.create('api::category.category', {
+          data: {
+            name,
+            parent: parent ? parent.id : null,
+            publishedAt: new Date()
+          }
+        });
+        strapi.log.info(`Category Service: Created category "${name}"${parent ? ` under "${parent.name}"` : ''}`);
+      }
+
+      parent = category;
+    }
+
+    return parent;
+  },
+
+  /**
+   * Move everything out of a category into a target category
+   * Opinions, quote drafts and subcategories are reassigned to the target, then the source is
+   * deleted ('merge') or deactivated ('retire'). Returns the number of records moved.
+   */
+  async reassignCategory(sourceId: number, targetId: number, mode: 'merge' | 'retire') {
+    if (sourceId === targetId) {
+      throw new Error('A category cannot be merged into itself');
+    }
+
+    const nodes = await this.loadNodes();
+    const source = nodes.find(node => node.id === sourceId);
+    const target = nodes.find(node => node.id === targetId);
+
+    if (!source || !target) {
+      throw new Error('Both categories must exist');
+    }
+
+    if (!target.isActive) {
+      throw new Error(`Target category "${target.name}" is inactive`);
+    }
+
+    const descendants = await this.expandCategoryIds([sourceId]);
+    if (descendants.includes(targetId)) {
+      throw new Error('Target cannot be a subcategory of the category being removed');
+    }
+
+    const counts = await strapi.db.connection.transaction(async (trx) => {
+      const opinions = await trx('opinions_category_lnk')
+        .where('category_id', sourceId)
+        .update({ category_id: targetId });
+
+      const quoteDrafts = await trx('quote_drafts_category_lnk')
+        .where('category_id', sourceId)
+        .update({ category_id: targetId });
+
+      return { opinions, quoteDrafts };
+    });
+
+    // Subcategories keep their place in the tree under the target
+    const children = nodes.filter(node => node.parentId === sourceId);
+    for (const child of children) {
+      await strapi.entityService.update('api::category.category', child.id, {
+        data: { parent: targetId }
+      });
+    }
+
+    if (mode === 'merge') {
+      await strapi.entityService.delete('api::category.category', sourceId);
+    } else {
+      await strapi.entityService.update('api::category.category', sourceId, {
+        data: { isActive: false }
+      });
+    }
+
+    return {
+      mode,
+      source: { id: source.id, name: source.name },
+      target: { id: target.id, name: target.name },
+      opinions: counts.opinions,
+      quoteDrafts: counts.quoteDrafts,
+      subcategories: children.length
+    };
+  },
+
+  /**
+   * Apply parent and sort order changes from the tree editor
+   * Rejects changes that would make a category its own ancestor
+   */
+  async reorder(items: { id: number; parent?: number | null; sort_order?: number }[]) {
+    const nodes = await this.loadNodes();
+    const parentOf = new Map(nodes.map(node => [node.id, node.parentId]));
+
+    items.forEach(item => {
+      if (!parentOf.has(item.id)) {
+        throw new Error(`Category ${item.id} not found`);
+      }
+      if (item.parent !== undefined) {
+        if (item.parent !== null && !parentOf.has(item.parent)) {
+          throw new Error(`Parent category ${item.parent} not found`);
+        }
+        parentOf.set(item.id, item.parent);
+      }
+    });
+
+    // Walk up from every moved category to make sure the result is still a tree
+    items.forEach(item => {
+      const seen = new Set<number>([item.id]);
+      let current = parentOf.get(item.id);
+      while (current) {
+        if (seen.has(current)) {
+          throw new Error(`Category ${item.id} cannot be moved under its own descendant`);
+        }
+        seen.add(current);
+        current = parentOf.get(current);
+      }
+    });
+
+    for (const item of items) {
+      const data: any = {};
+      if (item.parent !== undefined) {
+        data.parent = item.parent;
+      }
+      if (item.sort_order !== undefined) {
+        data.sort_order = item.sort_order;
+      }
+      if (Object.keys(data).length > 0) {
+        await strapi.entityService.update('api::category.category', item.id, { data });
+      }
+    }
+
+    return this.getTree({ includeInactive: true });
+  }
+}));
@@ -0,0 +1,33 @@
+/**
+ * opinion-template controller
+ *
+ * Templates are readable by any authenticated user; only sysadmins can change the library.
+ * Prompts support {{generationType}}, {{generationSource}}, {{category}}, {{categoryClause}} and {{details}}.
+ */
+
+import { factories } from '@strapi/strapi';
+
+const isSysadmin = (user: any) => !!user && (user.userRole === 'sysadmin' || user.isSuperAdmin);
+
+export default factories.createCoreController('api::opinion-template.opinion-template', ({ strapi }) => ({
+  async create(ctx) {
+    if (!isSysadmin(ctx.state.user)) {
+      return ctx.forbidden('Only sysadmin can create opinion templates');
+    }
+    return super.create(ctx);
+  },
+
+  async update(ctx) {
+    if (!isSysadmin(ctx.state.user)) {
+      return ctx.forbidden('Only sysadmin can update opinion templates');
+    }
+    return super.update(ctx);
+  },
+
+  async delete(ctx) {
+    if (!isSysadmin(ctx.state.user)) {
+      return ctx.forbidden('Only sysadmin can delete opinion templates');
+    }
+    return super.delete(ctx);
+  }
+}));
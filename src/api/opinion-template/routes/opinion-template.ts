@@ -0,0 +1,7 @@
+/**
+ * opinion-template router
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreRouter('api::opinion-template.opinion-template');
@@ -0,0 +1,7 @@
+/**
+ * opinion-template service
+ */
+
+import { factories } from '@strapi/strapi';
+
+export default factories.createCoreService('api::opinion-template.opinion-template');
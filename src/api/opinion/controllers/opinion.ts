@@ -3,12 +3,70 @@
  */
 
 import { factories } from '@strapi/strapi'
+import { GENERATION_TYPES, GENERATION_SOURCES, providers } from '../services/opinion-providers';
+
+const isAdmin = (user: any) => !!user && (user.userRole === 'sysadmin' || user.isSuperAdmin);
+
+// Largest raw CSV body read by the import endpoint
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Read a raw text request body the body parser left unparsed (e.g. a text/csv upload)
+ * Returns an empty string when the body was already consumed
+ */
+const readRawText = async (ctx: any): Promise<string> => {
+  if (ctx.req.readableEnded) {
+    return '';
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of ctx.req) {
+    size += chunk.length;
+    if (size > MAX_IMPORT_BYTES) {
+      throw new Error(`Import body is limited to ${MAX_IMPORT_BYTES} bytes`);
+    }
+    chunks.push(Buffer.from(chunk));
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+/**
+ * Pull category ids out of a category filter
+ * Supports filters[category]=1, filters[category][id]=1, [$eq] and [$in]
+ */
+const extractCategoryIds = (filter: any): number[] | null => {
+  const value = filter !== null && typeof filter === 'object' && 'id' in filter ? filter.id : filter;
+  const raw = value !== null && typeof value === 'object'
+    ? (value.$eq !== undefined ? [value.$eq] : value.$in)
+    : [value];
+
+  if (!Array.isArray(raw)) {
+    return null;
+  }
+
+  const ids = raw.map(Number);
+  return ids.length > 0 && ids.every(Number.isInteger) ? ids : null;
+};
 
 export default factories.createCoreController('api::opinion.opinion', ({ strapi }) => ({
   // Custom find method to include category data
+  // Non-admins only see live opinions; filtering by a category includes its subcategories
   async find(ctx) {
+    const existingFilters = { ...((ctx.query?.filters || {}) as any) };
+
+    const categoryIds = existingFilters.category !== undefined ? extractCategoryIds(existingFilters.category) : null;
+    if (categoryIds) {
+      const expanded = await strapi.service('api::category.category').expandCategoryIds(categoryIds);
+      existingFilters.category = { id: { $in: expanded } };
+    }
+
     ctx.query = {
       ...ctx.query,
+      filters: isAdmin(ctx.state.user)
+        ? existingFilters
+        : { $and: [existingFilters, { lifecycle_status: 'live' }] },
       populate: {
         category: {
           fields: ['id', 'name', 'color']
@@ -30,9 +88,74 @@ export default factories.createCoreController('api::opinion.opinion', ({ strapi
       }
     };
     const response = await super.findOne(ctx);
+
+    // Draft, scheduled and archived opinions are hidden from non-admins
+    if (response?.data && !isAdmin(ctx.state.user) && (response.data as any).lifecycle_status !== 'live') {
+      return ctx.notFound('Opinion not found');
+    }
+
     return response;
   },
 
+  /**
+   * Create an opinion
+   * Sysadmins can set lifecycle_status, publishAt and archiveAt; a future publishAt schedules it
+   */
+  async create(ctx) {
+    const data = ctx.request.body?.data;
+
+    if (data) {
+      // The verified badge is only set by quote verification
+      delete data.is_verified;
+
+      try {
+        const opinionService = strapi.service('api::opinion.opinion');
+        ctx.request.body.data = isAdmin(ctx.state.user)
+          ? opinionService.normalizeLifecycle(data)
+          : opinionService.stripLifecycleFields(data);
+      } catch (error) {
+        return ctx.badRequest(error.message);
+      }
+    }
+
+    return super.create(ctx);
+  },
+
+  /**
+   * Update an opinion
+   * Lifecycle changes are validated against the stored publishAt/archiveAt
+   */
+  async update(ctx) {
+    const data = ctx.request.body?.data;
+
+    if (data) {
+      delete data.is_verified;
+      const opinionService = strapi.service('api::opinion.opinion');
+
+      if (!isAdmin(ctx.state.user)) {
+        ctx.request.body.data = opinionService.stripLifecycleFields(data);
+      } else {
+        const { id } = ctx.params;
+        const existing = await strapi.db.query('api::opinion.opinion').findOne({
+          where: /^\d+$/.test(String(id)) ? { id: Number(id) } : { documentId: id },
+          select: ['lifecycle_status', 'publishAt', 'archiveAt']
+        });
+
+        if (!existing) {
+          return ctx.notFound('Opinion not found');
+        }
+
+        try {
+          ctx.request.body.data = opinionService.normalizeLifecycle(data, existing);
+        } catch (error) {
+          return ctx.badRequest(error.message);
+        }
+      }
+    }
+
+    return super.update(ctx);
+  },
+
   // Custom delete method to unpublish related quote draft
   async delete(ctx) {
     const { id } = ctx.params;
@@ -59,13 +182,16 @@ export default factories.createCoreController('api::opinion.opinion', ({ strapi
       // Delete the opinion using the default method
       const response = await super.delete(ctx);
 
-      // Unpublish any related quote drafts (set is_published to false)
+      // Unpublish any related quote drafts and send them back to review so they can be published again
       if (relatedDrafts && relatedDrafts.length > 0) {
         for (const draft of relatedDrafts) {
           await strapi.entityService.update('api::quote-draft.quote-draft', draft.id, {
             data: {
               is_published: false,
-              opinion: null
+              opinion: null,
+              review_status: 'pending',
+              reviewed_by: null,
+              reviewed_at: null
             }
           });
         }
@@ -79,20 +205,410 @@ export default factories.createCoreController('api::opinion.opinion', ({ strapi
     }
   },
 
-  // Auto-generate opinion method
+  /**
+   * Ranked full-text search with facets
+   * GET /api/opinions/search?q=&category=&source_type=&generation_type=&isHidden=&minRating=&maxRating=&page=&pageSize=
+   * category, source_type and generation_type accept comma-separated lists (category by id or name, including subcategories)
+   * Hidden and non-live opinions are only searchable by sysadmins (who may also filter by lifecycle_status)
+   */
+  async search(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in to search opinions');
+    }
+
+    const query = ctx.query as any;
+    const list = (value: any) => (value ? String(value).split(',').map(item => item.trim()).filter(Boolean) : []);
+    const number = (value: any) => (value === undefined || value === '' ? undefined : Number(value));
+
+    const minRating = number(query.minRating);
+    const maxRating = number(query.maxRating);
+    if ([minRating, maxRating].some(value => value !== undefined && (isNaN(value) || value < 0 || value > 10))) {
+      return ctx.badRequest('minRating and maxRating must be between 0 and 10');
+    }
+
+    const isSysadmin = isAdmin(user);
+    let isHidden: boolean | undefined = isSysadmin && query.isHidden !== undefined
+      ? query.isHidden === 'true'
+      : undefined;
+    if (!isSysadmin) {
+      isHidden = false;
+    }
+
+    try {
+      // Resolve category ids and names to ids
+      let categoryIds: number[] = [];
+      const categoryRefs = list(query.category);
+      if (categoryRefs.length > 0) {
+        const numericIds = categoryRefs.filter(ref => /^\d+$/.test(ref)).map(Number);
+        const names = categoryRefs.filter(ref => !/^\d+$/.test(ref));
+        const namedCategories = names.length > 0
+          ? await strapi.db.query('api::category.category').findMany({
+            where: { $or: names.map(name => ({ name: { $eqi: name } })) },
+            select: ['id']
+          })
+          : [];
+        categoryIds = [...numericIds, ...namedCategories.map((category: any) => category.id)];
+
+        // Unknown categories match nothing; known ones include their subcategories
+        categoryIds = categoryIds.length === 0
+          ? [-1]
+          : await strapi.service('api::category.category').expandCategoryIds(categoryIds);
+      }
+
+      const result = await strapi.service('api::opinion.opinion').searchOpinions({
+        q: query.q,
+        lifecycleStatus: isSysadmin ? query.lifecycle_status || undefined : 'live',
+        categoryIds,
+        sourceTypes: list(query.source_type),
+        generationTypes: list(query.generation_type),
+        isHidden,
+        minRating,
+        maxRating,
+        page: number(query.page),
+        pageSize: number(query.pageSize)
+      });
+
+      return {
+        data: result.results,
+        meta: {
+          pagination: result.pagination,
+          facets: result.facets
+        }
+      };
+    } catch (error) {
+      strapi.log.error('Error searching opinions:', error);
+      return ctx.internalServerError('Failed to search opinions');
+    }
+  },
+
+  /**
+   * Personalized feed of opinions the current user has not rated yet
+   * GET /api/opinions/feed?limit=20&cursor=<nextCursor>
+   */
+  async feed(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in to view your feed');
+    }
+
+    const { cursor, limit } = ctx.query as any;
+    const parsedLimit = limit === undefined ? undefined : Number(limit);
+
+    if (parsedLimit !== undefined && (!Number.isInteger(parsedLimit) || parsedLimit < 1)) {
+      return ctx.badRequest('limit must be a positive integer');
+    }
+
+    try {
+      const feed = await strapi.service('api::opinion.opinion').getFeed(user.id, {
+        cursor,
+        limit: parsedLimit
+      });
+
+      if (!feed) {
+        return ctx.badRequest('Invalid feed cursor');
+      }
+
+      return {
+        data: feed.results,
+        meta: { pagination: feed.pagination }
+      };
+    } catch (error) {
+      strapi.log.error('Error building opinion feed:', error);
+      return ctx.internalServerError('Failed to build opinion feed');
+    }
+  },
+
+  /**
+   * Aggregated rating statistics for an opinion
+   * GET /api/opinions/:id/stats?interval=day|week|month
+   * Accepts either the numeric id or the documentId
+   */
+  async stats(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in to view rating statistics');
+    }
+
+    const { id } = ctx.params;
+    const { interval } = ctx.query as any;
+
+    try {
+      const ratingService = strapi.service('api::user-rating.user-rating');
+      const opinionId = await ratingService.resolveOpinionId(id);
+
+      if (!opinionId) {
+        return ctx.notFound('Opinion not found');
+      }
+
+      const stats = await ratingService.getOpinionStats(opinionId, { interval });
+
+      return { data: stats, meta: {} };
+    } catch (error) {
+      strapi.log.error('Error fetching opinion stats:', error);
+      return ctx.internalServerError('Failed to fetch opinion statistics');
+    }
+  },
+
+  /**
+   * Near-duplicate opinion pairs (sysadmin only)
+   * GET /api/opinions/duplicates?status=pending|merged|dismissed
+   */
+  async duplicates(ctx) {
+    if (!isAdmin(ctx.state.user)) {
+      return ctx.forbidden('Only sysadmin can review duplicates');
+    }
+
+    const { status = 'pending' } = ctx.query as any;
+
+    if (!['pending', 'merged', 'dismissed'].includes(status)) {
+      return ctx.badRequest('Status must be "pending", "merged" or "dismissed"');
+    }
+
+    try {
+      const duplicates = await strapi.service('api::opinion.opinion').listDuplicates({ status });
+      return { data: duplicates, meta: { total: duplicates.length } };
+    } catch (error) {
+      strapi.log.error('Error fetching duplicate opinions:', error);
+      return ctx.internalServerError('Failed to fetch duplicate opinions');
+    }
+  },
+
+  /**
+   * Run the duplicate detection job now (sysadmin only)
+   * POST /api/opinions/duplicates/scan
+   * Body: { threshold?: number } - similarity between 0.5 and 1 (default 0.85)
+   */
+  async scanDuplicates(ctx) {
+    if (!isAdmin(ctx.state.user)) {
+      return ctx.forbidden('Only sysadmin can scan for duplicates');
+    }
+
+    const { threshold } = ctx.request.body || {};
+
+    if (threshold !== undefined && (typeof threshold !== 'number' || threshold < 0.5 || threshold > 1)) {
+      return ctx.badRequest('Threshold must be a number between 0.5 and 1');
+    }
+
+    try {
+      const result = await strapi.service('api::opinion.opinion').scanDuplicates({ threshold });
+      return { data: result };
+    } catch (error) {
+      strapi.log.error('Error scanning for duplicate opinions:', error);
+      return ctx.internalServerError('Failed to scan for duplicate opinions');
+    }
+  },
+
+  /**
+   * Dismiss a duplicate pair (sysadmin only)
+   * POST /api/opinions/duplicates/:id/dismiss
+   */
+  async dismissDuplicate(ctx) {
+    const user = ctx.state.user;
+
+    if (!isAdmin(user)) {
+      return ctx.forbidden('Only sysadmin can dismiss duplicates');
+    }
+
+    const { id } = ctx.params;
+    const duplicate = await strapi.db.query('api::opinion-duplicate.opinion-duplicate').findOne({
+      where: { id: Number(id) },
+      select: ['id', 'status']
+    });
+
+    if (!duplicate) {
+      return ctx.notFound('Duplicate pair not found');
+    }
+
+    if (duplicate.status !== 'pending') {
+      return ctx.badRequest(`Duplicate pair is already ${duplicate.status}`);
+    }
+
+    try {
+      const result = await strapi.service('api::opinion.opinion').dismissDuplicate(duplicate.id, user.id);
+      return { data: result };
+    } catch (error) {
+      strapi.log.error('Error dismissing duplicate pair:', error);
+      return ctx.internalServerError('Failed to dismiss duplicate pair');
+    }
+  },
+
+  /**
+   * Merge a duplicate opinion into another (sysadmin only)
+   * POST /api/opinions/merge
+   * Body: { survivorId, duplicateId } - ids or documentIds; the duplicate is deleted
+   */
+  async merge(ctx) {
+    const user = ctx.state.user;
+
+    if (!isAdmin(user)) {
+      return ctx.forbidden('Only sysadmin can merge opinions');
+    }
+
+    const { survivorId, duplicateId } = ctx.request.body || {};
+    const ratingService = strapi.service('api::user-rating.user-rating');
+    const survivor = await ratingService.resolveOpinionId(survivorId);
+    const duplicate = await ratingService.resolveOpinionId(duplicateId);
+
+    if (!survivor || !duplicate) {
+      return ctx.badRequest('Valid survivorId and duplicateId are required');
+    }
+
+    if (survivor === duplicate) {
+      return ctx.badRequest('An opinion cannot be merged into itself');
+    }
+
+    try {
+      const result = await strapi.service('api::opinion.opinion').mergeOpinions(survivor, duplicate, user.id);
+      return { data: result };
+    } catch (error) {
+      strapi.log.error('Error merging opinions:', error);
+      return ctx.internalServerError('Failed to merge opinions');
+    }
+  },
+
+  /**
+   * Bulk import opinions from CSV or JSON (sysadmin only)
+   * POST /api/opinions/import
+   * Body: { format: 'csv' | 'json', content (or data): string | array, dryRun?: boolean }
+   * A text/csv (or text/plain) body is treated as CSV. Add ?dryRun=true to validate without writing.
+   */
+  async importOpinions(ctx) {
+    const user = ctx.state.user;
+
+    if (!isAdmin(user)) {
+      return ctx.forbidden('Only sysadmin can import opinions');
+    }
+
+    let body = ctx.request.body;
+    if (ctx.is('text/csv', 'text/plain') && typeof body !== 'string') {
+      try {
+        body = await readRawText(ctx);
+      } catch (error) {
+        return ctx.badRequest(error.message);
+      }
+    }
+
+    const isRawCsv = typeof body === 'string';
+    const format = isRawCsv ? 'csv' : String(body?.format || 'json').toLowerCase();
+    const content = isRawCsv ? body : (body?.content ?? body?.data);
+    const dryRun = ctx.query.dryRun === 'true' || (!isRawCsv && body?.dryRun === true);
+
+    if (format !== 'csv' && format !== 'json') {
+      return ctx.badRequest('Format must be "csv" or "json"');
+    }
+
+    if (content === undefined || content === null || content === '') {
+      return ctx.badRequest('Import content is required');
+    }
+
+    const opinionService = strapi.service('api::opinion.opinion');
+
+    let rows;
+    try {
+      rows = opinionService.parseImportRows(format, content);
+    } catch (error) {
+      return ctx.badRequest(`Could not parse ${format.toUpperCase()} import: ${error.message}`);
+    }
+
+    if (rows.length === 0) {
+      return ctx.badRequest('Import contains no rows');
+    }
+
+    try {
+      const result = await opinionService.importOpinions(rows, { dryRun });
+
+      strapi.log.info(
+        `Opinion import by user ${user.id}: ${result.summary.created} created, ${result.summary.skipped} skipped, ${result.summary.errors} errors${dryRun ? ' (dry run)' : ''}`
+      );
+
+      return { data: result };
+    } catch (error) {
+      strapi.log.error('Error importing opinions:', error);
+      return ctx.badRequest(error.message || 'Failed to import opinions');
+    }
+  },
+
+  /**
+   * Bulk export opinions as CSV or JSON (sysadmin only)
+   * GET /api/opinions/export?format=csv|json&category=Name&includeHidden=false
+   */
+  async exportOpinions(ctx) {
+    const user = ctx.state.user;
+
+    if (!isAdmin(user)) {
+      return ctx.forbidden('Only sysadmin can export opinions');
+    }
+
+    const { format = 'csv', category, includeHidden } = ctx.query as any;
+
+    if (format !== 'csv' && format !== 'json') {
+      return ctx.badRequest('Format must be "csv" or "json"');
+    }
+
+    try {
+      const result = await strapi.service('api::opinion.opinion').exportOpinions({
+        format,
+        categoryName: category,
+        includeHidden: includeHidden !== 'false'
+      });
+
+      if (format === 'json') {
+        return { data: result.content, meta: { count: result.count } };
+      }
+
+      const date = new Date().toISOString().slice(0, 10);
+      ctx.set({
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="opinions-${date}.csv"`
+      });
+      ctx.body = result.content;
+    } catch (error) {
+      strapi.log.error('Error exporting opinions:', error);
+      return ctx.internalServerError('Failed to export opinions');
+    }
+  },
+
+  /**
+   * Auto-generate opinion method
+   * POST /api/opinions/generate
+   * Body: { generationType, generationSource, generationDetails?, provider?: 'ai' | 'web' | 'static' }
+   */
   async generateOpinion(ctx) {
+    if (!ctx.state.user) {
+      return ctx.unauthorized('You must be logged in to generate opinions');
+    }
+
     try {
-      const { generationType, generationSource } = ctx.request.body;
+      const { generationType, generationSource, generationDetails, provider } = ctx.request.body || {};
 
       // Validate input
       if (!generationType || !generationSource) {
         return ctx.badRequest('Generation type and source are required');
       }
 
-      // Generate the opinion using the service
-      const generatedOpinion = await strapi.service('api::opinion.opinion').generateOpinion({
+      if (!GENERATION_TYPES.includes(generationType)) {
+        return ctx.badRequest(`generationType must be one of: ${GENERATION_TYPES.join(', ')}`);
+      }
+
+      if (!GENERATION_SOURCES.includes(generationSource)) {
+        return ctx.badRequest(`generationSource must be one of: ${GENERATION_SOURCES.join(', ')}`);
+      }
+
+      if (provider !== undefined && !providers[provider]) {
+        return ctx.badRequest(`provider must be one of: ${Object.keys(providers).join(', ')}`);
+      }
+
+      // Generate the opinion using the service (falls back to static quotes when AI is unavailable)
+      const { provider: usedProvider, ...generatedOpinion } = await strapi.service('api::opinion.opinion').generateOpinion({
         generationType,
-        generationSource
+        generationSource,
+        details: generationDetails,
+        provider,
+        userId: ctx.state.user.id
       });
 
       // Create the opinion in the database
@@ -101,14 +617,15 @@ export default factories.createCoreController('api::opinion.opinion', ({ strapi
           ...generatedOpinion,
           source_type: 'AI',
           generation_type: generationType,
-          generation_source: generationSource,
-          generation_details: `Generated from ${generationSource} about ${generationType}`
+          generation_source: generationSource
         },
         populate: {
           category: true
         }
       });
 
+      strapi.log.info(`Generated opinion ${opinion.id} using "${usedProvider}" provider`);
+
       return ctx.send(opinion);
     } catch (error) {
       strapi.log.error('Error generating opinion:', error);
@@ -5,8 +5,90 @@ export default {
       path: '/opinions/generate',
       handler: 'opinion.generateOpinion',
       config: {
-        auth: false // Make it public temporarily for testing
+        policies: [],
+        middlewares: []
+      },
+    },
+    {
+      method: 'GET',
+      path: '/opinions/search',
+      handler: 'opinion.search',
+      config: {
+        policies: [],
+        middlewares: []
+      },
+    },
+    {
+      method: 'GET',
+      path: '/opinions/feed',
+      handler: 'opinion.feed',
+      config: {
+        policies: [],
+        middlewares: []
+      },
+    },
+    {
+      method: 'GET',
+      path: '/opinions/duplicates',
+      handler: 'opinion.duplicates',
+      config: {
+        policies: [],
+        middlewares: []
+      },
+    },
+    {
+      method: 'POST',
+      path: '/opinions/duplicates/scan',
+      handler: 'opinion.scanDuplicates',
+      config: {
+        policies: [],
+        middlewares: []
+      },
+    },
+    {
+      method: 'POST',
+      path: '/opinions/duplicates/:id/dismiss',
+      handler: 'opinion.dismissDuplicate',
+      config: {
+        policies: [],
+        middlewares: []
+      },
+    },
+    {
+      method: 'POST',
+      path: '/opinions/merge',
+      handler: 'opinion.merge',
+      config: {
+        policies: [],
+        middlewares: []
+      },
+    },
+    {
+      method: 'POST',
+      path: '/opinions/import',
+      handler: 'opinion.importOpinions',
+      config: {
+        policies: [],
+        middlewares: []
+      },
+    },
+    {
+      method: 'GET',
+      path: '/opinions/export',
+      handler: 'opinion.exportOpinions',
+      config: {
+        policies: [],
+        middlewares: []
+      },
+    },
+    {
+      method: 'GET',
+      path: '/opinions/:id/stats',
+      handler: 'opinion.stats',
+      config: {
+        policies: [],
+        middlewares: []
       },
     },
   ],
-};
\ No newline at end of file
+};
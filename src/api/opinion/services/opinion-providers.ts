@@ -0,0 +1,307 @@
+/**
+ * Opinion Generation Providers
+ * Pluggable sources for auto-generated opinion statements
+ *
+ * Providers:
+ * - ai: fills a prompt from the opinion-template library and asks the shared AI service
+ * - web: runs the quote-draft web pipeline (web search + AI quote extraction)
+ * - static: built-in quote matrix, works offline and is always the last fallback
+ *
+ * Order is configured with OPINION_GENERATION_PROVIDERS (default: "ai,static")
+ */
+
+import aiService from '../../../services/ai-service';
+import googleSearchService from '../../../services/google-search-service';
+
+export const GENERATION_TYPES = ['Celebrity', 'Politician', 'Company Executive'];
+export const GENERATION_SOURCES = ['News', 'Research', 'Laws', 'Advertisements'];
+
+const DEFAULT_PROVIDER_ORDER = ['ai', 'static'];
+const MAX_STATEMENT_LENGTH = 1000;
+
+// Used when the template library has no active template for the requested type/source
+const DEFAULT_PROMPT = `Write one realistic, clearly attributed quote from a {{generationType}} that would appear in {{generationSource}} coverage{{categoryClause}}.
+The quote should express a debatable opinion that people could agree or disagree with.
+{{details}}`;
+
+export interface GenerationParams {
+  generationType: string;
+  generationSource: string;
+  categoryName?: string;
+  details?: string;
+  userId?: number | null;
+}
+
+export interface GeneratedStatement {
+  statement: string;
+  provider: string;
+  details: string;
+  templateId?: number;
+}
+
+export interface OpinionGenerationProvider {
+  name: string;
+  isAvailable(): boolean;
+  generate(params: GenerationParams): Promise<GeneratedStatement>;
+}
+
+/**
+ * Format a quote the same way published quote drafts are formatted
+ */
+const formatQuote = (quote: string, speaker: string, source: string) =>
+  `"${quote.trim().replace(/^"+|"+$/g, '')}" - ${speaker.trim()}, ${source.trim()}`;
+
+const fillTemplate = (template: string, params: GenerationParams) =>
+  template
+    .replace(/\{\{generationType\}\}/g, params.generationType)
+    .replace(/\{\{generationSource\}\}/g, params.generationSource)
+    .replace(/\{\{category\}\}/g, params.categoryName || '')
+    .replace(/\{\{categoryClause\}\}/g, params.categoryName ? ` about ${params.categoryName}` : '')
+    .replace(/\{\{details\}\}/g, params.details ? `Additional context: ${params.details}` : '')
+    .trim();
+
+/**
+ * Pick the most specific active template for a type/source
+ * Templates with an empty type or source apply to every type or source
+ */
+const findTemplate = async (generationType: string, generationSource: string) => {
+  const filters: any = {
+    isActive: true,
+    $and: [
+      { $or: [{ generation_type: generationType }, { generation_type: { $null: true } }] },
+      { $or: [{ generation_source: generationSource }, { generation_source: { $null: true } }] }
+    ]
+  };
+
+  const templates = await strapi.entityService.findMany('api::opinion-template.opinion-template', {
+    filters
+  });
+
+  if (!templates || templates.length === 0) {
+    return null;
+  }
+
+  const specificity = (template: any) => (template.generation_type ? 2 : 0) + (template.generation_source ? 1 : 0);
+  const best = Math.max(...templates.map(specificity));
+  const candidates = templates.filter(template => specificity(template) === best);
+
+  return candidates[Math.floor(Math.random() * candidates.length)];
+};
+
+// Offline fallback quotes, keyed by generationType then generationSource
+const STATIC_QUOTES: Record<string, Record<string, string[]>> = {
+  Celebrity: {
+    News: [
+      "\"Fame is a prison of other people's expectations.\" - Taylor Swift, Rolling Stone Interview",
+      "\"Social media has created unrealistic standards for everyone, including celebrities.\" - Emma Stone, The Guardian",
+      "\"The paparazzi culture has become more invasive than ever before.\" - Jennifer Lawrence, Vanity Fair"
+    ],
+    Research: [
+      "\"Celebrity endorsements increase product sales by an average of 20%.\" - Dr. Sarah Johnson, Harvard Business Review",
+      "\"Parasocial relationships with celebrities can fill social voids.\" - Prof. Mark Thompson, Journal of Media Psychology",
+      "\"Celebrity worship syndrome affects 1 in 3 young adults.\" - Dr. Lisa Chen, American Psychological Association"
+    ],
+    Laws: [
+      "\"Current privacy laws fail to protect public figures adequately.\" - Judge William Harris, California Law Review",
+      "\"Celebrity image rights need federal protection standards.\" - Sen. Maria Rodriguez, Congressional Hearing",
+      "\"The right to publicity varies too much between states.\" - Prof. Robert Kim, Yale Law Journal"
+    ],
+    Advertisements: [
+      "\"Influencer marketing will reach $21 billion by 2025.\" - Marketing Week Report, Industry Analysis",
+      "\"Authenticity in celebrity endorsements drives consumer trust.\" - Nielsen Study, Consumer Insights",
+      "\"Disclosure requirements for sponsored content are poorly enforced.\" - FTC Commissioner, Press Release"
+    ]
+  },
+  Politician: {
+    News: [
+      "\"Democracy requires constant vigilance from its citizens.\" - Sen. John Mitchell, CNN Interview",
+      "\"Partisan gridlock is destroying our ability to govern.\" - Rep. Sarah Williams, Washington Post",
+      "\"The media has become the fourth branch of government.\" - Gov. Michael Brown, NBC News"
+    ],
+    Research: [
+      "\"Political polarization has reached historic levels in America.\" - Pew Research Center, Annual Report",
+      "\"Social media echo chambers reinforce political biases.\" - MIT Study, Science Journal",
+      "\"Trust in government is at an all-time low of 20%.\" - Gallup Poll, Public Trust Survey"
+    ],
+    Laws: [
+      "\"Campaign finance reform is essential for democracy.\" - Justice Elena Carter, Supreme Court Dissent",
+      "\"Term limits would reduce corruption and increase accountability.\" - Sen. David Lee, Senate Floor Speech",
+      "\"Lobbying disclosure laws have too many loopholes.\" - Ethics Commissioner, Annual Report"
+    ],
+    Advertisements: [
+      "\"Political ads should be held to the same standards as commercial ads.\" - FCC Chairman, Policy Statement",
+      "\"Microtargeting in political advertising threatens privacy.\" - Privacy Advocate, Tech Committee Hearing",
+      "\"Dark money in politics undermines transparency.\" - Campaign Finance Institute, Research Brief"
+    ]
+  },
+  "Company Executive": {
+    News: [
+      "\"The average CEO makes 351 times the typical worker's salary.\" - Economic Policy Institute, Annual Report",
+      "\"Diversity in leadership improves company performance by 35%.\" - McKinsey Study, Forbes",
+      "\"Short-term thinking is killing American business.\" - Warren Buffett, Berkshire Hathaway Letter"
+    ],
+    Research: [
+      "\"CEO turnover rates have increased 50% in the last decade.\" - Strategy& Study, Harvard Business Review",
+      "\"Narcissistic CEOs take more risks but deliver volatile returns.\" - Stanford Research, Journal of Finance",
+      "\"Executive overconfidence leads to poor acquisition decisions.\" - Wharton Study, Management Science"
+    ],
+    Laws: [
+      "\"Say-on-pay votes should be binding, not advisory.\" - SEC Commissioner, Regulatory Proposal",
+      "\"Clawback provisions for executive compensation need teeth.\" - Sen. Elizabeth Warren, Banking Committee",
+      "\"Stock buybacks should be more heavily regulated.\" - Prof. William Lazonick, Harvard Law Review"
+    ],
+    Advertisements: [
+      "\"CEO personal brands can impact stock prices by up to 10%.\" - Weber Shandwick Study, PR Week",
+      "\"Authentic leadership communication drives employee engagement.\" - Gallup Research, Workplace Report",
+      "\"Executive thought leadership influences B2B purchasing decisions.\" - LinkedIn Study, Marketing Insights"
+    ]
+  }
+};
+
+const aiTemplateProvider: OpinionGenerationProvider = {
+  name: 'ai',
+
+  isAvailable() {
+    return aiService.isConfigured();
+  },
+
+  async generate(params) {
+    const template = await findTemplate(params.generationType, params.generationSource);
+    const instructions = fillTemplate(template?.prompt || DEFAULT_PROMPT, params);
+
+    const prompt = `${instructions}
+
+Return ONLY valid JSON in this exact format, nothing else:
+{
+  "quote_text": "The quote without surrounding quotation marks",
+  "speaker_name": "Full Name or Title",
+  "publication_source": "Publication or venue"
+}`;
+
+    const response = await aiService.getCompletion(prompt, params.userId, 500, 'opinion_generation');
+    const jsonMatch = response.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('No JSON found in AI response');
+    }
+
+    const parsed = JSON.parse(jsonMatch[0]);
+    if (!parsed.quote_text || !parsed.speaker_name || !parsed.publication_source) {
+      throw new Error('AI response is missing quote_text, speaker_name or publication_source');
+    }
+
+    return {
+      statement: formatQuote(parsed.quote_text, parsed.speaker_name, parsed.publication_source),
+      provider: 'ai',
+      details: template
+        ? `AI generated from template "${template.name}"`
+        : `AI generated from ${params.generationSource} about ${params.generationType}`,
+      templateId: template ? Number(template.id) : undefined
+    };
+  }
+};
+
+const webQuoteProvider: OpinionGenerationProvider = {
+  name: 'web',
+
+  isAvailable() {
+    return googleSearchService.validateConfiguration();
+  },
+
+  async generate(params) {
+    const criteria = {
+      category: params.categoryName || params.generationType,
+      generationType: params.generationType,
+      generationSource: params.generationSource,
+      generationDetails: params.details
+    };
+
+    const searchResults = await googleSearchService.searchQuotes(criteria, {}, params.userId);
+    if (!searchResults || searchResults.length === 0) {
+      throw new Error('No search results found');
+    }
+
+    const extracted = await aiService.extractQuoteFromSearchResults(searchResults, criteria, params.userId);
+    const selected = extracted.selected_quote;
+
+    return {
+      statement: formatQuote(selected.quote_text, selected.speaker_name, selected.publication_source),
+      provider: 'web',
+      details: `Found on the web (${selected.source_url})`
+    };
+  }
+};
+
+const staticTemplateProvider: OpinionGenerationProvider = {
+  name: 'static',
+
+  isAvailable() {
+    return true;
+  },
+
+  async generate(params) {
+    const sourceTemplates = STATIC_QUOTES[params.generationType]?.[params.generationSource];
+    if (!sourceTemplates || sourceTemplates.length === 0) {
+      throw new Error(`No static quotes for ${params.generationType}/${params.generationSource}`);
+    }
+
+    // Select random opinion from templates
+    const randomIndex = Math.floor(Math.random() * sourceTemplates.length);
+
+    return {
+      statement: sourceTemplates[randomIndex],
+      provider: 'static',
+      details: `Generated from ${params.generationSource} about ${params.generationType}`
+    };
+  }
+};
+
+export const providers: Record<string, OpinionGenerationProvider> = {
+  [aiTemplateProvider.name]: aiTemplateProvider,
+  [webQuoteProvider.name]: webQuoteProvider,
+  [staticTemplateProvider.name]: staticTemplateProvider
+};
+
+/**
+ * Resolve the provider chain: requested provider first, then configured order, static last
+ */
+export function getProviderChain(requested?: string): OpinionGenerationProvider[] {
+  const configured = (process.env.OPINION_GENERATION_PROVIDERS || '')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+
+  const order = [
+    ...(requested ? [requested] : []),
+    ...(configured.length > 0 ? configured : DEFAULT_PROVIDER_ORDER),
+    staticTemplateProvider.name
+  ];
+
+  return [...new Set(order)]
+    .map(name => providers[name])
+    .filter(provider => provider && provider.isAvailable());
+}
+
+/**
+ * Generate a statement, falling back through the provider chain
+ */
+export async function generateStatement(params: GenerationParams, requested?: string): Promise<GeneratedStatement> {
+  const chain = getProviderChain(requested);
+  const failures: string[] = [];
+
+  for (const provider of chain) {
+    try {
+      const result = await provider.generate(params);
+
+      if (!result.statement || result.statement.length > MAX_STATEMENT_LENGTH) {
+        throw new Error(`Statement must be between 1 and ${MAX_STATEMENT_LENGTH} characters`);
+      }
+
+      return result;
+    } catch (error) {
+      strapi.log.warn(`Opinion generation: provider "${provider.name}" failed, trying next: ${error.message}`);
+      failures.push(`${provider.name}: ${error.message}`);
+    }
+  }
+
+  throw new Error(`All opinion generation providers failed (${failures.join('; ')})`);
+}
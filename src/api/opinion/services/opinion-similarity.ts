@@ -0,0 +1,145 @@
+/**
+ * Opinion Similarity
+ * Near-duplicate detection for opinion statements
+ *
+ * Statements are normalized (case, punctuation, quote marks, whitespace) and compared with
+ * the Dice coefficient over character trigrams. To avoid comparing every pair, candidates
+ * must first share enough significant words through an inverted word index.
+ */
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+
+// Candidate pairs must share at least this fraction of the shorter statement's words
+const MIN_SHARED_WORD_RATIO = 0.5;
+// Words appearing in more statements than this are too common to narrow the search
+const MAX_WORD_FREQUENCY = 200;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'i', 'in',
+  'is', 'it', 'its', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their', 'this', 'to', 'was',
+  'we', 'were', 'will', 'with', 'you'
+]);
+
+export interface StatementRecord {
+  id: number;
+  statement: string;
+}
+
+export interface SimilarPair {
+  opinionId: number;
+  duplicateOfId: number;
+  similarity: number;
+}
+
+/**
+ * Lowercase, strip accents, punctuation and quote marks, collapse whitespace
+ */
+export const normalizeStatement = (statement: string) =>
+  (statement || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const significantWords = (normalized: string) =>
+  new Set(normalized.split(' ').filter(word => word.length > 1 && !STOP_WORDS.has(word)));
+
+const trigrams = (normalized: string) => {
+  const padded = `  ${normalized} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    grams.add(padded.slice(i, i + 3));
+  }
+  return grams;
+};
+
+const diceCoefficient = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 && b.size === 0) {
+    return 1;
+  }
+
+  let shared = 0;
+  a.forEach(gram => {
+    if (b.has(gram)) {
+      shared++;
+    }
+  });
+
+  return (2 * shared) / (a.size + b.size);
+};
+
+/**
+ * Similarity of two statements between 0 and 1
+ */
+export const statementSimilarity = (a: string, b: string) =>
+  diceCoefficient(trigrams(normalizeStatement(a)), trigrams(normalizeStatement(b)));
+
+/**
+ * Find near-duplicate pairs at or above the threshold
+ * The newer opinion (higher id) is reported as the duplicate of the older one
+ */
+export const findSimilarPairs = (
+  records: StatementRecord[],
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD
+): SimilarPair[] => {
+  const entries = records.map(record => {
+    const normalized = normalizeStatement(record.statement);
+    return {
+      id: record.id,
+      words: significantWords(normalized),
+      grams: trigrams(normalized)
+    };
+  });
+
+  // Inverted index: word -> entry positions
+  const index = new Map<string, number[]>();
+  entries.forEach((entry, position) => {
+    entry.words.forEach(word => {
+      if (!index.has(word)) {
+        index.set(word, []);
+      }
+      index.get(word).push(position);
+    });
+  });
+
+  const pairs: SimilarPair[] = [];
+
+  entries.forEach((entry, position) => {
+    const sharedCounts = new Map<number, number>();
+
+    entry.words.forEach(word => {
+      const postings = index.get(word);
+      if (postings.length > MAX_WORD_FREQUENCY) {
+        return;
+      }
+      postings.forEach(other => {
+        // Only look forward so each pair is compared once
+        if (other > position) {
+          sharedCounts.set(other, (sharedCounts.get(other) || 0) + 1);
+        }
+      });
+    });
+
+    sharedCounts.forEach((shared, other) => {
+      const candidate = entries[other];
+      const minWords = Math.min(entry.words.size, candidate.words.size) || 1;
+      if (shared / minWords < MIN_SHARED_WORD_RATIO) {
+        return;
+      }
+
+      const similarity = diceCoefficient(entry.grams, candidate.grams);
+      if (similarity >= threshold) {
+        const [older, newer] = entry.id < candidate.id ? [entry.id, candidate.id] : [candidate.id, entry.id];
+        pairs.push({
+          opinionId: newer,
+          duplicateOfId: older,
+          similarity: Number(similarity.toFixed(4))
+        });
+      }
+    });
+  });
+
+  return pairs.sort((a, b) => b.similarity - a.similarity);
+};
@@ -3,94 +3,1090 @@
  */
 
 import { factories } from '@strapi/strapi';
+import { GENERATION_TYPES, GENERATION_SOURCES, generateStatement } from './opinion-providers';
+import { DEFAULT_SIMILARITY_THRESHOLD, findSimilarPairs } from './opinion-similarity';
+
+// Bulk import/export configuration
+const MAX_IMPORT_ROWS = 1000;
+const EXPORT_BATCH_SIZE = 500;
+const MAX_STATEMENT_LENGTH = 1000;
+const MAX_CATEGORY_NAME_LENGTH = 50;
+const EXPORT_COLUMNS = [
+  'statement',
+  'category',
+  'isHidden',
+  'source_type',
+  'generation_type',
+  'generation_source',
+  'generation_details',
+  'createdAt'
+];
+
+// Search configuration
+const SEARCH_INDEX = 'opinions_search_idx';
+const SEARCH_DEFAULT_PAGE_SIZE = 25;
+const SEARCH_MAX_PAGE_SIZE = 100;
+const SEARCH_DOCUMENT_SQL = `to_tsvector('english', COALESCE(o.statement, '') || ' ' || COALESCE(o.generation_details, ''))`;
+const RATING_FACET_BUCKETS = [
+  { key: '0-2', min: 0, max: 2 },
+  { key: '2-4', min: 2, max: 4 },
+  { key: '4-6', min: 4, max: 6 },
+  { key: '6-8', min: 6, max: 8 },
+  { key: '8-10', min: 8, max: 10 }
+];
+
+// Opinion lifecycle: only live opinions are visible to non-admins
+const LIFECYCLE_STATUSES = ['draft', 'scheduled', 'live', 'archived'] as const;
+const LIFECYCLE_FIELDS = ['lifecycle_status', 'publishAt', 'archiveAt'];
+
+type LifecycleStatus = typeof LIFECYCLE_STATUSES[number];
+
+// Feed ranking configuration
+const FEED_DEFAULT_LIMIT = 20;
+const FEED_MAX_LIMIT = 50;
+const FEED_CONTROVERSY_THRESHOLD = 2.5; // rating standard deviation at which an opinion counts as controversial
+const FEED_FRESHNESS_HALF_LIFE_DAYS = 14;
+const FEED_WEIGHTS = {
+  affinity: 0.4,
+  controversy: 0.35,
+  freshness: 0.25
+};
+
+/**
+ * Latest rating per user for every opinion (draft rows, joined through the link tables)
+ */
+const LATEST_RATINGS_SQL = `
+  SELECT DISTINCT ON (ul.user_id, ol.opinion_id)
+    ul.user_id,
+    ol.opinion_id,
+    ur.rating
+  FROM user_ratings ur
+  INNER JOIN user_ratings_opinion_lnk ol ON ol.user_rating_id = ur.id
+  INNER JOIN user_ratings_users_permissions_user_lnk ul ON ul.user_rating_id = ur.id
+  WHERE ur.published_at IS NULL
+  ORDER BY ul.user_id, ol.opinion_id, ur.created_at DESC, ur.id DESC
+`;
+
+// Controversy/consensus scoring (ratings are 0-10, so the largest possible spread is 5)
+const MAX_RATING_STD_DEV = 5;
+const SCORE_CONFIDENCE_RATINGS = 3; // damps scores for opinions with only a few ratings
+
+interface FeedCursor {
+  asOf: string;
+  score: string;
+  id: number;
+}
+
+type SearchFacet = 'category' | 'source_type' | 'generation_type' | 'isHidden' | 'rating';
+
+interface SearchParams {
+  q?: string;
+  lifecycleStatus?: LifecycleStatus;
+  categoryIds?: number[];
+  sourceTypes?: string[];
+  generationTypes?: string[];
+  isHidden?: boolean;
+  minRating?: number;
+  maxRating?: number;
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * Build the WHERE clause applied on top of the search CTE
+ * `exclude` drops one filter so facet counts show what selecting another value would return
+ */
+const buildSearchWhere = (params: SearchParams, exclude?: SearchFacet) => {
+  const clauses: string[] = [];
+  const bindings: any[] = [];
+  const placeholders = (values: any[]) => values.map(() => '?').join(', ');
+
+  if (params.lifecycleStatus) {
+    clauses.push(`COALESCE(lifecycle_status, 'live') = ?`);
+    bindings.push(params.lifecycleStatus);
+  }
+  if (exclude !== 'category' && params.categoryIds?.length) {
+    clauses.push(`category_id IN (${placeholders(params.categoryIds)})`);
+    bindings.push(...params.categoryIds);
+  }
+  if (exclude !== 'source_type' && params.sourceTypes?.length) {
+    clauses.push(`source_type IN (${placeholders(params.sourceTypes)})`);
+    bindings.push(...params.sourceTypes);
+  }
+  if (exclude !== 'generation_type' && params.generationTypes?.length) {
+    clauses.push(`generation_type IN (${placeholders(params.generationTypes)})`);
+    bindings.push(...params.generationTypes);
+  }
+  if (exclude !== 'isHidden' && params.isHidden !== undefined) {
+    clauses.push('COALESCE(is_hidden, false) = ?');
+    bindings.push(params.isHidden);
+  }
+  if (exclude !== 'rating' && params.minRating !== undefined) {
+    clauses.push('average_rating >= ?');
+    bindings.push(params.minRating);
+  }
+  if (exclude !== 'rating' && params.maxRating !== undefined) {
+    clauses.push('average_rating <= ?');
+    bindings.push(params.maxRating);
+  }
+
+  return { sql: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '', bindings };
+};
+
+/**
+ * Feed cursors are opaque base64 strings of { asOf, score, id }
+ * `asOf` pins the freshness reference time so scores stay stable across pages
+ */
+const encodeFeedCursor = (cursor: FeedCursor) => Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeFeedCursor = (value: string): FeedCursor | null => {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      typeof cursor?.asOf !== 'string' || isNaN(Date.parse(cursor.asOf)) ||
+      typeof cursor?.score !== 'string' || isNaN(Number(cursor.score)) ||
+      !Number.isInteger(cursor?.id)
+    ) {
+      return null;
+    }
+    return cursor;
+  } catch {
+    return null;
+  }
+};
+
+type ImportFormat = 'csv' | 'json';
+
+interface ImportRow {
+  statement?: any;
+  category?: any;
+  isHidden?: any;
+}
+
+interface ImportRowReport {
+  row: number;
+  status: 'valid' | 'created' | 'skipped' | 'error';
+  statement: string;
+  category: string;
+  isHidden: boolean;
+  categoryCreated: boolean;
+  opinionId?: number;
+  errors: string[];
+}
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180: quoted fields, escaped quotes, embedded newlines)
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM added by spreadsheet exports
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Invalid CSV: unterminated quoted field');
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Ignore blank lines
+  return rows.filter(cells => cells.some(value => value.trim().length > 0));
+};
+
+const escapeCsvValue = (value: any): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Escape LIKE wildcards so user input only matches literally (used with ESCAPE '\')
+const escapeLikePattern = (value: string): string => value.replace(/[\\%_]/g, '\\$&');
+
+const parseBoolean = (value: any): boolean | null => {
+  if (value === undefined || value === null || value === '') {
+    return false;
+  }
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const normalized = String(value).trim().toLowerCase();
+  if (['true', '1', 'yes', 'y'].includes(normalized)) {
+    return true;
+  }
+  if (['false', '0', 'no', 'n', ''].includes(normalized)) {
+    return false;
+  }
+  return null;
+};
 
 export default factories.createCoreService('api::opinion.opinion', ({ strapi }) => ({
-  async generateOpinion({ generationType, generationSource }) {
-    // Generate quotes with attribution based on type and source
-    const templates = {
-      Celebrity: {
-        News: [
-          "\"Fame is a prison of other people's expectations.\" - Taylor Swift, Rolling Stone Interview",
-          "\"Social media has created unrealistic standards for everyone, including celebrities.\" - Emma Stone, The Guardian",
-          "\"The paparazzi culture has become more invasive than ever before.\" - Jennifer Lawrence, Vanity Fair"
-        ],
-        Research: [
-          "\"Celebrity endorsements increase product sales by an average of 20%.\" - Dr. Sarah Johnson, Harvard Business Review",
-          "\"Parasocial relationships with celebrities can fill social voids.\" - Prof. Mark Thompson, Journal of Media Psychology",
-          "\"Celebrity worship syndrome affects 1 in 3 young adults.\" - Dr. Lisa Chen, American Psychological Association"
-        ],
-        Laws: [
-          "\"Current privacy laws fail to protect public figures adequately.\" - Judge William Harris, California Law Review",
-          "\"Celebrity image rights need federal protection standards.\" - Sen. Maria Rodriguez, Congressional Hearing",
-          "\"The right to publicity varies too much between states.\" - Prof. Robert Kim, Yale Law Journal"
-        ],
-        Advertisements: [
-          "\"Influencer marketing will reach $21 billion by 2025.\" - Marketing Week Report, Industry Analysis",
-          "\"Authenticity in celebrity endorsements drives consumer trust.\" - Nielsen Study, Consumer Insights",
-          "\"Disclosure requirements for sponsored content are poorly enforced.\" - FTC Commissioner, Press Release"
-        ]
+  /**
+   * Create the full-text search index (called from bootstrap, safe to run on every startup)
+   */
+  async ensureSearchIndex() {
+    await strapi.db.connection.raw(`
+      CREATE INDEX IF NOT EXISTS ${SEARCH_INDEX}
+      ON opinions
+      USING GIN (to_tsvector('english', COALESCE(statement, '') || ' ' || COALESCE(generation_details, '')))
+    `);
+  },
+
+  /**
+   * Ranked full-text search across statement and generation_details
+   * Returns a page of results plus facet counts for every filter
+   */
+  async searchOpinions(params: SearchParams) {
+    const knex = strapi.db.connection;
+    const q = (params.q || '').trim();
+    const page = Math.max(1, params.page || 1);
+    const pageSize = Math.min(SEARCH_MAX_PAGE_SIZE, Math.max(1, params.pageSize || SEARCH_DEFAULT_PAGE_SIZE));
+
+    // Match on the stemmed document, plus a substring match so partial words still find results
+    const matchSql = q
+      ? `(${SEARCH_DOCUMENT_SQL} @@ websearch_to_tsquery('english', ?) OR o.statement ILIKE ? ESCAPE '\\')`
+      : 'TRUE';
+    const rankSql = q ? `ts_rank(${SEARCH_DOCUMENT_SQL}, websearch_to_tsquery('english', ?))` : '0';
+    const cteBindings = q ? [q, q, `%${escapeLikePattern(q)}%`] : [];
+
+    // Average rating uses the latest rating per user, same as the stats endpoint
+    const searchCte = `
+      WITH latest AS (${LATEST_RATINGS_SQL}),
+      rating_stats AS (
+        SELECT opinion_id, AVG(rating) AS average_rating, COUNT(*) AS rating_count
+        FROM latest
+        GROUP BY opinion_id
+      ),
+      search AS (
+        SELECT
+          o.id,
+          o.document_id,
+          o.statement,
+          o.generation_details,
+          o.source_type,
+          o.generation_type,
+          o.generation_source,
+          o.is_hidden,
+          o.lifecycle_status,
+          o.created_at,
+          c.id AS category_id,
+          c.name AS category_name,
+          c.color AS category_color,
+          rs.average_rating,
+          COALESCE(rs.rating_count, 0)::int AS rating_count,
+          ${rankSql} AS rank
+        FROM opinions o
+        LEFT JOIN opinions_category_lnk ocl ON ocl.opinion_id = o.id
+        LEFT JOIN categories c ON c.id = ocl.category_id
+        LEFT JOIN rating_stats rs ON rs.opinion_id = o.id
+        WHERE ${matchSql}
+      )
+    `;
+
+    const run = async (sql: string, bindings: any[]) => {
+      const result = await knex.raw(`${searchCte} ${sql}`, [...cteBindings, ...bindings]);
+      // Handle PostgreSQL .rows format
+      return result.rows || result;
+    };
+
+    const where = buildSearchWhere(params);
+
+    const rows = await run(
+      `SELECT * FROM search ${where.sql}
+       ORDER BY rank DESC, created_at DESC, id DESC
+       LIMIT ? OFFSET ?`,
+      [...where.bindings, pageSize, (page - 1) * pageSize]
+    );
+
+    const [{ total }] = await run(`SELECT COUNT(*)::int AS total FROM search ${where.sql}`, where.bindings);
+
+    const facetWhere = (facet: SearchFacet) => buildSearchWhere(params, facet);
+
+    const categoryWhere = facetWhere('category');
+    const categoryFacet = await run(
+      `SELECT category_id, category_name, COUNT(*)::int AS count
+       FROM search ${categoryWhere.sql}
+       GROUP BY category_id, category_name
+       ORDER BY count DESC, category_name ASC`,
+      categoryWhere.bindings
+    );
+
+    const valueFacet = async (facet: SearchFacet, column: string) => {
+      const facetFilter = facetWhere(facet);
+      return run(
+        `SELECT ${column} AS value, COUNT(*)::int AS count
+         FROM search ${facetFilter.sql}
+         GROUP BY ${column}
+         ORDER BY count DESC`,
+        facetFilter.bindings
+      );
+    };
+
+    const sourceTypeFacet = await valueFacet('source_type', 'source_type');
+    const generationTypeFacet = await valueFacet('generation_type', 'generation_type');
+    const hiddenFacet = await valueFacet('isHidden', 'COALESCE(is_hidden, false)');
+
+    const ratingWhere = facetWhere('rating');
+    const bucketSql = RATING_FACET_BUCKETS
+      .map(bucket => `COUNT(*) FILTER (WHERE average_rating >= ${bucket.min} AND average_rating ${bucket.max === 10 ? '<=' : '<'} ${bucket.max})::int AS "${bucket.key}"`)
+      .join(',\n');
+    const [ratingCounts] = await run(
+      `SELECT ${bucketSql},
+         COUNT(*) FILTER (WHERE average_rating IS NULL)::int AS "unrated"
+       FROM search ${ratingWhere.sql}`,
+      ratingWhere.bindings
+    );
+
+    return {
+      results: rows.map((row: any) => ({
+        id: row.id,
+        documentId: row.document_id,
+        statement: row.statement,
+        generation_details: row.generation_details,
+        source_type: row.source_type,
+        generation_type: row.generation_type,
+        generation_source: row.generation_source,
+        isHidden: !!row.is_hidden,
+        lifecycle_status: row.lifecycle_status || 'live',
+        createdAt: row.created_at,
+        category: row.category_id
+          ? { id: row.category_id, name: row.category_name, color: row.category_color }
+          : null,
+        averageRating: row.average_rating === null ? null : Number(Number(row.average_rating).toFixed(1)),
+        ratingCount: row.rating_count,
+        rank: Number(row.rank)
+      })),
+      pagination: {
+        page,
+        pageSize,
+        pageCount: Math.ceil(total / pageSize),
+        total
       },
-      Politician: {
-        News: [
-          "\"Democracy requires constant vigilance from its citizens.\" - Sen. John Mitchell, CNN Interview",
-          "\"Partisan gridlock is destroying our ability to govern.\" - Rep. Sarah Williams, Washington Post",
-          "\"The media has become the fourth branch of government.\" - Gov. Michael Brown, NBC News"
-        ],
-        Research: [
-          "\"Political polarization has reached historic levels in America.\" - Pew Research Center, Annual Report",
-          "\"Social media echo chambers reinforce political biases.\" - MIT Study, Science Journal",
-          "\"Trust in government is at an all-time low of 20%.\" - Gallup Poll, Public Trust Survey"
-        ],
-        Laws: [
-          "\"Campaign finance reform is essential for democracy.\" - Justice Elena Carter, Supreme Court Dissent",
-          "\"Term limits would reduce corruption and increase accountability.\" - Sen. David Lee, Senate Floor Speech",
-          "\"Lobbying disclosure laws have too many loopholes.\" - Ethics Commissioner, Annual Report"
-        ],
-        Advertisements: [
-          "\"Political ads should be held to the same standards as commercial ads.\" - FCC Chairman, Policy Statement",
-          "\"Microtargeting in political advertising threatens privacy.\" - Privacy Advocate, Tech Committee Hearing",
-          "\"Dark money in politics undermines transparency.\" - Campaign Finance Institute, Research Brief"
+      facets: {
+        category: categoryFacet.map((row: any) => ({
+          id: row.category_id,
+          name: row.category_name,
+          count: row.count
+        })),
+        source_type: sourceTypeFacet,
+        generation_type: generationTypeFacet,
+        isHidden: hiddenFacet,
+        rating: [
+          ...RATING_FACET_BUCKETS.map(bucket => ({
+            range: bucket.key,
+            min: bucket.min,
+            max: bucket.max,
+            count: ratingCounts[bucket.key]
+          })),
+          { range: 'unrated', min: null, max: null, count: ratingCounts.unrated }
         ]
+      }
+    };
+  },
+
+  /**
+   * Validate lifecycle fields on create/update and derive the status from publishAt
+   * A future publishAt schedules the opinion; a past one makes a scheduled opinion live.
+   * Throws with a user-facing message when the combination is invalid.
+   */
+  normalizeLifecycle(data: any, existing: any = {}) {
+    const status: LifecycleStatus = data.lifecycle_status ?? existing.lifecycle_status ?? 'live';
+    const publishAt = data.publishAt !== undefined ? data.publishAt : existing.publishAt;
+    const archiveAt = data.archiveAt !== undefined ? data.archiveAt : existing.archiveAt;
+    const now = Date.now();
+
+    if (!LIFECYCLE_STATUSES.includes(status)) {
+      throw new Error(`lifecycle_status must be one of: ${LIFECYCLE_STATUSES.join(', ')}`);
+    }
+
+    const publishTime = publishAt ? new Date(publishAt).getTime() : null;
+    const archiveTime = archiveAt ? new Date(archiveAt).getTime() : null;
+
+    if ((publishAt && isNaN(publishTime)) || (archiveAt && isNaN(archiveTime))) {
+      throw new Error('publishAt and archiveAt must be valid dates');
+    }
+    if (publishTime && archiveTime && archiveTime <= publishTime) {
+      throw new Error('archiveAt must be after publishAt');
+    }
+    if (status === 'scheduled' && !publishTime) {
+      throw new Error('Scheduled opinions require publishAt');
+    }
+
+    let nextStatus = status;
+    if ((status === 'live' || status === 'scheduled') && publishTime) {
+      nextStatus = publishTime > now ? 'scheduled' : 'live';
+    }
+
+    return { ...data, lifecycle_status: nextStatus };
+  },
+
+  /**
+   * Strip lifecycle fields from a payload (non-admins can't schedule or archive)
+   */
+  stripLifecycleFields(data: any) {
+    const stripped = { ...data };
+    LIFECYCLE_FIELDS.forEach(field => delete stripped[field]);
+    return stripped;
+  },
+
+  /**
+   * Move scheduled opinions live and archive expired ones
+   * Called by the opinion lifecycle cron task
+   */
+  async transitionLifecycle(now: Date = new Date()) {
+    const published = await strapi.db.query('api::opinion.opinion').updateMany({
+      where: {
+        lifecycle_status: 'scheduled',
+        publishAt: { $lte: now }
       },
-      "Company Executive": {
-        News: [
-          "\"The average CEO makes 351 times the typical worker's salary.\" - Economic Policy Institute, Annual Report",
-          "\"Diversity in leadership improves company performance by 35%.\" - McKinsey Study, Forbes",
-          "\"Short-term thinking is killing American business.\" - Warren Buffett, Berkshire Hathaway Letter"
-        ],
-        Research: [
-          "\"CEO turnover rates have increased 50% in the last decade.\" - Strategy& Study, Harvard Business Review",
-          "\"Narcissistic CEOs take more risks but deliver volatile returns.\" - Stanford Research, Journal of Finance",
-          "\"Executive overconfidence leads to poor acquisition decisions.\" - Wharton Study, Management Science"
-        ],
-        Laws: [
-          "\"Say-on-pay votes should be binding, not advisory.\" - SEC Commissioner, Regulatory Proposal",
-          "\"Clawback provisions for executive compensation need teeth.\" - Sen. Elizabeth Warren, Banking Committee",
-          "\"Stock buybacks should be more heavily regulated.\" - Prof. William Lazonick, Harvard Law Review"
-        ],
-        Advertisements: [
-          "\"CEO personal brands can impact stock prices by up to 10%.\" - Weber Shandwick Study, PR Week",
-          "\"Authentic leadership communication drives employee engagement.\" - Gallup Research, Workplace Report",
-          "\"Executive thought leadership influences B2B purchasing decisions.\" - LinkedIn Study, Marketing Insights"
-        ]
+      data: { lifecycle_status: 'live' }
+    });
+
+    const archived = await strapi.db.query('api::opinion.opinion').updateMany({
+      where: {
+        lifecycle_status: { $in: ['scheduled', 'live'] },
+        archiveAt: { $lte: now }
+      },
+      data: { lifecycle_status: 'archived' }
+    });
+
+    return { published: published.count, archived: archived.count };
+  },
+
+  /**
+   * Mark opinions created before the lifecycle existed as live
+   */
+  async backfillLifecycleStatus() {
+    const result = await strapi.db.query('api::opinion.opinion').updateMany({
+      where: { lifecycle_status: { $null: true } },
+      data: { lifecycle_status: 'live' }
+    });
+
+    return result.count;
+  },
+
+  /**
+   * Duplicate detection job: compare every statement and record new near-duplicate pairs
+   * Pairs already recorded (pending, merged or dismissed) are left untouched
+   */
+  async scanDuplicates({ threshold = DEFAULT_SIMILARITY_THRESHOLD }: { threshold?: number } = {}) {
+    const opinions = await strapi.db.query('api::opinion.opinion').findMany({
+      select: ['id', 'statement']
+    });
+
+    const pairs = findSimilarPairs(opinions, threshold);
+    let created = 0;
+
+    for (const pair of pairs) {
+      const pairKey = `${pair.duplicateOfId}:${pair.opinionId}`;
+      const existing = await strapi.db.query('api::opinion-duplicate.opinion-duplicate').findOne({
+        where: { pair_key: pairKey },
+        select: ['id']
+      });
+
+      if (existing) {
+        continue;
+      }
+
+      await strapi.entityService.create('api::opinion-duplicate.opinion-duplicate', {
+        data: {
+          pair_key: pairKey,
+          similarity: pair.similarity,
+          status: 'pending',
+          opinion: pair.opinionId,
+          duplicate_of: pair.duplicateOfId
+        }
+      });
+      created++;
+    }
+
+    return { scanned: opinions.length, found: pairs.length, created, threshold };
+  },
+
+  /**
+   * Recorded duplicate pairs (most similar first)
+   */
+  async listDuplicates({ status = 'pending' }: { status?: string } = {}) {
+    const duplicates = await strapi.entityService.findMany('api::opinion-duplicate.opinion-duplicate', {
+      filters: { status: status as any },
+      populate: {
+        opinion: { fields: ['statement', 'source_type', 'createdAt'] },
+        duplicate_of: { fields: ['statement', 'source_type', 'createdAt'] }
+      },
+      sort: { similarity: 'desc' }
+    });
+
+    return duplicates;
+  },
+
+  /**
+   * Mark a duplicate pair as not a duplicate
+   */
+  async dismissDuplicate(duplicateId: number, userId: number) {
+    return strapi.entityService.update('api::opinion-duplicate.opinion-duplicate', duplicateId, {
+      data: {
+        status: 'dismissed',
+        resolved_by: userId,
+        resolved_at: new Date()
+      }
+    });
+  },
+
+  /**
+   * Merge a duplicate opinion into the surviving opinion
+   * Ratings move to the survivor keeping only each user's latest rating across both,
+   * rating history and quote drafts are repointed, then the duplicate is deleted.
+   */
+  async mergeOpinions(survivorId: number, duplicateId: number, userId: number) {
+    if (survivorId === duplicateId) {
+      throw new Error('An opinion cannot be merged into itself');
+    }
+
+    const found = await strapi.db.query('api::opinion.opinion').findMany({
+      where: { id: { $in: [survivorId, duplicateId] } },
+      select: ['id']
+    });
+
+    if (found.length !== 2) {
+      throw new Error('Both opinions must exist');
+    }
+
+    const summary = await strapi.db.connection.transaction(async (trx) => {
+      // Older ratings from users who rated both opinions (draft rows carry the data)
+      const losersResult = await trx.raw(
+        `SELECT DISTINCT ranked.document_id
+        FROM (
+          SELECT
+            ur.document_id,
+            ROW_NUMBER() OVER (
+              PARTITION BY ul.user_id
+              ORDER BY ur.updated_at DESC, ur.id DESC
+            ) AS rn
+          FROM user_ratings ur
+          INNER JOIN user_ratings_opinion_lnk ol ON ol.user_rating_id = ur.id
+          INNER JOIN user_ratings_users_permissions_user_lnk ul ON ul.user_rating_id = ur.id
+          WHERE ol.opinion_id IN (?, ?)
+            AND ur.published_at IS NULL
+        ) ranked
+        WHERE ranked.rn > 1`,
+        [survivorId, duplicateId]
+      );
+
+      // Handle PostgreSQL .rows format
+      const loserDocumentIds = (losersResult.rows || losersResult).map((row: any) => row.document_id);
+
+      if (loserDocumentIds.length > 0) {
+        const loserIds = trx('user_ratings').select('id').whereIn('document_id', loserDocumentIds);
+        await trx('user_ratings_opinion_lnk').whereIn('user_rating_id', loserIds).del();
+        await trx('user_ratings_users_permissions_user_lnk').whereIn('user_rating_id', loserIds).del();
+        await trx('user_ratings').whereIn('document_id', loserDocumentIds).del();
+      }
+
+      const movedRatings = await trx('user_ratings_opinion_lnk')
+        .where('opinion_id', duplicateId)
+        .update({ opinion_id: survivorId });
+
+      // Rating keys encode the opinion, so refresh them for the moved ratings
+      await trx.raw(
+        `UPDATE user_ratings ur
+        SET rating_key = ul.user_id || ':' || ol.opinion_id
+        FROM user_ratings_opinion_lnk ol, user_ratings_users_permissions_user_lnk ul
+        WHERE ol.user_rating_id = ur.id
+          AND ul.user_rating_id = ur.id
+          AND ol.opinion_id = ?`,
+        [survivorId]
+      );
+
+      await trx('user_rating_revisions_opinion_lnk')
+        .where('opinion_id', duplicateId)
+        .update({ opinion_id: survivorId });
+
+      const repointedDrafts = await trx('quote_drafts_opinion_lnk')
+        .where('opinion_id', duplicateId)
+        .update({ opinion_id: survivorId });
+
+      await trx('opinions').where('id', duplicateId).del();
+
+      return {
+        movedRatings,
+        removedRatings: loserDocumentIds.length,
+        repointedDrafts
+      };
+    });
+
+    // Close out the detected pair; other pairs involving the removed opinion no longer apply
+    const pairKey = `${Math.min(survivorId, duplicateId)}:${Math.max(survivorId, duplicateId)}`;
+    const pair = await strapi.db.query('api::opinion-duplicate.opinion-duplicate').findOne({
+      where: { pair_key: pairKey },
+      select: ['id']
+    });
+    if (pair) {
+      await strapi.entityService.update('api::opinion-duplicate.opinion-duplicate', pair.id, {
+        data: { status: 'merged', resolved_by: userId, resolved_at: new Date() }
+      });
+    }
+    await strapi.db.query('api::opinion-duplicate.opinion-duplicate').deleteMany({
+      where: {
+        status: 'pending',
+        $or: [{ opinion: { id: { $null: true } } }, { duplicate_of: { id: { $null: true } } }]
+      }
+    });
+
+    await this.recomputeScores(survivorId);
+
+    strapi.log.info(
+      `Merged opinion ${duplicateId} into ${survivorId} by user ${userId}: ${summary.movedRatings} ratings moved, ${summary.removedRatings} superseded, ${summary.repointedDrafts} drafts repointed`
+    );
+
+    return { survivorId, removedOpinionId: duplicateId, ...summary };
+  },
+
+  /**
+   * Recompute controversy and consensus scores from the latest rating per user
+   * Both scores are 0-1: controversy grows with the rating spread, consensus with tight agreement.
+   * Each is damped by n / (n + 3) so a couple of ratings can't max them out; under 2 ratings both are 0.
+   * Pass an opinion id to refresh one opinion, or nothing to refresh all of them.
+   */
+  async recomputeScores(opinionId?: number) {
+    const opinionFilter = opinionId ? 'AND o.id = ?' : '';
+
+    await strapi.db.connection.raw(
+      `WITH latest AS (${LATEST_RATINGS_SQL}),
+      rating_stats AS (
+        SELECT opinion_id, COUNT(*) AS n, STDDEV_POP(rating) AS std_dev
+        FROM latest
+        GROUP BY opinion_id
+      ),
+      scores AS (
+        SELECT
+          o.id,
+          CASE WHEN COALESCE(rs.n, 0) < 2 THEN 0
+            ELSE ROUND((LEAST(1, rs.std_dev / ?) * rs.n / (rs.n + ?))::numeric, 4) END AS controversy,
+          CASE WHEN COALESCE(rs.n, 0) < 2 THEN 0
+            ELSE ROUND((GREATEST(0, 1 - rs.std_dev / ?) * rs.n / (rs.n + ?))::numeric, 4) END AS consensus
+        FROM opinions o
+        LEFT JOIN rating_stats rs ON rs.opinion_id = o.id
+        WHERE TRUE ${opinionFilter}
+      )
+      UPDATE opinions o
+      SET controversy_score = scores.controversy,
+          consensus_score = scores.consensus
+      FROM scores
+      WHERE scores.id = o.id`,
+      [
+        MAX_RATING_STD_DEV, SCORE_CONFIDENCE_RATINGS,
+        MAX_RATING_STD_DEV, SCORE_CONFIDENCE_RATINGS,
+        ...(opinionId ? [opinionId] : [])
+      ]
+    );
+  },
+
+  /**
+   * Ranked feed of opinions the user has not rated yet
+   * Score = weighted category affinity (share of the user's ratings in the category),
+   * closeness of the rating spread to the controversy threshold, and freshness (half-life decay)
+   * Returns null when the cursor is invalid
+   */
+  async getFeed(userId: number, { cursor, limit }: { cursor?: string; limit?: number } = {}) {
+    const pageLimit = Math.min(FEED_MAX_LIMIT, Math.max(1, limit || FEED_DEFAULT_LIMIT));
+
+    const after = cursor ? decodeFeedCursor(cursor) : null;
+    if (cursor && !after) {
+      return null;
+    }
+
+    const asOf = after?.asOf || new Date().toISOString();
+    const cursorSql = after ? 'WHERE score < ?::numeric OR (score = ?::numeric AND id < ?)' : '';
+    const cursorBindings = after ? [after.score, after.score, after.id] : [];
+
+    const result = await strapi.db.connection.raw(
+      `WITH latest AS (${LATEST_RATINGS_SQL}),
+      opinion_stats AS (
+        SELECT opinion_id, COUNT(*) AS rating_count, STDDEV_POP(rating) AS std_dev
+        FROM latest
+        GROUP BY opinion_id
+      ),
+      user_categories AS (
+        SELECT ocl.category_id, COUNT(*) AS rating_count
+        FROM latest l
+        INNER JOIN opinions_category_lnk ocl ON ocl.opinion_id = l.opinion_id
+        WHERE l.user_id = ?
+        GROUP BY ocl.category_id
+      ),
+      user_total AS (
+        SELECT COALESCE(SUM(rating_count), 0) AS rating_count FROM user_categories
+      ),
+      scored AS (
+        SELECT
+          o.id,
+          o.document_id,
+          o.statement,
+          o.source_type,
+          o.generation_type,
+          o.generation_source,
+          o.created_at,
+          c.id AS category_id,
+          c.name AS category_name,
+          c.color AS category_color,
+          COALESCE(os.rating_count, 0)::int AS rating_count,
+          CASE WHEN ut.rating_count > 0
+            THEN COALESCE(uc.rating_count, 0)::float / ut.rating_count
+            ELSE 0 END AS affinity,
+          CASE WHEN COALESCE(os.rating_count, 0) < 2
+            THEN 0
+            ELSE GREATEST(0, 1 - ABS(os.std_dev - ?) / ?) END AS controversy,
+          POWER(0.5, GREATEST(0, EXTRACT(EPOCH FROM (?::timestamptz - o.created_at)) / 86400.0) / ?) AS freshness
+        FROM opinions o
+        CROSS JOIN user_total ut
+        LEFT JOIN opinions_category_lnk ocl ON ocl.opinion_id = o.id
+        LEFT JOIN categories c ON c.id = ocl.category_id
+        LEFT JOIN opinion_stats os ON os.opinion_id = o.id
+        LEFT JOIN user_categories uc ON uc.category_id = c.id
+        WHERE COALESCE(o.is_hidden, false) = false
+          AND COALESCE(o.lifecycle_status, 'live') = 'live'
+          AND o.created_at <= ?::timestamptz
+          AND NOT EXISTS (SELECT 1 FROM latest l WHERE l.opinion_id = o.id AND l.user_id = ?)
+      ),
+      ranked AS (
+        SELECT *, ROUND((affinity * ? + controversy * ? + freshness * ?)::numeric, 6) AS score
+        FROM scored
+      )
+      SELECT * FROM ranked
+      ${cursorSql}
+      ORDER BY score DESC, id DESC
+      LIMIT ?`,
+      [
+        userId,
+        FEED_CONTROVERSY_THRESHOLD, FEED_CONTROVERSY_THRESHOLD,
+        asOf, FEED_FRESHNESS_HALF_LIFE_DAYS,
+        asOf, userId,
+        FEED_WEIGHTS.affinity, FEED_WEIGHTS.controversy, FEED_WEIGHTS.freshness,
+        ...cursorBindings,
+        pageLimit + 1
+      ]
+    );
+
+    // Handle PostgreSQL .rows format
+    const rows = result.rows || result;
+    const hasMore = rows.length > pageLimit;
+    const pageRows = rows.slice(0, pageLimit);
+    const last = pageRows[pageRows.length - 1];
+
+    return {
+      results: pageRows.map((row: any) => ({
+        id: row.id,
+        documentId: row.document_id,
+        statement: row.statement,
+        source_type: row.source_type,
+        generation_type: row.generation_type,
+        generation_source: row.generation_source,
+        createdAt: row.created_at,
+        category: row.category_id
+          ? { id: row.category_id, name: row.category_name, color: row.category_color }
+          : null,
+        ratingCount: row.rating_count,
+        score: Number(row.score),
+        scoreBreakdown: {
+          affinity: Number(Number(row.affinity).toFixed(3)),
+          controversy: Number(Number(row.controversy).toFixed(3)),
+          freshness: Number(Number(row.freshness).toFixed(3))
+        }
+      })),
+      pagination: {
+        limit: pageLimit,
+        hasMore,
+        nextCursor: hasMore && last
+          ? encodeFeedCursor({ asOf, score: String(last.score), id: last.id })
+          : null
+      }
+    };
+  },
+
+  /**
+   * Parse an import payload (CSV text or JSON array) into rows
+   * CSV requires a header row with statement, category and (optionally) isHidden columns
+   */
+  parseImportRows(format: ImportFormat, content: any): ImportRow[] {
+    if (format === 'json') {
+      const parsed = typeof content === 'string' ? JSON.parse(content) : content;
+      const rows = Array.isArray(parsed) ? parsed : parsed?.opinions;
+
+      if (!Array.isArray(rows)) {
+        throw new Error('JSON import must be an array of opinions or { "opinions": [...] }');
+      }
+      return rows.map(row => ({
+        statement: row?.statement,
+        category: row?.category?.name ?? row?.category ?? row?.categoryName,
+        isHidden: row?.isHidden
+      }));
+    }
+
+    if (typeof content !== 'string') {
+      throw new Error('CSV import content must be a string');
+    }
+
+    const [header, ...dataRows] = parseCsv(content);
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.map(name => name.trim().toLowerCase().replace(/[\s_]/g, ''));
+    const statementIndex = columns.indexOf('statement');
+    const categoryIndex = columns.findIndex(name => name === 'category' || name === 'categoryname');
+    const hiddenIndex = columns.indexOf('ishidden');
+
+    if (statementIndex === -1 || categoryIndex === -1) {
+      throw new Error('CSV header must include "statement" and "category" columns');
+    }
+
+    return dataRows.map(cells => ({
+      statement: cells[statementIndex],
+      category: cells[categoryIndex],
+      isHidden: hiddenIndex === -1 ? undefined : cells[hiddenIndex]
+    }));
+  },
+
+  /**
+   * Validate and import opinions
+   * In dry-run mode nothing is written; the report shows what would happen
+   */
+  async importOpinions(rows: ImportRow[], { dryRun = false }: { dryRun?: boolean } = {}) {
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new Error(`Import is limited to ${MAX_IMPORT_ROWS} rows (received ${rows.length})`);
+    }
+
+    const quoteDraftService = strapi.service('api::quote-draft.quote-draft');
+    const knownCategories = new Map<string, any>();
+    const seenStatements = new Set<string>();
+    const report: ImportRowReport[] = [];
+
+    for (let index = 0; index < rows.length; index++) {
+      const raw = rows[index];
+      const statement = typeof raw.statement === 'string' ? raw.statement.trim() : '';
+      const categoryName = raw.category === undefined || raw.category === null ? '' : String(raw.category).trim();
+      const isHidden = parseBoolean(raw.isHidden);
+
+      const entry: ImportRowReport = {
+        row: index + 1,
+        status: 'valid',
+        statement,
+        category: categoryName,
+        isHidden: isHidden ?? false,
+        categoryCreated: false,
+        errors: []
+      };
+
+      if (!statement) {
+        entry.errors.push('Statement is required');
+      } else if (statement.length > MAX_STATEMENT_LENGTH) {
+        entry.errors.push(`Statement must be ${MAX_STATEMENT_LENGTH} characters or fewer`);
+      }
+
+      if (!categoryName) {
+        entry.errors.push('Category is required');
+      } else if (categoryName.split('/').some(segment => segment.trim().length > MAX_CATEGORY_NAME_LENGTH)) {
+        entry.errors.push(`Category name must be ${MAX_CATEGORY_NAME_LENGTH} characters or fewer`);
+      }
+
+      if (isHidden === null) {
+        entry.errors.push('isHidden must be true/false, yes/no or 1/0');
+      }
+
+      if (entry.errors.length > 0) {
+        entry.status = 'error';
+        report.push(entry);
+        continue;
+      }
+
+      // Skip statements repeated in the file or already stored
+      const statementKey = statement.toLowerCase();
+      if (seenStatements.has(statementKey)) {
+        entry.status = 'skipped';
+        entry.errors.push('Duplicate statement in import file');
+        report.push(entry);
+        continue;
+      }
+      seenStatements.add(statementKey);
+
+      const existingCount = await strapi.db.query('api::opinion.opinion').count({
+        where: { statement }
+      });
+      if (existingCount > 0) {
+        entry.status = 'skipped';
+        entry.errors.push('An opinion with this statement already exists');
+        report.push(entry);
+        continue;
       }
+
+      try {
+        let category = knownCategories.get(categoryName);
+
+        if (!category) {
+          // Paths such as "Politics/Elections" resolve to the nested category
+          category = await strapi.service('api::category.category').resolvePath(categoryName);
+          entry.categoryCreated = !category;
+
+          if (!category && !dryRun) {
+            category = await quoteDraftService.findOrCreateCategory(categoryName);
+          }
+          if (category) {
+            knownCategories.set(categoryName, category);
+          }
+        }
+
+        if (!dryRun) {
+          const opinion = await strapi.entityService.create('api::opinion.opinion', {
+            data: {
+              statement,
+              category: category.id,
+              isHidden: entry.isHidden,
+              source_type: 'Human'
+            }
+          });
+          entry.opinionId = Number(opinion.id);
+          entry.status = 'created';
+        }
+      } catch (error) {
+        strapi.log.error(`Opinion import: row ${entry.row} failed:`, error);
+        entry.status = 'error';
+        entry.errors.push(error.message || 'Failed to import row');
+      }
+
+      report.push(entry);
+    }
+
+    const count = (status: ImportRowReport['status']) => report.filter(entry => entry.status === status).length;
+
+    return {
+      dryRun,
+      summary: {
+        total: report.length,
+        valid: dryRun ? count('valid') : count('created'),
+        created: count('created'),
+        skipped: count('skipped'),
+        errors: count('error'),
+        categoriesCreated: [...new Set(report.filter(entry => entry.categoryCreated).map(entry => entry.category))]
+      },
+      rows: report
     };
+  },
+
+  /**
+   * Export opinions as CSV text or a JSON array
+   * CSV columns start with the import columns so exports can be re-imported
+   */
+  async exportOpinions({ format, categoryName, includeHidden = true }: {
+    format: ImportFormat;
+    categoryName?: string;
+    includeHidden?: boolean;
+  }) {
+    const where: any = {};
+    if (categoryName) {
+      where.category = { name: categoryName };
+    }
+    if (!includeHidden) {
+      where.isHidden = { $ne: true };
+    }
+
+    const opinions: any[] = [];
+    for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+      const batch = await strapi.db.query('api::opinion.opinion').findMany({
+        where,
+        populate: ['category'],
+        orderBy: { id: 'asc' },
+        offset,
+        limit: EXPORT_BATCH_SIZE
+      });
+      opinions.push(...batch);
+      if (batch.length < EXPORT_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    const records = opinions.map(opinion => ({
+      id: opinion.id,
+      documentId: opinion.documentId,
+      statement: opinion.statement,
+      category: opinion.category?.name || '',
+      isHidden: !!opinion.isHidden,
+      source_type: opinion.source_type,
+      generation_type: opinion.generation_type,
+      generation_source: opinion.generation_source,
+      generation_details: opinion.generation_details,
+      createdAt: opinion.createdAt
+    }));
 
-    // Get random template based on type and source
-    const typeTemplates = templates[generationType];
-    if (!typeTemplates) {
+    if (format === 'json') {
+      return { count: records.length, content: records };
+    }
+
+    const lines = [
+      EXPORT_COLUMNS.join(','),
+      ...records.map(record => EXPORT_COLUMNS.map(column => escapeCsvValue(record[column])).join(','))
+    ];
+
+    return { count: records.length, content: lines.join('\r\n') };
+  },
+
+  /**
+   * Generate an opinion statement through the provider chain (AI, web, static fallback)
+   * and pick the best matching category
+   */
+  async generateOpinion({ generationType, generationSource, details, provider, userId }: {
+    generationType: string;
+    generationSource: string;
+    details?: string;
+    provider?: string;
+    userId?: number | null;
+  }) {
+    if (!GENERATION_TYPES.includes(generationType)) {
       throw new Error(`Invalid generation type: ${generationType}`);
     }
 
-    const sourceTemplates = typeTemplates[generationSource];
-    if (!sourceTemplates) {
+    if (!GENERATION_SOURCES.includes(generationSource)) {
       throw new Error(`Invalid generation source: ${generationSource}`);
     }
 
-    // Select random opinion from templates
-    const randomIndex = Math.floor(Math.random() * sourceTemplates.length);
-    const opinionText = sourceTemplates[randomIndex];
-
     // Get all categories to select a relevant one
     const categories = await strapi.entityService.findMany('api::category.category', {
       fields: ['id', 'name']
@@ -118,9 +1114,19 @@ export default factories.createCoreService('api::opinion.opinion', ({ strapi })
       }
     }
 
+    const generated = await generateStatement({
+      generationType,
+      generationSource,
+      categoryName: selectedCategory?.name,
+      details,
+      userId
+    }, provider);
+
     return {
-      statement: opinionText,
-      category: selectedCategory?.id || categories[0]?.id
+      statement: generated.statement,
+      category: selectedCategory?.id || categories[0]?.id,
+      generation_details: generated.details.slice(0, 256),
+      provider: generated.provider
     };
   }
 }));
\ No newline at end of file
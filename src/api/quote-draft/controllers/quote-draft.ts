@@ -5,6 +5,26 @@
 import { factories } from '@strapi/strapi';
 import { Readable } from 'stream';
 
+// Review and verification fields only change through the review actions
+const REVIEW_FIELDS = [
+  'review_status',
+  'reviewed_by',
+  'reviewed_at',
+  'is_published',
+  'verification_status',
+  'verification_score',
+  'verification_snippet',
+  'speaker_verified',
+  'verified_at',
+  'content_updated_at'
+];
+
+const stripReviewFields = (data: any = {}) => {
+  const stripped = { ...data };
+  REVIEW_FIELDS.forEach(field => delete stripped[field]);
+  return stripped;
+};
+
 export default factories.createCoreController('api::quote-draft.quote-draft', ({ strapi }) => ({
   /**
    * Generate quote with streaming progress updates
@@ -77,6 +97,65 @@ export default factories.createCoreController('api::quote-draft.quote-draft', ({
     }
   },
 
+  /**
+   * Queue a batch of quote generations
+   * POST /api/quote-drafts/batch
+   * Body: { criteria: [{ category, generationType, generationSource, generationDetails? }] }
+   *   or { categories: [], generationTypes: [], generationSources: [], generationDetails? } (every combination)
+   */
+  async batchGenerate(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in to generate quotes');
+    }
+
+    const quoteDraftService = strapi.service('api::quote-draft.quote-draft');
+
+    let criteria;
+    try {
+      criteria = quoteDraftService.expandBatchCriteria(ctx.request.body);
+    } catch (error) {
+      return ctx.badRequest(error.message);
+    }
+
+    try {
+      const batch = await quoteDraftService.enqueueBatch(user.id, criteria);
+      ctx.status = 202;
+      ctx.body = {
+        data: batch,
+        message: 'Batch queued. Poll the batch status endpoint for per-job progress.'
+      };
+    } catch (error) {
+      strapi.log.error('Quote batch enqueue error:', error);
+      return ctx.internalServerError('Failed to queue quote generation batch');
+    }
+  },
+
+  /**
+   * Per-job progress of a batch
+   * GET /api/quote-drafts/batch/:batchId
+   */
+  async batchStatus(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in to view quote batches');
+    }
+
+    const batch = await strapi.service('api::quote-draft.quote-draft').getBatchProgress(ctx.params.batchId);
+
+    if (!batch) {
+      return ctx.notFound('Batch not found');
+    }
+
+    if (batch.userId !== user.id && user.userRole !== 'sysadmin' && !user.isSuperAdmin) {
+      return ctx.forbidden('You can only view your own quote batches');
+    }
+
+    return { data: batch };
+  },
+
   /**
    * Delete all quote drafts for current user
    * DELETE /api/quote-drafts/delete-all
@@ -171,11 +250,13 @@ export default factories.createCoreController('api::quote-draft.quote-draft', ({
       return ctx.unauthorized('You must be logged in to create quote drafts');
     }
 
-    // Add user to the request body
+    // Add user to the request body (new drafts always start pending review)
     ctx.request.body = {
       ...ctx.request.body,
       data: {
-        ...ctx.request.body.data,
+        ...stripReviewFields(ctx.request.body.data),
+        review_status: 'pending',
+        content_updated_at: new Date(),
         user: user.id
       }
     };
@@ -185,6 +266,171 @@ export default factories.createCoreController('api::quote-draft.quote-draft', ({
     return response;
   },
 
+  // Override update so review state can't be set directly and content edits need a new review
+  async update(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in to edit quote drafts');
+    }
+
+    const quoteDraftService = strapi.service('api::quote-draft.quote-draft');
+    const draft = await quoteDraftService.findDraft(ctx.params.id);
+
+    if (!draft) {
+      return ctx.notFound('Quote draft not found');
+    }
+
+    if (!quoteDraftService.canReview(draft, user)) {
+      return ctx.forbidden('You can only edit your own quote drafts');
+    }
+
+    if (draft.is_published || draft.review_status === 'published') {
+      return ctx.badRequest('Published drafts cannot be changed');
+    }
+
+    if (ctx.request.body?.data) {
+      try {
+        ctx.request.body.data = quoteDraftService.prepareUpdate(draft, stripReviewFields(ctx.request.body.data));
+      } catch (error) {
+        return ctx.badRequest(error.message);
+      }
+    }
+
+    return super.update(ctx);
+  },
+
+  /**
+   * Swap in a different stored candidate
+   * POST /api/quote-drafts/:id/select-candidate
+   * Body: { index: number }
+   */
+  async selectCandidate(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in to review quote drafts');
+    }
+
+    const { index } = ctx.request.body || {};
+
+    if (!Number.isInteger(index) || index < 0) {
+      return ctx.badRequest('index must be a non-negative integer');
+    }
+
+    const quoteDraftService = strapi.service('api::quote-draft.quote-draft');
+    const draft = await quoteDraftService.findDraft(ctx.params.id);
+
+    if (!draft) {
+      return ctx.notFound('Quote draft not found');
+    }
+
+    if (!quoteDraftService.canReview(draft, user)) {
+      return ctx.forbidden('You can only review your own quote drafts');
+    }
+
+    try {
+      const updated = await quoteDraftService.selectCandidate(draft, index);
+      return { data: updated };
+    } catch (error) {
+      return ctx.badRequest(error.message);
+    }
+  },
+
+  /**
+   * Edit the quote's attribution
+   * PUT /api/quote-drafts/:id/attribution
+   * Body: { speaker_name?, publication_source?, source_url? }
+   */
+  async updateAttribution(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in to review quote drafts');
+    }
+
+    const quoteDraftService = strapi.service('api::quote-draft.quote-draft');
+    const draft = await quoteDraftService.findDraft(ctx.params.id);
+
+    if (!draft) {
+      return ctx.notFound('Quote draft not found');
+    }
+
+    if (!quoteDraftService.canReview(draft, user)) {
+      return ctx.forbidden('You can only review your own quote drafts');
+    }
+
+    const { speaker_name, publication_source, source_url } = ctx.request.body || {};
+
+    try {
+      const updated = await quoteDraftService.updateAttribution(draft, { speaker_name, publication_source, source_url });
+      return { data: updated };
+    } catch (error) {
+      return ctx.badRequest(error.message);
+    }
+  },
+
+  /**
+   * Approve a pending draft for publishing
+   * POST /api/quote-drafts/:id/approve
+   */
+  async approve(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in to review quote drafts');
+    }
+
+    const quoteDraftService = strapi.service('api::quote-draft.quote-draft');
+    const draft = await quoteDraftService.findDraft(ctx.params.id);
+
+    if (!draft) {
+      return ctx.notFound('Quote draft not found');
+    }
+
+    if (!quoteDraftService.canReview(draft, user)) {
+      return ctx.forbidden('You can only review your own quote drafts');
+    }
+
+    try {
+      const updated = await quoteDraftService.approveDraft(draft, user.id);
+      return { data: updated };
+    } catch (error) {
+      return ctx.badRequest(error.message);
+    }
+  },
+
+  /**
+   * Check the quote and speaker against the source page
+   * POST /api/quote-drafts/:id/verify
+   */
+  async verify(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in to review quote drafts');
+    }
+
+    const quoteDraftService = strapi.service('api::quote-draft.quote-draft');
+    const draft = await quoteDraftService.findDraft(ctx.params.id);
+
+    if (!draft) {
+      return ctx.notFound('Quote draft not found');
+    }
+
+    if (!quoteDraftService.canReview(draft, user)) {
+      return ctx.forbidden('You can only review your own quote drafts');
+    }
+
+    try {
+      const updated = await quoteDraftService.verifyDraft(draft);
+      return { data: updated };
+    } catch (error) {
+      strapi.log.error('[Quote Draft Controller] Verify error:', error);
+      return ctx.internalServerError(`Failed to verify quote draft: ${error.message}`);
+    }
+  },
+
   /**
    * Publish quote draft as an opinion
    * POST /api/quote-drafts/:id/publish
@@ -216,22 +462,36 @@ export default factories.createCoreController('api::quote-draft.quote-draft', ({
       // Get the quote draft
       const quoteDraft: any = drafts[0];
 
-      // Verify ownership
-      if (quoteDraft.user.id !== user.id) {
+      // Verify ownership (sysadmins can publish any draft)
+      if (!strapi.service('api::quote-draft.quote-draft').canReview(quoteDraft, user)) {
         return ctx.forbidden('You can only publish your own quote drafts');
       }
 
       // Check if already published
-      if (quoteDraft.is_published) {
+      if (quoteDraft.is_published || quoteDraft.review_status === 'published') {
         return ctx.badRequest('This quote draft has already been published');
       }
 
+      // Drafts must be approved before they become opinions
+      if (quoteDraft.review_status !== 'approved') {
+        return ctx.badRequest('Quote draft must be approved before it can be published');
+      }
+
       // Validate category exists
       if (!quoteDraft.category || !quoteDraft.category.id) {
         strapi.log.error(`[Quote Draft Controller] Draft ${quoteDraft.id} has no category`);
         return ctx.badRequest('Quote draft must have a category to be published');
       }
 
+      // A verification from before the last change to the quote or its attribution no longer applies
+      let verificationStatus = quoteDraft.verification_status;
+      const verifiedAt = quoteDraft.verified_at ? new Date(quoteDraft.verified_at) : null;
+      const contentUpdatedAt = quoteDraft.content_updated_at ? new Date(quoteDraft.content_updated_at) : null;
+      if (verificationStatus !== 'unverified' && contentUpdatedAt && (!verifiedAt || verifiedAt < contentUpdatedAt)) {
+        const reverified = await strapi.service('api::quote-draft.quote-draft').verifyDraft(quoteDraft);
+        verificationStatus = reverified.verification_status;
+      }
+
       // Format the opinion statement: "quote" - Speaker, Source
       const statement = `"${quoteDraft.quote_text}" - ${quoteDraft.speaker_name}, ${quoteDraft.publication_source}`;
 
@@ -244,7 +504,8 @@ export default factories.createCoreController('api::quote-draft.quote-draft', ({
           source_type: 'AI',
           generation_type: quoteDraft.generation_type,
           generation_source: quoteDraft.generation_source,
-          generation_details: quoteDraft.generation_details || `Published from quote draft`
+          generation_details: quoteDraft.generation_details || `Published from quote draft`,
+          is_verified: verificationStatus === 'verified'
         },
         populate: ['category']
       });
@@ -259,6 +520,7 @@ export default factories.createCoreController('api::quote-draft.quote-draft', ({
       const updatedDraft = await strapi.entityService.update('api::quote-draft.quote-draft', quoteDraft.id, {
         data: {
           is_published: true,
+          review_status: 'published',
           opinion: opinion.id
         },
         populate: ['category', 'user', 'opinion']
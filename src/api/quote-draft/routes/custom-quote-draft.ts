@@ -13,6 +13,24 @@ export default {
         middlewares: []
       }
     },
+    {
+      method: 'POST',
+      path: '/quote-drafts/batch',
+      handler: 'quote-draft.batchGenerate',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    },
+    {
+      method: 'GET',
+      path: '/quote-drafts/batch/:batchId',
+      handler: 'quote-draft.batchStatus',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    },
     {
       method: 'DELETE',
       path: '/quote-drafts/delete-all',
@@ -22,6 +40,42 @@ export default {
         middlewares: []
       }
     },
+    {
+      method: 'POST',
+      path: '/quote-drafts/:id/select-candidate',
+      handler: 'quote-draft.selectCandidate',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    },
+    {
+      method: 'PUT',
+      path: '/quote-drafts/:id/attribution',
+      handler: 'quote-draft.updateAttribution',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    },
+    {
+      method: 'POST',
+      path: '/quote-drafts/:id/approve',
+      handler: 'quote-draft.approve',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    },
+    {
+      method: 'POST',
+      path: '/quote-drafts/:id/verify',
+      handler: 'quote-draft.verify',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    },
     {
       method: 'POST',
       path: '/quote-drafts/:id/publish',
@@ -3,8 +3,50 @@
  */
 
 import { factories } from '@strapi/strapi';
+import { v4 as uuidv4 } from 'uuid';
 import googleSearchService from '../../../services/google-search-service';
 import aiService from '../../../services/ai-service';
+import quoteVerificationService, { isHttpUrl } from '../../../services/quote-verification-service';
+
+// Fields copied from a stored candidate onto the draft
+const CANDIDATE_FIELDS = ['quote_text', 'speaker_name', 'publication_source', 'source_url', 'confidence_score'];
+
+// Attribution fields reviewers may edit, with their schema length limits
+const ATTRIBUTION_LIMITS = {
+  speaker_name: 100,
+  publication_source: 200,
+  source_url: 500
+};
+
+// Fields whose change invalidates a review and verification
+const CONTENT_FIELDS = ['quote_text', 'speaker_name', 'publication_source', 'source_url'];
+
+// Changing the quote or its attribution invalidates an earlier verification
+const RESET_VERIFICATION = {
+  verification_status: 'unverified',
+  verification_score: null,
+  verification_snippet: null,
+  speaker_verified: false,
+  verified_at: null
+};
+
+// Batch generation queue configuration
+const GENERATION_TYPES = ['Celebrity', 'Politician', 'Company Executive'];
+const GENERATION_SOURCES = ['News', 'Research', 'Laws', 'Advertisements'];
+const BATCH_MAX_JOBS = 50;
+const JOB_MAX_ATTEMPTS = 3;
+const JOB_RETRY_BASE_SECONDS = 30;
+// Running jobs that have not reported progress for this long are assumed lost (e.g. a restart)
+const JOB_STALE_MINUTES = 10;
+const QUEUE_LOCK_KEY = 'quote_generation_queue';
+
+// Jobs running in this process; the DB running count caps all instances together
+let activeJobs = 0;
+
+const queueConcurrency = () => {
+  const configured = parseInt(process.env.QUOTE_BATCH_CONCURRENCY || '', 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : 2;
+};
 
 interface GenerateQuoteParams {
   category: string;
@@ -12,6 +54,15 @@ interface GenerateQuoteParams {
   generationSource: string;
   generationDetails?: string;
   userId: number;
+  onProgress?: (stage: string, percentage: number) => Promise<void> | void;
+  onDraftCreated?: (draft: any) => Promise<void> | void;
+}
+
+export interface GenerationCriteria {
+  category: string;
+  generationType: string;
+  generationSource: string;
+  generationDetails?: string;
 }
 
 export default factories.createCoreService('api::quote-draft.quote-draft', ({ strapi }) => ({
@@ -20,19 +71,25 @@ export default factories.createCoreService('api::quote-draft.quote-draft', ({ st
    * Returns a complete QuoteDraft record
    */
   async generateQuoteFromWeb(params: GenerateQuoteParams) {
-    const { category, generationType, generationSource, generationDetails, userId } = params;
+    const { category, generationType, generationSource, generationDetails, userId, onProgress, onDraftCreated } = params;
+    const report = async (stage: string, percentage: number) => {
+      if (onProgress) {
+        await onProgress(stage, percentage);
+      }
+    };
 
     try {
       strapi.log.info(`Quote Draft Service: Starting generation for user ${userId}`);
 
       // Step 1: Perform Google searches (3 queries with AI-generated search terms)
       strapi.log.info('Quote Draft Service: Performing web searches...');
+      await report('Searching web for quotes...', 10);
       const searchResults = await googleSearchService.searchQuotes({
         category,
         generationType,
         generationSource,
         generationDetails
-      });
+      }, {}, userId);
 
       if (!searchResults || searchResults.length === 0) {
         throw new Error('No search results found. Please try different criteria.');
@@ -42,6 +99,7 @@ export default factories.createCoreService('api::quote-draft.quote-draft', ({ st
 
       // Step 2: Use AI to extract best quote from search results
       strapi.log.info('Quote Draft Service: Extracting quote with AI...');
+      await report('Extracting quote with AI...', 40);
       const extractedQuote = await aiService.extractQuoteFromSearchResults(
         searchResults,
         {
@@ -56,7 +114,12 @@ export default factories.createCoreService('api::quote-draft.quote-draft', ({ st
       const selectedQuote = extractedQuote.selected_quote;
       strapi.log.info(`Quote Draft Service: Quote extracted with confidence ${selectedQuote.confidence_score}`);
 
+      // Remember which candidate was picked so reviewers can swap it later
+      const candidates = extractedQuote.candidates || [];
+      const selectedIndex = candidates.findIndex(candidate => candidate.quote_text === selectedQuote.quote_text);
+
       // Step 3: Find or create category
+      await report('Saving quote draft...', 70);
       const categoryRecord = await this.findOrCreateCategory(category);
 
       // Step 4: Create QuoteDraft record
@@ -71,6 +134,11 @@ export default factories.createCoreService('api::quote-draft.quote-draft', ({ st
           generation_type: generationType as "Celebrity" | "Politician" | "Company Executive",
           generation_source: generationSource as "News" | "Research" | "Laws" | "Advertisements",
           generation_details: generationDetails || `Generated from ${generationSource} about ${generationType}`,
+          candidates: candidates as any,
+          selected_candidate_index: selectedIndex >= 0 ? selectedIndex : null,
+          selection_reasoning: extractedQuote.selection_reasoning,
+          review_status: 'pending',
+          content_updated_at: new Date(),
           user: userId,
           publishedAt: new Date()
         },
@@ -79,9 +147,22 @@ export default factories.createCoreService('api::quote-draft.quote-draft', ({ st
 
       strapi.log.info(`Quote Draft Service: Created draft ${quoteDraft.id}`);
 
+      if (onDraftCreated) {
+        await onDraftCreated(quoteDraft);
+      }
+
+      // Step 5: Check the quote against its source page (failures leave the draft unverified)
+      await report('Verifying quote against source...', 85);
+      let verifiedDraft: any = quoteDraft;
+      try {
+        verifiedDraft = await this.verifyDraft(quoteDraft);
+      } catch (error) {
+        strapi.log.warn(`Quote Draft Service: Verification of draft ${quoteDraft.id} failed: ${error.message}`);
+      }
+
       // Return both the quote draft and the candidate/reasoning data
       return {
-        quoteDraft,
+        quoteDraft: verifiedDraft,
         candidates: extractedQuote.candidates,
         selection_reasoning: extractedQuote.selection_reasoning
       };
@@ -92,10 +173,491 @@ export default factories.createCoreService('api::quote-draft.quote-draft', ({ st
     }
   },
 
+  /**
+   * Find a quote draft by documentId with the relations the review workflow needs
+   */
+  async findDraft(documentId: string) {
+    return strapi.db.query('api::quote-draft.quote-draft').findOne({
+      where: { documentId },
+      populate: ['category', 'user', 'opinion', 'reviewed_by']
+    });
+  },
+
+  /**
+   * Owners review their own drafts; sysadmins can review any draft
+   */
+  canReview(draft: any, user: any) {
+    return draft?.user?.id === user?.id || user?.userRole === 'sysadmin' || !!user?.isSuperAdmin;
+  },
+
+  /**
+   * Data for a generic draft update: changing the quote or its attribution sends the draft
+   * back to pending and clears its verification, like the review actions do
+   */
+  prepareUpdate(draft: any, data: any) {
+    if (data.source_url !== undefined && !isHttpUrl(String(data.source_url).trim())) {
+      throw new Error('source_url must be an http or https URL');
+    }
+
+    const contentChanged = CONTENT_FIELDS.some(field => data[field] !== undefined && data[field] !== draft[field]);
+    if (!contentChanged) {
+      return data;
+    }
+
+    return {
+      ...data,
+      ...RESET_VERIFICATION,
+      content_updated_at: new Date(),
+      review_status: 'pending',
+      reviewed_by: null,
+      reviewed_at: null
+    };
+  },
+
+  /**
+   * Swap in a different stored candidate
+   * Changing the quote sends an approved draft back to pending
+   */
+  async selectCandidate(draft: any, index: number) {
+    if (draft.review_status === 'published') {
+      throw new Error('Published drafts cannot be changed');
+    }
+
+    const candidates = Array.isArray(draft.candidates) ? draft.candidates : [];
+    const candidate = candidates[index];
+
+    if (!candidate) {
+      throw new Error(`Candidate ${index} does not exist (draft has ${candidates.length} candidates)`);
+    }
+
+    const data: any = {
+      ...RESET_VERIFICATION,
+      content_updated_at: new Date(),
+      selected_candidate_index: index,
+      review_status: 'pending',
+      reviewed_by: null,
+      reviewed_at: null
+    };
+    CANDIDATE_FIELDS.forEach(field => {
+      if (candidate[field] !== undefined) {
+        data[field] = candidate[field];
+      }
+    });
+
+    return strapi.entityService.update('api::quote-draft.quote-draft', draft.id, {
+      data,
+      populate: ['category', 'user', 'opinion']
+    });
+  },
+
+  /**
+   * Edit speaker, publication and source URL
+   * Editing sends an approved draft back to pending
+   */
+  async updateAttribution(draft: any, fields: { speaker_name?: string; publication_source?: string; source_url?: string }) {
+    if (draft.review_status === 'published') {
+      throw new Error('Published drafts cannot be changed');
+    }
+
+    const data: any = {};
+
+    Object.entries(ATTRIBUTION_LIMITS).forEach(([field, maxLength]) => {
+      const value = fields[field];
+      if (value === undefined) {
+        return;
+      }
+      const trimmed = typeof value === 'string' ? value.trim() : '';
+      if (!trimmed) {
+        throw new Error(`${field} cannot be empty`);
+      }
+      if (trimmed.length > maxLength) {
+        throw new Error(`${field} must be ${maxLength} characters or fewer`);
+      }
+      data[field] = trimmed;
+    });
+
+    if (Object.keys(data).length === 0) {
+      throw new Error('Provide speaker_name, publication_source or source_url');
+    }
+
+    if (data.source_url && !isHttpUrl(data.source_url)) {
+      throw new Error('source_url must be an http or https URL');
+    }
+
+    return strapi.entityService.update('api::quote-draft.quote-draft', draft.id, {
+      data: {
+        ...data,
+        ...RESET_VERIFICATION,
+        content_updated_at: new Date(),
+        review_status: 'pending',
+        reviewed_by: null,
+        reviewed_at: null
+      },
+      populate: ['category', 'user', 'opinion']
+    });
+  },
+
+  /**
+   * Approve a pending draft so it can be published
+   */
+  async approveDraft(draft: any, reviewerId: number) {
+    if (draft.review_status !== 'pending' && draft.review_status) {
+      throw new Error(`Only pending drafts can be approved (draft is ${draft.review_status})`);
+    }
+
+    return strapi.entityService.update('api::quote-draft.quote-draft', draft.id, {
+      data: {
+        review_status: 'approved',
+        reviewed_by: reviewerId,
+        reviewed_at: new Date()
+      },
+      populate: ['category', 'user', 'opinion', 'reviewed_by']
+    });
+  },
+
+  /**
+   * Fetch the draft's source page and record whether the quote and speaker appear on it
+   * A published draft passes the result on to its opinion's verified badge
+   */
+  async verifyDraft(draft: any) {
+    const result = await quoteVerificationService.verify({
+      quote_text: draft.quote_text,
+      speaker_name: draft.speaker_name,
+      source_url: draft.source_url
+    });
+
+    const updated = await strapi.entityService.update('api::quote-draft.quote-draft', draft.id, {
+      data: {
+        verification_status: result.status,
+        verification_score: result.quoteScore,
+        verification_snippet: result.snippet,
+        speaker_verified: result.speakerFound,
+        verified_at: result.checkedAt
+      },
+      populate: ['category', 'user', 'opinion']
+    });
+
+    const opinionId = draft.opinion?.id;
+    if (opinionId) {
+      await strapi.entityService.update('api::opinion.opinion', opinionId, {
+        data: { is_verified: result.status === 'verified' }
+      });
+    }
+
+    return updated;
+  },
+
+  /**
+   * Expand a batch request into individual generation criteria
+   * Accepts an explicit `criteria` list and/or `categories` × `generationTypes` × `generationSources`
+   */
+  expandBatchCriteria(body: any): GenerationCriteria[] {
+    const criteria: GenerationCriteria[] = [];
+
+    if (Array.isArray(body?.criteria)) {
+      body.criteria.forEach(item => criteria.push({
+        category: item?.category,
+        generationType: item?.generationType,
+        generationSource: item?.generationSource,
+        generationDetails: item?.generationDetails
+      }));
+    }
+
+    const { categories, generationTypes, generationSources, generationDetails } = body || {};
+    if (Array.isArray(categories) && Array.isArray(generationTypes) && Array.isArray(generationSources)) {
+      categories.forEach(category => generationTypes.forEach(generationType => generationSources.forEach(generationSource =>
+        criteria.push({ category, generationType, generationSource, generationDetails })
+      )));
+    }
+
+    if (criteria.length === 0) {
+      throw new Error('Provide criteria: [{ category, generationType, generationSource }] or categories, generationTypes and generationSources arrays');
+    }
+    if (criteria.length > BATCH_MAX_JOBS) {
+      throw new Error(`A batch can contain at most ${BATCH_MAX_JOBS} generations (got ${criteria.length})`);
+    }
+
+    criteria.forEach((item, index) => {
+      if (typeof item.category !== 'string' || !item.category.trim() || item.category.length > 200) {
+        throw new Error(`Criteria ${index}: category is required (200 characters max)`);
+      }
+      if (!GENERATION_TYPES.includes(item.generationType)) {
+        throw new Error(`Criteria ${index}: generationType must be one of ${GENERATION_TYPES.join(', ')}`);
+      }
+      if (!GENERATION_SOURCES.includes(item.generationSource)) {
+        throw new Error(`Criteria ${index}: generationSource must be one of ${GENERATION_SOURCES.join(', ')}`);
+      }
+      if (item.generationDetails !== undefined && (typeof item.generationDetails !== 'string' || item.generationDetails.length > 500)) {
+        throw new Error(`Criteria ${index}: generationDetails must be text of 500 characters or fewer`);
+      }
+      item.category = item.category.trim();
+    });
+
+    return criteria;
+  },
+
+  /**
+   * Queue one generation job per criteria and start processing
+   */
+  async enqueueBatch(userId: number, criteria: GenerationCriteria[]) {
+    const batchId = uuidv4();
+
+    for (const item of criteria) {
+      await strapi.db.query('api::quote-generation-job.quote-generation-job').create({
+        data: {
+          batch_id: batchId,
+          category: item.category,
+          generation_type: item.generationType,
+          generation_source: item.generationSource,
+          generation_details: item.generationDetails || null,
+          status: 'queued',
+          stage: 'Queued',
+          percentage: 0,
+          attempts: 0,
+          max_attempts: JOB_MAX_ATTEMPTS,
+          user: userId
+        }
+      });
+    }
+
+    strapi.log.info(`Quote Draft Service: Queued batch ${batchId} with ${criteria.length} jobs for user ${userId}`);
+
+    // Start right away; the queue cron picks up anything left over
+    this.processQueue().catch(error => strapi.log.error('Quote Draft Service: Queue processing failed', error));
+
+    return this.getBatchProgress(batchId);
+  },
+
+  /**
+   * Claim queued jobs up to the concurrency limit and run them
+   * The advisory lock keeps several instances from claiming past the limit together
+   */
+  async processQueue() {
+    const limit = queueConcurrency();
+    if (activeJobs >= limit) {
+      return 0;
+    }
+
+    const claimedIds: number[] = await strapi.db.connection.transaction(async trx => {
+      await trx.raw('SELECT pg_advisory_xact_lock(hashtext(?))', [QUEUE_LOCK_KEY]);
+
+      const runningResult = await trx.raw(`SELECT COUNT(*)::int AS count FROM quote_generation_jobs WHERE status = 'running'`);
+      const running = (runningResult.rows || runningResult)[0]?.count || 0;
+      const slots = Math.min(limit - activeJobs, limit - running);
+
+      if (slots <= 0) {
+        return [];
+      }
+
+      const claimed = await trx.raw(
+        `UPDATE quote_generation_jobs
+         SET status = 'running', attempts = attempts + 1, started_at = NOW(), updated_at = NOW(),
+             stage = 'Starting...', percentage = 0, error = NULL
+         WHERE id IN (
+           SELECT id FROM quote_generation_jobs
+           WHERE status = 'queued' AND (next_attempt_at IS NULL OR next_attempt_at <= NOW())
+           ORDER BY id
+           LIMIT ?
+           FOR UPDATE SKIP LOCKED
+         )
+         RETURNING id`,
+        [slots]
+      );
+
+      return (claimed.rows || claimed).map(row => row.id);
+    });
+
+    claimedIds.forEach(jobId => {
+      activeJobs++;
+      this.runJob(jobId)
+        .catch(error => strapi.log.error(`Quote Draft Service: Job ${jobId} crashed`, error))
+        .finally(() => {
+          activeJobs--;
+          // Pull the next job into the freed slot
+          this.processQueue().catch(error => strapi.log.error('Quote Draft Service: Queue processing failed', error));
+        });
+    });
+
+    return claimedIds.length;
+  },
+
+  /**
+   * Generate one claimed job's draft, retrying with backoff on failure
+   */
+  async runJob(jobId: number) {
+    const jobQuery = strapi.db.query('api::quote-generation-job.quote-generation-job');
+    const job = await jobQuery.findOne({ where: { id: jobId }, populate: ['user', 'quote_draft'] });
+
+    if (!job) {
+      return;
+    }
+
+    // An earlier attempt already created the draft before it was interrupted - don't create a second one
+    if (job.quote_draft) {
+      await jobQuery.update({
+        where: { id: jobId },
+        data: { status: 'completed', stage: 'Quote generated', percentage: 100, completed_at: new Date() }
+      });
+      return;
+    }
+
+    try {
+      if (!job.user) {
+        throw new Error('Job owner no longer exists');
+      }
+
+      const result = await this.generateQuoteFromWeb({
+        category: job.category,
+        generationType: job.generation_type,
+        generationSource: job.generation_source,
+        generationDetails: job.generation_details || undefined,
+        userId: job.user.id,
+        onProgress: async (stage, percentage) => {
+          // updatedAt doubles as the heartbeat checked by recoverStaleJobs
+          await jobQuery.update({ where: { id: jobId }, data: { stage, percentage, updatedAt: new Date() } });
+        },
+        onDraftCreated: async draft => {
+          // Stored right away so a retry after a crash finds it
+          await jobQuery.update({ where: { id: jobId }, data: { quote_draft: draft.id, updatedAt: new Date() } });
+        }
+      });
+
+      await jobQuery.update({
+        where: { id: jobId },
+        data: {
+          status: 'completed',
+          stage: 'Quote generated',
+          percentage: 100,
+          completed_at: new Date(),
+          quote_draft: result.quoteDraft.id
+        }
+      });
+    } catch (error) {
+      const attempts = job.attempts || 1;
+      const maxAttempts = job.max_attempts || JOB_MAX_ATTEMPTS;
+      const retry = attempts < maxAttempts && !!job.user;
+
+      strapi.log.warn(`Quote Draft Service: Job ${jobId} attempt ${attempts}/${maxAttempts} failed: ${error.message}`);
+
+      await jobQuery.update({
+        where: { id: jobId },
+        data: retry
+          ? {
+            status: 'queued',
+            stage: `Retrying (attempt ${attempts + 1} of ${maxAttempts})`,
+            percentage: 0,
+            error: error.message,
+            next_attempt_at: new Date(Date.now() + JOB_RETRY_BASE_SECONDS * 1000 * Math.pow(2, attempts - 1))
+          }
+          : {
+            status: 'failed',
+            stage: 'Failed',
+            error: error.message,
+            completed_at: new Date()
+          }
+      });
+    }
+  },
+
+  /**
+   * Requeue running jobs that stopped reporting progress (their process went away)
+   */
+  async recoverStaleJobs() {
+    const staleBefore = new Date(Date.now() - JOB_STALE_MINUTES * 60 * 1000);
+    const jobQuery = strapi.db.query('api::quote-generation-job.quote-generation-job');
+
+    const requeued = await strapi.db.connection.raw(
+      `UPDATE quote_generation_jobs
+       SET status = 'queued', stage = 'Requeued after interruption', percentage = 0, updated_at = NOW()
+       WHERE status = 'running' AND updated_at < ? AND attempts < max_attempts`,
+      [staleBefore]
+    );
+    const failed = await jobQuery.updateMany({
+      where: { status: 'running', updatedAt: { $lt: staleBefore } },
+      data: { status: 'failed', stage: 'Failed', error: 'Job was interrupted', completed_at: new Date() }
+    });
+
+    return (requeued.rowCount || 0) + failed.count;
+  },
+
+  /**
+   * Per-job progress for a batch plus overall totals
+   */
+  async getBatchProgress(batchId: string) {
+    const jobs = await strapi.db.query('api::quote-generation-job.quote-generation-job').findMany({
+      where: { batch_id: batchId },
+      populate: ['quote_draft', 'user'],
+      orderBy: { id: 'asc' }
+    });
+
+    if (jobs.length === 0) {
+      return null;
+    }
+
+    const counts = { queued: 0, running: 0, completed: 0, failed: 0 };
+    let percentageSum = 0;
+
+    jobs.forEach(job => {
+      counts[job.status] = (counts[job.status] || 0) + 1;
+      percentageSum += job.status === 'completed' || job.status === 'failed' ? 100 : job.percentage || 0;
+    });
+
+    const finished = counts.completed + counts.failed === jobs.length;
+
+    return {
+      batchId,
+      userId: jobs[0].user?.id || null,
+      status: finished ? (counts.failed === jobs.length ? 'failed' : 'completed') : 'in_progress',
+      percentage: Math.round(percentageSum / jobs.length),
+      total: jobs.length,
+      ...counts,
+      jobs: jobs.map(job => ({
+        id: job.id,
+        category: job.category,
+        generationType: job.generation_type,
+        generationSource: job.generation_source,
+        status: job.status,
+        stage: job.stage,
+        percentage: job.status === 'completed' ? 100 : job.percentage || 0,
+        attempts: job.attempts,
+        maxAttempts: job.max_attempts,
+        nextAttemptAt: job.status === 'queued' ? job.next_attempt_at : null,
+        error: job.error,
+        quoteDraftId: job.quote_draft?.documentId || null,
+        startedAt: job.started_at,
+        completedAt: job.completed_at
+      }))
+    };
+  },
+
+  /**
+   * Give drafts created before the review workflow a status
+   */
+  async backfillReviewStatus() {
+    const published = await strapi.db.query('api::quote-draft.quote-draft').updateMany({
+      where: { review_status: { $null: true }, is_published: true },
+      data: { review_status: 'published' }
+    });
+    const pending = await strapi.db.query('api::quote-draft.quote-draft').updateMany({
+      where: { review_status: { $null: true } },
+      data: { review_status: 'pending' }
+    });
+
+    return published.count + pending.count;
+  },
+
   /**
    * Find existing category or create new one
+   * Accepts paths such as "Politics/Elections" to find or create nested categories
    */
   async findOrCreateCategory(categoryName: string) {
+    if (categoryName.includes('/')) {
+      const category = await strapi.service('api::category.category').resolvePath(categoryName, { create: true });
+      if (category) {
+        return category;
+      }
+    }
+
     // Try to find existing category
     const categories = await strapi.entityService.findMany('api::category.category', {
       filters: {
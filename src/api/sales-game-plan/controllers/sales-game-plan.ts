@@ -5,6 +5,8 @@
  * Includes approval workflow, sharing, and feedback
  */
 
+import gamePlanVersions from '../../salespilot-conversation/services/game-plan-versions';
+
 /**
  * Helper function to validate JWT token and populate ctx.state.user
  */
@@ -284,9 +286,12 @@ export default {
         return ctx.forbidden('Access denied');
       }
 
-      // Delete the game plan
-      await strapi.documents('api::sales-game-plan.sales-game-plan').delete({
-        documentId
+      // Delete the version history first (the relation is gone once the plan is deleted), then the game plan
+      await strapi.db.transaction(async () => {
+        await gamePlanVersions.deleteForGamePlan(Number(plan.id));
+        await strapi.documents('api::sales-game-plan.sales-game-plan').delete({
+          documentId
+        });
       });
 
       strapi.log.info(`Game plan deleted: ${documentId} by user ${currentUser.username}`);
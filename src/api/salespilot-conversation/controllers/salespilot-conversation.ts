@@ -5,6 +5,11 @@
  * Supports URL finding via Google Custom Search API
  */
 
+import { AI_BUDGET_EXCEEDED } from '../../../services/ai-usage-service';
+
+// Section events read per query by the progress stream
+const SSE_EVENT_BATCH = 500;
+
 /**
  * Helper function to validate JWT token and populate ctx.state.user
  */
@@ -129,6 +134,7 @@ export default {
   /**
    * POST /api/salespilot/research
    * Perform web research for company and contact information
+   * Set forceRefresh: true to bypass cached search results
    */
   async performResearch(ctx) {
     const currentUser = await authenticateRequest(ctx);
@@ -146,7 +152,8 @@ export default {
       contactLinkedIn,
       industry,
       researchDepth,
-      additionalParties
+      additionalParties,
+      forceRefresh
     } = ctx.request.body;
 
     // Validation
@@ -170,7 +177,8 @@ export default {
           contactLinkedIn,
           industry,
           researchDepth,
-          additionalParties
+          additionalParties,
+          forceRefresh: forceRefresh === true || forceRefresh === 'true'
         }, currentUser.id);
 
       strapi.log.info(`Research completed for user ${currentUser.username}: ${researchDepth} research on ${companyName || companyDomain}`);
@@ -243,31 +251,11 @@ export default {
     }
 
     try {
-      // Import progress tracker
-      const { progressTracker } = await import('../services/game-plan-generator');
-
-      // Generate unique analysis ID
-      const analysisId = progressTracker.generateAnalysisId();
-
-      // Initialize progress tracking
-      progressTracker.initializeProgress(analysisId);
-
-      strapi.log.info(`[AnalysisGeneration] Started with ID: ${analysisId} for user ${currentUser.username}`);
-
-      // Return analysis ID immediately (non-blocking)
-      ctx.send({
-        success: true,
-        data: {
-          analysisId,
-          message: 'Analysis generation started. Use the analysis ID to track progress via SSE or polling endpoints.'
-        }
-      });
-
-      // Run analysis generation in background (don't await)
-      // This allows the response to return immediately while generation continues
-      strapi
+      // Store the job and start generation in background (don't await)
+      // Progress, result and errors are kept on the job, so any instance can report them
+      const analysisId = await strapi
         .service('api::salespilot-conversation.salespilot-conversation')
-        .generateGamePlanAnalysis({
+        .startGamePlanAnalysis({
           companyName,
           contactName,
           contactTitle,
@@ -284,81 +272,18 @@ export default {
           globalStartTime,
           selectedMaterials,
           templateChoice
-        }, currentUser.id, analysisId)
-        .then(async (analysis) => {
-          try {
-            strapi.log.info(`[AnalysisGeneration] Completed for ${analysisId}: ${companyName} / ${contactName}`);
-            strapi.log.info(`[AnalysisGeneration] Saving game plan to database...`);
-
-            // Save the game plan to the database
-            const gamePlan = await strapi.entityService.create('api::sales-game-plan.sales-game-plan', {
-              data: {
-                // User relation
-                user: currentUser.id,
-
-                // Company and contact info
-                primaryCompanyName: companyName,
-                primaryCompanyDomain: companyDomain || null,
-                primaryContactName: contactName,
-                primaryContactTitle: contactTitle || null,
-                primaryContactLinkedIn: contactLinkedIn || null,
-                additionalParties: additionalParties || null,
-
-                // Meeting details
-                meetingSubject: meetingSubject,
-                desiredOutcome: desiredOutcome,
-                meetingDate: null, // User can set this later
-
-                // Analysis parameters
-                researchDepth: researchDepth || 'Standard',
-                personaDetailLevel: personaDetailLevel,
-                influenceFramework: influenceFramework,
-                selectedMaterials: selectedMaterials || null,
-                templateChoice: templateChoice || 'Modern',
-
-                // Generated analysis content
-                companyAnalysis: analysis.companyAnalysis,
-                contactPersona: analysis.contactPersona,
-                influenceTactics: analysis.influenceTactics,
-                discussionPoints: analysis.discussionPoints,
-                objectionHandling: analysis.objectionHandling,
-                generatedMaterials: analysis.generatedMaterials || null,
-
-                // Status
-                status: 'Ready', // Analysis complete, ready to use
-
-                // Approval fields
-                approvalStatus: 'Not Submitted'
-              }
-            });
-
-            strapi.log.info(`[AnalysisGeneration] Game plan saved successfully with ID: ${gamePlan.documentId}`);
+        }, currentUser.id);
 
-            // Update progress tracker with game plan ID
-            const { progressTracker } = await import('../services/game-plan-generator');
-            const currentProgress = progressTracker.getProgress(analysisId);
-            if (currentProgress) {
-              progressTracker.setCompleted(analysisId, {
-                ...currentProgress.result,
-                gamePlanId: gamePlan.documentId
-              });
-            }
+      strapi.log.info(`[AnalysisGeneration] Started with ID: ${analysisId} for user ${currentUser.username}`);
 
-          } catch (saveError) {
-            strapi.log.error(`[AnalysisGeneration] Failed to save game plan:`, saveError);
-            strapi.log.error(`[AnalysisGeneration] Error details:`, {
-              name: saveError.name,
-              message: saveError.message,
-              stack: saveError.stack
-            });
-            // Don't throw - analysis was successful, just saving failed
-            // User can still see results in progress tracker
-          }
-        })
-        .catch((error) => {
-          strapi.log.error(`[AnalysisGeneration] Failed for ${analysisId}:`, error);
-          // Error is already handled by progressTracker in the service
-        });
+      // Return analysis ID immediately (non-blocking)
+      return ctx.send({
+        success: true,
+        data: {
+          analysisId,
+          message: 'Analysis generation started. Use the analysis ID to track progress via SSE or polling endpoints.'
+        }
+      });
 
     } catch (error) {
       strapi.log.error('Error starting analysis:', error);
@@ -372,6 +297,68 @@ export default {
     }
   },
 
+  /**
+   * POST /api/salespilot/analysis-resume/:analysisId
+   * Resume a failed analysis from its failing phase
+   * Completed sections and research are reused; progress continues on the same SSE and polling endpoints
+   */
+  async resumeAnalysis(ctx) {
+    const currentUser = await authenticateRequest(ctx);
+
+    if (!currentUser) {
+      return ctx.unauthorized('You must be logged in to use SalesPilot AI');
+    }
+
+    const { analysisId } = ctx.params;
+
+    try {
+      const { progressTracker } = await import('../services/game-plan-generator');
+      const job = await progressTracker.getJob(analysisId);
+
+      if (!job) {
+        return ctx.notFound('Analysis not found');
+      }
+
+      if (job.userId !== currentUser.id) {
+        return ctx.forbidden('You can only resume your own analyses');
+      }
+
+      if (job.status !== 'error') {
+        return ctx.badRequest(job.status === 'completed' ? 'Analysis has already completed' : 'Analysis is still running');
+      }
+
+      const failedPhases = Object.keys(job.phaseStatus).filter(key => job.phaseStatus[key].status !== 'completed');
+
+      const resumed = await strapi
+        .service('api::salespilot-conversation.salespilot-conversation')
+        .resumeFailedAnalysis(analysisId);
+
+      if (!resumed) {
+        return ctx.badRequest('Analysis is already being resumed');
+      }
+
+      strapi.log.info(`[AnalysisGeneration] User ${currentUser.username} resumed ${analysisId} (remaining phases: ${failedPhases.join(', ') || 'none'})`);
+
+      return ctx.send({
+        success: true,
+        data: {
+          analysisId,
+          remainingPhases: failedPhases,
+          message: 'Analysis resumed. Use the analysis ID to track progress via SSE or polling endpoints.'
+        }
+      });
+    } catch (error) {
+      strapi.log.error('Error resuming analysis:', error);
+
+      return ctx.internalServerError({
+        error: {
+          message: 'Failed to resume analysis generation. Please try again.',
+          retryAvailable: true
+        }
+      });
+    }
+  },
+
   /**
    * Stream analysis progress using Server-Sent Events (SSE)
    * GET /api/salespilot/analysis-progress/:analysisId
@@ -420,7 +407,7 @@ export default {
       const { progressTracker } = await import('../services/game-plan-generator');
 
       // Check if analysis exists
-      if (!progressTracker.exists(analysisId)) {
+      if (!(await progressTracker.exists(analysisId))) {
         strapi.log.warn(`[SSE] Analysis not found: ${analysisId}`);
         ctx.status = 404;
         ctx.body = { error: { message: 'Analysis not found' } };
@@ -447,13 +434,25 @@ export default {
       ctx.res.write('event: connected\n');
       ctx.res.write(`data: ${JSON.stringify({ message: 'Connected to progress stream' })}\n\n`);
 
+      // Section events already sent before a reconnect are skipped (EventSource sends Last-Event-ID)
+      const { default: analysisEvents } = await import('../services/analysis-events');
+      let lastEventId = parseInt(ctx.request.headers['last-event-id'] || ctx.query.lastEventId || '0', 10) || 0;
+
       // Return a Promise that keeps the connection alive until stream closes
       // This prevents Koa from auto-closing the response when the function ends
       return new Promise<void>((resolve) => {
+        // Skip a tick while the previous read is still running
+        let polling = false;
+
         // Create polling interval to check progress
-        const pollInterval = setInterval(() => {
+        const pollInterval = setInterval(async () => {
+          if (polling) {
+            return;
+          }
+          polling = true;
+
           try {
-            const progress = progressTracker.getProgress(analysisId);
+            const progress = await progressTracker.getProgress(analysisId);
 
             if (!progress) {
               // Analysis not found (might have been cleaned up)
@@ -466,6 +465,23 @@ export default {
               return;
             }
 
+            // Send section events (phase-start, section-delta, section-complete, section-error) in order;
+            // read after the progress so a completed analysis has all of its events here
+            for (;;) {
+              const events = await analysisEvents.listSince(analysisId, lastEventId, SSE_EVENT_BATCH);
+
+              events.forEach(event => {
+                ctx.res.write(`id: ${event.id}\n`);
+                ctx.res.write(`event: ${event.type}\n`);
+                ctx.res.write(`data: ${JSON.stringify({ section: event.section, ...event.data })}\n\n`);
+                lastEventId = event.id;
+              });
+
+              if (events.length < SSE_EVENT_BATCH) {
+                break;
+              }
+            }
+
             // Send progress update
             ctx.res.write('event: progress\n');
             ctx.res.write(`data: ${JSON.stringify({
@@ -476,7 +492,9 @@ export default {
               phaseNumber: progress.phaseNumber,
               totalPhases: progress.totalPhases,
               elapsedSeconds: progress.totalElapsedSeconds,
-              remainingSeconds: progress.totalRemainingSeconds
+              remainingSeconds: progress.totalRemainingSeconds,
+              activePhases: progress.activePhases,
+              phases: progress.phases
             })}\n\n`);
 
             // If completed or error, send final event and close
@@ -506,6 +524,8 @@ export default {
             clearInterval(pollInterval);
             ctx.res.end();
             resolve(); // Resolve promise to end Koa handler
+          } finally {
+            polling = false;
           }
         }, 500); // Poll every 500ms for updates
 
@@ -572,7 +592,7 @@ export default {
       const { progressTracker } = await import('../services/game-plan-generator');
 
       // Get progress data
-      const progress = progressTracker.getProgress(analysisId);
+      const progress = await progressTracker.getProgress(analysisId);
 
       if (!progress) {
         strapi.log.warn(`[Polling] Analysis not found: ${analysisId}`);
@@ -581,17 +601,10 @@ export default {
         });
       }
 
-      // Recalculate elapsed/remaining time dynamically if globalStartTime is available
-      let currentElapsed = progress.totalElapsedSeconds || 0;
-      let currentRemaining = progress.totalRemainingSeconds || 0;
-
-      if (progress.globalStartTime) {
-        // Calculate current elapsed time from global start (continuous timer)
-        const now = new Date();
-        currentElapsed = Math.round((now.getTime() - new Date(progress.globalStartTime).getTime()) / 1000);
-        // Remaining = total estimate (210s for 7 phases) minus elapsed
-        currentRemaining = Math.max(0, 210 - currentElapsed);
-      }
+      // Elapsed/remaining are calculated when read; remaining follows the longest chain of
+      // unfinished phases, since independent sections run in parallel
+      const currentElapsed = progress.totalElapsedSeconds || 0;
+      const currentRemaining = progress.totalRemainingSeconds || 0;
 
       // Return progress data in same format as SSE events
       return ctx.send({
@@ -607,7 +620,9 @@ export default {
           phaseNumber: progress.phaseNumber,
           totalPhases: progress.totalPhases,
           elapsedSeconds: currentElapsed,
-          remainingSeconds: currentRemaining
+          remainingSeconds: currentRemaining,
+          activePhases: progress.activePhases,
+          phases: progress.phases
         },
         timestamp: progress.updatedAt
       });
@@ -700,7 +715,7 @@ export default {
       // Generate pre-meeting email
       if (materials.includes('preMeetingEmail')) {
         strapi.log.info(`[Materials] Generating pre-meeting email...`);
-        const email = await materialGenerator.generatePreMeetingEmail(gamePlan);
+        const email = await materialGenerator.generatePreMeetingEmail(gamePlan, currentUser.id);
         generatedMaterials.preMeetingEmail = email;
         strapi.log.info(`[Materials] Pre-meeting email generated (${email.body.length} chars)`);
       }
@@ -708,7 +723,7 @@ export default {
       // Generate post-meeting email
       if (materials.includes('postMeetingEmail')) {
         strapi.log.info(`[Materials] Generating post-meeting email...`);
-        const email = await materialGenerator.generatePostMeetingEmail(gamePlan);
+        const email = await materialGenerator.generatePostMeetingEmail(gamePlan, currentUser.id);
         generatedMaterials.postMeetingEmail = email;
         strapi.log.info(`[Materials] Post-meeting email generated (${email.body.length} chars)`);
       }
@@ -746,6 +761,11 @@ export default {
 
     } catch (error) {
       strapi.log.error('[Materials] Generation error:', error);
+
+      if (error.code === AI_BUDGET_EXCEEDED) {
+        return ctx.tooManyRequests(error.message);
+      }
+
       return ctx.internalServerError({
         error: {
           message: 'Failed to generate materials',
@@ -814,7 +834,8 @@ export default {
         section,
         currentContent,
         improvementRequest,
-        gamePlanContext
+        gamePlanContext,
+        userId: currentUser.id
       });
 
       return ctx.send({
@@ -830,6 +851,11 @@ export default {
 
     } catch (error) {
       strapi.log.error('[Content Improvement] Error:', error);
+
+      if (error.code === AI_BUDGET_EXCEEDED) {
+        return ctx.tooManyRequests(error.message);
+      }
+
       return ctx.internalServerError({
         error: {
           message: 'Failed to improve content',
@@ -842,6 +868,7 @@ export default {
   /**
    * POST /api/salespilot/apply-improvement
    * Apply approved content improvement to game plan
+   * Also saves regenerated sections (source: 'regenerate_section'); every change is stored as a version
    */
   async applyImprovement(ctx) {
     const currentUser = await authenticateRequest(ctx);
@@ -849,12 +876,16 @@ export default {
       return ctx.unauthorized('Authentication required');
     }
 
-    const { gamePlanId, section, improvedContent } = ctx.request.body;
+    const { gamePlanId, section, improvedContent, source = 'apply_improvement' } = ctx.request.body;
 
     if (!gamePlanId || !section || !improvedContent) {
       return ctx.badRequest('Missing required fields: gamePlanId, section, improvedContent');
     }
 
+    if (!['apply_improvement', 'regenerate_section'].includes(source)) {
+      return ctx.badRequest('source must be apply_improvement or regenerate_section');
+    }
+
     try {
       const contentImprover = require('../services/content-improver');
 
@@ -878,15 +909,24 @@ export default {
         return ctx.forbidden('You do not have permission to modify this game plan');
       }
 
-      // Update the section content
-      const updatedGamePlan = await strapi.documents('api::sales-game-plan.sales-game-plan').update({
-        documentId: gamePlanId,
-        data: {
-          [section]: improvedContent
+      // Update the section content and record it as a new version
+      const { default: gamePlanVersions } = await import('../services/game-plan-versions');
+      const updatedGamePlan = await gamePlanVersions.withVersion(
+        () => strapi.documents('api::sales-game-plan.sales-game-plan').update({
+          documentId: gamePlanId,
+          data: {
+            [section]: improvedContent
+          }
+        }),
+        {
+          before: gamePlan,
+          authorId: currentUser.id,
+          source,
+          section
         }
-      });
+      );
 
-      strapi.log.info(`[Content Improvement] Applied improvement to section '${section}' on game plan ${gamePlanId}`);
+      strapi.log.info(`[Content Improvement] Applied ${source} to section '${section}' on game plan ${gamePlanId}`);
 
       return ctx.send({
         success: true,
@@ -1021,9 +1061,13 @@ export default {
         return ctx.forbidden('You do not have permission to delete this game plan');
       }
 
-      // Delete the game plan
-      await strapi.documents('api::sales-game-plan.sales-game-plan').delete({
-        documentId
+      // Delete the version history first (the relation is gone once the plan is deleted), then the game plan
+      const { default: gamePlanVersions } = await import('../services/game-plan-versions');
+      await strapi.db.transaction(async () => {
+        await gamePlanVersions.deleteForGamePlan(Number(gamePlan.id));
+        await strapi.documents('api::sales-game-plan.sales-game-plan').delete({
+          documentId
+        });
       });
 
       strapi.log.info(`[Delete Game Plan] User ${currentUser.id} deleted game plan ${documentId}`);
@@ -1289,6 +1333,186 @@ export default {
     }
   },
 
+  /**
+   * GET /api/salespilot/game-plans/:documentId/versions
+   * Version history of a game plan's sections (newest first)
+   */
+  async listGamePlanVersions(ctx) {
+    const currentUser = await authenticateRequest(ctx);
+    if (!currentUser) {
+      return ctx.unauthorized('Authentication required');
+    }
+
+    const { documentId } = ctx.params;
+
+    try {
+      const gamePlan = await strapi.documents('api::sales-game-plan.sales-game-plan').findOne({
+        documentId,
+        populate: ['user']
+      });
+
+      if (!gamePlan) {
+        return ctx.notFound('Game plan not found');
+      }
+
+      // Verify ownership
+      if (gamePlan.user?.id !== currentUser.id) {
+        return ctx.forbidden('You do not have permission to view this game plan');
+      }
+
+      const { default: gamePlanVersions } = await import('../services/game-plan-versions');
+      const versions = await gamePlanVersions.listVersions(Number(gamePlan.id));
+
+      return ctx.send({
+        success: true,
+        data: versions
+      });
+
+    } catch (error) {
+      strapi.log.error('[Game Plan Versions] List error:', error);
+      return ctx.internalServerError({
+        error: {
+          message: 'Failed to list game plan versions',
+          details: error.message
+        }
+      });
+    }
+  },
+
+  /**
+   * GET /api/salespilot/game-plans/:documentId/versions/diff?from=&to=
+   * Line diff per section between two versions (without "to", against the current plan)
+   */
+  async diffGamePlanVersions(ctx) {
+    const currentUser = await authenticateRequest(ctx);
+    if (!currentUser) {
+      return ctx.unauthorized('Authentication required');
+    }
+
+    const { documentId } = ctx.params;
+    const from = parseInt(ctx.query.from as string, 10);
+    const to = ctx.query.to ? parseInt(ctx.query.to as string, 10) : null;
+
+    if (!Number.isInteger(from) || (to !== null && !Number.isInteger(to))) {
+      return ctx.badRequest('from (and optional to) must be version numbers');
+    }
+
+    try {
+      const gamePlan = await strapi.documents('api::sales-game-plan.sales-game-plan').findOne({
+        documentId,
+        populate: ['user']
+      });
+
+      if (!gamePlan) {
+        return ctx.notFound('Game plan not found');
+      }
+
+      // Verify ownership
+      if (gamePlan.user?.id !== currentUser.id) {
+        return ctx.forbidden('You do not have permission to view this game plan');
+      }
+
+      const { default: gamePlanVersions } = await import('../services/game-plan-versions');
+      const fromVersion = await gamePlanVersions.getVersion(Number(gamePlan.id), from);
+      const toVersion = to !== null ? await gamePlanVersions.getVersion(Number(gamePlan.id), to) : null;
+
+      if (!fromVersion || (to !== null && !toVersion)) {
+        return ctx.notFound('Version not found');
+      }
+
+      return ctx.send({
+        success: true,
+        data: {
+          from,
+          to,
+          sections: gamePlanVersions.diff(
+            fromVersion.sections,
+            toVersion ? toVersion.sections : gamePlanVersions.snapshot(gamePlan)
+          )
+        }
+      });
+
+    } catch (error) {
+      strapi.log.error('[Game Plan Versions] Diff error:', error);
+      return ctx.internalServerError({
+        error: {
+          message: 'Failed to diff game plan versions',
+          details: error.message
+        }
+      });
+    }
+  },
+
+  /**
+   * POST /api/salespilot/game-plans/:documentId/versions/:versionNumber/restore
+   * Restore one section ({ section }) or the whole plan to a version; the restore becomes a new version
+   */
+  async restoreGamePlanVersion(ctx) {
+    const currentUser = await authenticateRequest(ctx);
+    if (!currentUser) {
+      return ctx.unauthorized('Authentication required');
+    }
+
+    const { documentId } = ctx.params;
+    const versionNumber = parseInt(ctx.params.versionNumber, 10);
+    const { section } = ctx.request.body || {};
+
+    if (!Number.isInteger(versionNumber)) {
+      return ctx.badRequest('Version number is required');
+    }
+
+    try {
+      const { default: gamePlanVersions } = await import('../services/game-plan-versions');
+
+      if (section && !gamePlanVersions.isVersionedSection(section)) {
+        return ctx.badRequest('Invalid section name');
+      }
+
+      const gamePlan = await strapi.documents('api::sales-game-plan.sales-game-plan').findOne({
+        documentId,
+        populate: ['user']
+      });
+
+      if (!gamePlan) {
+        return ctx.notFound('Game plan not found');
+      }
+
+      // Verify ownership
+      if (gamePlan.user?.id !== currentUser.id) {
+        return ctx.forbidden('You do not have permission to modify this game plan');
+      }
+
+      const version = await gamePlanVersions.getVersion(Number(gamePlan.id), versionNumber);
+      if (!version) {
+        return ctx.notFound('Version not found');
+      }
+
+      const updatedGamePlan = await gamePlanVersions.restore({
+        gamePlan,
+        version,
+        section,
+        authorId: currentUser.id
+      });
+
+      strapi.log.info(`[Game Plan Versions] User ${currentUser.id} restored ${section ? `section '${section}'` : 'all sections'} of game plan ${documentId} to version ${versionNumber}`);
+
+      return ctx.send({
+        success: true,
+        message: 'Version restored successfully',
+        gamePlan: updatedGamePlan
+      });
+
+    } catch (error) {
+      strapi.log.error('[Game Plan Versions] Restore error:', error);
+      return ctx.internalServerError({
+        error: {
+          message: 'Failed to restore game plan version',
+          details: error.message
+        }
+      });
+    }
+  },
+
   /**
    * POST /api/salespilot/regenerate-section
    * Regenerate a specific section of a game plan with AI
@@ -1342,7 +1566,8 @@ export default {
             researchData: (gamePlan as any).researchData || {},
             chatContext,
             mode,
-            existingContent
+            existingContent,
+            userId: currentUser.id
           });
           break;
 
@@ -1356,7 +1581,8 @@ export default {
             detailLevel: gamePlan.personaDetailLevel || 'Standard',
             chatContext,
             mode,
-            existingContent
+            existingContent,
+            userId: currentUser.id
           });
           break;
 
@@ -1372,7 +1598,8 @@ export default {
             contactPersona: gamePlan.contactPersona || '',
             chatContext,
             mode,
-            existingContent
+            existingContent,
+            userId: currentUser.id
           });
           break;
 
@@ -1385,7 +1612,8 @@ export default {
             contactPersona: gamePlan.contactPersona || '',
             chatContext,
             mode,
-            existingContent
+            existingContent,
+            userId: currentUser.id
           });
           break;
 
@@ -1398,12 +1626,13 @@ export default {
             contactPersona: gamePlan.contactPersona || '',
             chatContext,
             mode,
-            existingContent
+            existingContent,
+            userId: currentUser.id
           });
           break;
       }
 
-      // Content generated - frontend will call applyImprovement to save
+      // Content generated - frontend will call applyImprovement (source: 'regenerate_section') to save
       strapi.log.info(`[Regenerate Section] Generated new content for section "${section}"`);
 
       return ctx.send({
@@ -1417,6 +1646,11 @@ export default {
 
     } catch (error) {
       strapi.log.error('[Regenerate Section] Error:', error);
+
+      if (error.code === AI_BUDGET_EXCEEDED) {
+        return ctx.tooManyRequests(error.message);
+      }
+
       return ctx.internalServerError({
         error: {
           message: 'Failed to regenerate section',
@@ -1466,13 +1700,23 @@ export default {
 
       strapi.log.info(`[Delete Section] User ${currentUser.id} deleting section "${section}" from game plan ${gamePlanId}`);
 
-      // Delete the section by setting it to null
-      await strapi.documents('api::sales-game-plan.sales-game-plan').update({
-        documentId: gamePlanId,
-        data: {
-          [section]: null
+      // Delete the section by setting it to null, keeping the deleted text in the version history
+      // so it can be restored
+      const { default: gamePlanVersions } = await import('../services/game-plan-versions');
+      await gamePlanVersions.withVersion(
+        () => strapi.documents('api::sales-game-plan.sales-game-plan').update({
+          documentId: gamePlanId,
+          data: {
+            [section]: null
+          }
+        }),
+        {
+          before: gamePlan,
+          authorId: currentUser.id,
+          source: 'delete_section',
+          section
         }
-      });
+      );
 
       strapi.log.info(`[Delete Section] Successfully deleted section "${section}"`);
 
@@ -56,6 +56,14 @@ export default {
         auth: false  // Auth handled in controller (Polling endpoint)
       }
     },
+    {
+      method: 'POST',
+      path: '/salespilot/analysis-resume/:analysisId',
+      handler: 'salespilot-conversation.resumeAnalysis',
+      config: {
+        auth: false  // Auth handled in controller
+      }
+    },
     {
       method: 'POST',
       path: '/salespilot/generate-materials',
@@ -120,6 +128,30 @@ export default {
         auth: false  // Auth handled in controller
       }
     },
+    {
+      method: 'GET',
+      path: '/salespilot/game-plans/:documentId/versions',
+      handler: 'salespilot-conversation.listGamePlanVersions',
+      config: {
+        auth: false  // Auth handled in controller
+      }
+    },
+    {
+      method: 'GET',
+      path: '/salespilot/game-plans/:documentId/versions/diff',
+      handler: 'salespilot-conversation.diffGamePlanVersions',
+      config: {
+        auth: false  // Auth handled in controller
+      }
+    },
+    {
+      method: 'POST',
+      path: '/salespilot/game-plans/:documentId/versions/:versionNumber/restore',
+      handler: 'salespilot-conversation.restoreGamePlanVersion',
+      config: {
+        auth: false  // Auth handled in controller
+      }
+    },
     {
       method: 'POST',
       path: '/salespilot/regenerate-section',
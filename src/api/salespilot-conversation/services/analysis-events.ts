@@ -0,0 +1,146 @@
+/**
+ * analysis-events.ts
+ *
+ * Section events of a running analysis, stored in the analysis-event collection so the
+ * progress stream can replay them on any instance (and after a reconnect)
+ *
+ * Event types:
+ * - phase-start: a section started (again, on a retry - the client should clear its text)
+ * - section-delta: the next piece of a section's text
+ * - section-complete: a section finished, with its full text
+ * - section-error: a section attempt failed (willRetry tells whether another attempt follows)
+ *
+ * Deltas are buffered briefly and written in batches. Writes for one analysis are applied
+ * in order, so event ids increase in the order the events happened.
+ */
+
+const EVENT_UID = 'api::analysis-event.analysis-event';
+
+// Index serving the progress stream's "events after id n" polls
+const ANALYSIS_ID_INDEX = 'analysis_events_analysis_id_id_idx';
+
+// How long streamed text is collected before it is written as one delta
+const DELTA_FLUSH_MS = 250;
+
+type AnalysisEventType = 'phase-start' | 'section-delta' | 'section-complete' | 'section-error';
+
+interface AnalysisEvent {
+  id: number;
+  type: AnalysisEventType;
+  section: string | null;
+  data: any;
+}
+
+class AnalysisEventLog {
+  // Pending writes per analysis
+  private writes = new Map<string, Promise<void>>();
+  // Streamed text not written yet, per analysis and section
+  private deltas = new Map<string, { analysisId: string; section: string; text: string; timer: NodeJS.Timeout }>();
+
+  /**
+   * Create the (analysis_id, id) index (called from bootstrap, safe to run on every startup)
+   */
+  async ensureIndex(): Promise<void> {
+    await strapi.db.connection.raw(`
+      CREATE INDEX IF NOT EXISTS ${ANALYSIS_ID_INDEX}
+      ON analysis_events (analysis_id, id)
+    `);
+  }
+
+  /**
+   * Queue a write behind the earlier ones for the same analysis
+   */
+  private enqueue(analysisId: string, write: () => Promise<void>): Promise<void> {
+    const next = (this.writes.get(analysisId) || Promise.resolve()).then(write);
+
+    // Keep the chain going after a failed write, and drop it once nothing is queued behind it
+    const settled = next.catch(error => console.error(`[AnalysisEvents] Write failed for ${analysisId}:`, error));
+    this.writes.set(analysisId, settled);
+    settled.then(() => {
+      if (this.writes.get(analysisId) === settled) {
+        this.writes.delete(analysisId);
+      }
+    });
+
+    return settled;
+  }
+
+  /**
+   * Record an event (any buffered text of the same section is written first)
+   */
+  async record(analysisId: string, type: AnalysisEventType, section: string | null, data: any): Promise<void> {
+    if (section) {
+      this.flushDelta(analysisId, section);
+    }
+
+    await this.enqueue(analysisId, async () => {
+      await strapi.db.query(EVENT_UID).create({
+        data: { analysis_id: analysisId, event_type: type, section, data }
+      });
+    });
+  }
+
+  /**
+   * Add streamed text to a section; it is written as a section-delta shortly after
+   */
+  appendDelta(analysisId: string, section: string, text: string): void {
+    const key = `${analysisId}:${section}`;
+    const buffered = this.deltas.get(key);
+
+    if (buffered) {
+      buffered.text += text;
+      return;
+    }
+
+    this.deltas.set(key, {
+      analysisId,
+      section,
+      text,
+      timer: setTimeout(() => this.flushDelta(analysisId, section), DELTA_FLUSH_MS)
+    });
+  }
+
+  /**
+   * Write a section's buffered text now
+   */
+  private flushDelta(analysisId: string, section: string): void {
+    const key = `${analysisId}:${section}`;
+    const buffered = this.deltas.get(key);
+
+    if (!buffered) {
+      return;
+    }
+
+    clearTimeout(buffered.timer);
+    this.deltas.delete(key);
+
+    this.enqueue(analysisId, async () => {
+      await strapi.db.query(EVENT_UID).create({
+        data: { analysis_id: analysisId, event_type: 'section-delta', section, data: { text: buffered.text } }
+      });
+    });
+  }
+
+  /**
+   * Events of an analysis after the given event id, oldest first
+   */
+  async listSince(analysisId: string, afterId: number = 0, limit: number = 500): Promise<AnalysisEvent[]> {
+    const events = await strapi.db.query(EVENT_UID).findMany({
+      where: { analysis_id: analysisId, id: { $gt: afterId } },
+      orderBy: { id: 'asc' },
+      limit
+    });
+
+    return events.map(event => ({
+      id: event.id,
+      type: event.event_type,
+      section: event.section,
+      data: event.data
+    }));
+  }
+}
+
+// Export singleton instance
+export default new AnalysisEventLog();
+
+export type { AnalysisEvent, AnalysisEventType };
@@ -5,11 +5,8 @@
  * Allows iterative refinement of game plan sections
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import aiService from '../../../services/ai-service';
+import { AI_BUDGET_EXCEEDED } from '../../../services/ai-usage-service';
 
 interface ImprovementRequest {
   section: string;           // e.g., 'companyAnalysis', 'contactPersona'
@@ -20,6 +17,7 @@ interface ImprovementRequest {
     contactName?: string;
     meetingSubject?: string;
   };
+  userId?: number | null;    // User the AI usage is billed to
 }
 
 interface ImprovementResponse {
@@ -87,21 +85,15 @@ ${improvementRequest}
 Please improve the content according to the user's request. Follow the format specified in your instructions.`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-5-20250929',
-      max_tokens: 4000,
-      temperature: 0.7,
+    const fullResponse = await aiService.complete({
+      feature: 'content_improvement',
+      userId: request.userId,
       system: systemPrompt,
-      messages: [
-        {
-          role: 'user',
-          content: userPrompt
-        }
-      ]
+      prompt: userPrompt,
+      maxTokens: 4000,
+      temperature: 0.7
     });
 
-    const fullResponse = response.content[0].type === 'text' ? response.content[0].text : '';
-
     // Parse the response
     const improvedMatch = fullResponse.match(/---IMPROVED CONTENT---\n([\s\S]*?)\n---CHANGES SUMMARY---/);
     const changesMatch = fullResponse.match(/---CHANGES SUMMARY---\n([\s\S]*?)\n---RATIONALE---/);
@@ -126,6 +118,7 @@ Please improve the content according to the user's request. Follow the format sp
     };
 
   } catch (error) {
+    if (error.code === AI_BUDGET_EXCEEDED) throw error;
     console.error('Content improvement error:', error);
     throw new Error('Failed to improve content. Please try again.');
   }
@@ -5,14 +5,23 @@
  * Uses Claude API to transform research data into actionable sales intelligence
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import progressTracker from './progress-tracker';
+import analysisEvents from './analysis-events';
+import aiService, { CompletionRequest } from '../../../services/ai-service';
+import { AI_BUDGET_EXCEEDED } from '../../../services/ai-usage-service';
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY
-});
+// A failing analysis phase is retried (with exponential backoff) before the analysis fails
+const PHASE_MAX_ATTEMPTS = Math.max(1, parseInt(process.env.GAME_PLAN_PHASE_MAX_ATTEMPTS || '', 10) || 3);
+const PHASE_RETRY_BASE_MS = 2000;
 
-const CLAUDE_MODEL = 'claude-sonnet-4-5-20250929';
+// Sections whose dependencies are done run side by side, up to this many at once
+const SECTION_CONCURRENCY = Math.max(1, parseInt(process.env.GAME_PLAN_SECTION_CONCURRENCY || '', 10) || 3);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Streams through onText when given, so the analysis progress stream can show the section as it is written
+const completeSection = (request: CompletionRequest, onText?: (text: string) => void): Promise<string> =>
+  onText ? aiService.completeStreaming(request, onText) : aiService.complete(request);
 
 /**
  * Generate Company Landscape Analysis
@@ -24,8 +33,10 @@ export async function generateCompanyAnalysis(params: {
   chatContext?: string;
   mode?: string;
   existingContent?: string;
+  userId?: number | null;
+  onText?: (text: string) => void; // Optional - receives the section text as it streams
 }): Promise<string> {
-  const { companyName, industry, researchData, chatContext, mode, existingContent } = params;
+  const { companyName, industry, researchData, chatContext, mode, existingContent, userId, onText } = params;
 
   try {
     const companyData = researchData?.companies?.[0] || {};
@@ -81,15 +92,15 @@ Generate a structured company landscape analysis with these sections:
 
 Keep each section concise. Use bullet points. Be specific and actionable.`;
 
-    const response = await anthropic.messages.create({
-      model: CLAUDE_MODEL,
-      max_tokens: 2000,
-      temperature: 0.7,
-      messages: [{ role: 'user', content: prompt }]
-    });
-
-    return response.content[0].type === 'text' ? response.content[0].text : '';
+    return await completeSection({
+      feature: 'game_plan.company_analysis',
+      userId,
+      prompt,
+      maxTokens: 2000,
+      temperature: 0.7
+    }, onText);
   } catch (error) {
+    if (error.code === AI_BUDGET_EXCEEDED) throw error;
     console.error('[GamePlanGenerator] Company analysis error:', error);
     throw new Error('Failed to generate company analysis');
   }
@@ -108,8 +119,10 @@ export async function generateContactPersona(params: {
   chatContext?: string;
   mode?: string;
   existingContent?: string;
+  userId?: number | null;
+  onText?: (text: string) => void; // Optional - receives the section text as it streams
 }): Promise<string> {
-  const { contactName, contactTitle, companyName, industry, researchData, detailLevel, chatContext, mode, existingContent } = params;
+  const { contactName, contactTitle, companyName, industry, researchData, detailLevel, chatContext, mode, existingContent, userId, onText } = params;
 
   try {
     const contactData = researchData?.contacts?.[0] || {};
@@ -180,15 +193,15 @@ Format with headers and bullet points. Be specific and actionable.`;
 
     const maxTokens = { Brief: 500, Standard: 1200, Detailed: 2500 };
 
-    const response = await anthropic.messages.create({
-      model: CLAUDE_MODEL,
-      max_tokens: maxTokens[detailLevel],
-      temperature: 0.7,
-      messages: [{ role: 'user', content: prompt }]
-    });
-
-    return response.content[0].type === 'text' ? response.content[0].text : '';
+    return await completeSection({
+      feature: 'game_plan.contact_persona',
+      userId,
+      prompt,
+      maxTokens: maxTokens[detailLevel],
+      temperature: 0.7
+    }, onText);
   } catch (error) {
+    if (error.code === AI_BUDGET_EXCEEDED) throw error;
     console.error('[GamePlanGenerator] Persona generation error:', error);
     throw new Error('Failed to generate contact persona');
   }
@@ -206,8 +219,10 @@ export async function generateInfluenceTactics(params: {
   framework: string;
   companyAnalysis: string;
   contactPersona: string;
+  userId?: number | null;
+  onText?: (text: string) => void; // Optional - receives the section text as it streams
 }): Promise<string> {
-  const { contactName, contactTitle, companyName, meetingSubject, desiredOutcome, framework, companyAnalysis, contactPersona } = params;
+  const { contactName, contactTitle, companyName, meetingSubject, desiredOutcome, framework, companyAnalysis, contactPersona, userId, onText } = params;
 
   try {
     const frameworkInstructions = {
@@ -244,15 +259,15 @@ Format each as:
 
 Be concrete and actionable.`;
 
-    const response = await anthropic.messages.create({
-      model: CLAUDE_MODEL,
-      max_tokens: 1500,
-      temperature: 0.7,
-      messages: [{ role: 'user', content: prompt }]
-    });
-
-    return response.content[0].type === 'text' ? response.content[0].text : '';
+    return await completeSection({
+      feature: 'game_plan.influence_tactics',
+      userId,
+      prompt,
+      maxTokens: 1500,
+      temperature: 0.7
+    }, onText);
   } catch (error) {
+    if (error.code === AI_BUDGET_EXCEEDED) throw error;
     console.error('[GamePlanGenerator] Influence tactics error:', error);
     throw new Error('Failed to generate influence tactics');
   }
@@ -267,8 +282,10 @@ export async function generateDiscussionPoints(params: {
   desiredOutcome: string;
   companyAnalysis: string;
   contactPersona: string;
+  userId?: number | null;
+  onText?: (text: string) => void; // Optional - receives the section text as it streams
 }): Promise<string> {
-  const { companyName, meetingSubject, desiredOutcome, companyAnalysis, contactPersona } = params;
+  const { companyName, meetingSubject, desiredOutcome, companyAnalysis, contactPersona, userId, onText } = params;
 
   try {
     const prompt = `You are a sales strategist creating a discussion guide.
@@ -292,15 +309,15 @@ Generate a structured discussion guide with:
 
 Format with headers and bullet points. Include specific questions.`;
 
-    const response = await anthropic.messages.create({
-      model: CLAUDE_MODEL,
-      max_tokens: 1500,
-      temperature: 0.7,
-      messages: [{ role: 'user', content: prompt }]
-    });
-
-    return response.content[0].type === 'text' ? response.content[0].text : '';
+    return await completeSection({
+      feature: 'game_plan.discussion_points',
+      userId,
+      prompt,
+      maxTokens: 1500,
+      temperature: 0.7
+    }, onText);
   } catch (error) {
+    if (error.code === AI_BUDGET_EXCEEDED) throw error;
     console.error('[GamePlanGenerator] Discussion points error:', error);
     throw new Error('Failed to generate discussion points');
   }
@@ -315,8 +332,10 @@ export async function generateObjectionHandling(params: {
   detailLevel: 'Brief' | 'Standard' | 'Detailed';
   companyAnalysis: string;
   contactPersona: string;
+  userId?: number | null;
+  onText?: (text: string) => void; // Optional - receives the section text as it streams
 }): Promise<string> {
-  const { companyName, meetingSubject, detailLevel, companyAnalysis, contactPersona } = params;
+  const { companyName, meetingSubject, detailLevel, companyAnalysis, contactPersona, userId, onText } = params;
 
   try {
     const objectionCounts = { Brief: 3, Standard: 7, Detailed: 12 };
@@ -349,22 +368,90 @@ Make objections realistic and responses persuasive.`;
 
     const maxTokens = { Brief: 800, Standard: 1800, Detailed: 3000 };
 
-    const response = await anthropic.messages.create({
-      model: CLAUDE_MODEL,
-      max_tokens: maxTokens[detailLevel],
-      temperature: 0.7,
-      messages: [{ role: 'user', content: prompt }]
-    });
-
-    return response.content[0].type === 'text' ? response.content[0].text : '';
+    return await completeSection({
+      feature: 'game_plan.objection_handling',
+      userId,
+      prompt,
+      maxTokens: maxTokens[detailLevel],
+      temperature: 0.7
+    }, onText);
   } catch (error) {
+    if (error.code === AI_BUDGET_EXCEEDED) throw error;
     console.error('[GamePlanGenerator] Objection handling error:', error);
     throw new Error('Failed to generate objection handling');
   }
 }
 
+/**
+ * One step of the complete analysis; it starts once every section in dependsOn has an output
+ */
+interface SectionTask {
+  key: string;
+  phaseName: string;
+  stage: string;
+  estimate: number; // seconds
+  dependsOn: string[];
+  run: (outputs: Record<string, any>, onText?: (text: string) => void) => Promise<any>;
+}
+
+/**
+ * Run tasks as their dependencies finish, at most `concurrency` at a time
+ * When a task fails no new tasks start; the running ones are allowed to finish (so their
+ * outputs are stored for a resume) and the first error is thrown.
+ */
+async function runSectionGraph(
+  tasks: SectionTask[],
+  concurrency: number,
+  runTask: (task: SectionTask, outputs: Record<string, any>) => Promise<any>
+): Promise<Record<string, any>> {
+  const outputs: Record<string, any> = {};
+  const pending = [...tasks];
+  const running = new Map<string, Promise<void>>();
+  let failure: any = null;
+
+  while ((pending.length > 0 && !failure) || running.size > 0) {
+    while (!failure && running.size < concurrency) {
+      const index = pending.findIndex(task => task.dependsOn.every(key => key in outputs));
+      if (index === -1) {
+        break;
+      }
+
+      const [task] = pending.splice(index, 1);
+      running.set(task.key, runTask(task, outputs)
+        .then(value => {
+          outputs[task.key] = value;
+        })
+        .catch(error => {
+          failure = failure || error;
+        })
+        .finally(() => {
+          running.delete(task.key);
+        }));
+    }
+
+    if (running.size === 0) {
+      if (pending.length > 0 && !failure) {
+        throw new Error(`Game plan sections have unresolvable dependencies: ${pending.map(task => task.key).join(', ')}`);
+      }
+      break;
+    }
+
+    await Promise.race(running.values());
+  }
+
+  if (failure) {
+    throw failure;
+  }
+
+  return outputs;
+}
+
 /**
  * Generate Complete Game Plan Analysis
+ *
+ * Sections run as a dependency graph: research first, then company analysis and persona side by side,
+ * then tactics, discussion points and objection handling side by side, then materials.
+ * GAME_PLAN_SECTION_CONCURRENCY caps how many run at once (default 3).
  */
 export async function generateCompleteAnalysis(params: {
   companyName: string;
@@ -380,10 +467,13 @@ export async function generateCompleteAnalysis(params: {
   companyDomain?: string; // Optional - for research
   contactLinkedIn?: string; // Optional - for research
   additionalParties?: any[]; // Optional - for research
-  selectedMaterials?: string[]; // Optional - materials to generate in Phase 7
+  selectedMaterials?: string[]; // Optional - materials to generate in the last phase
   templateChoice?: string; // Optional - template for PDFs (default: 'modern')
   analysisId?: string; // Optional - for progress tracking
   globalStartTime?: Date; // Optional - global start time from research phase 1
+  userId?: number | null; // Optional - user the AI usage is billed to
+  completedPhases?: Record<string, any>; // Optional - outputs stored by an interrupted run, reused instead of regenerated
+  onPhaseComplete?: (key: string, value: any) => Promise<void>; // Optional - stores each phase output as it finishes
   onProgress?: (stage: string, percentage: number) => void;
 }): Promise<any> {
   const {
@@ -404,225 +494,344 @@ export async function generateCompleteAnalysis(params: {
     templateChoice,
     analysisId,
     globalStartTime,
+    userId,
+    completedPhases = {},
+    onPhaseComplete,
     onProgress
   } = params;
 
-  // Helper function to report progress to both callback and tracker
-  const reportProgress = (phaseNumber: number, stage: string, percentage: number) => {
-    // Report to callback (backward compatibility)
-    if (onProgress) onProgress(stage, percentage);
+  const detailLevel = personaDetailLevel as 'Brief' | 'Standard' | 'Detailed';
+  const withMaterials = !!selectedMaterials && selectedMaterials.length > 0;
+
+  const tasks: SectionTask[] = [
+    {
+      key: 'researchData',
+      phaseName: 'Research',
+      stage: 'Gathering intelligence',
+      estimate: 30,
+      dependsOn: [],
+      run: async () => {
+        if (researchData) {
+          // Research was performed externally - just acknowledge completion
+          console.log('[GamePlanGenerator] Using provided research data');
+          return researchData;
+        }
+
+        // Perform research internally
+        console.log('[GamePlanGenerator] No research data provided - performing research internally');
+
+        try {
+          // Import the service (avoid circular dependency)
+          const salespilotService = strapi.service('api::salespilot-conversation.salespilot-conversation');
+
+          const research = await salespilotService.performWebResearch({
+            companyName,
+            companyDomain,
+            contactName,
+            contactTitle,
+            contactLinkedIn,
+            industry,
+            researchDepth: researchDepth || 'Standard',
+            additionalParties
+          }, userId);
+
+          console.log('[GamePlanGenerator] Internal research completed');
+          return research;
+        } catch (researchError) {
+          console.error('[GamePlanGenerator] Internal research failed:', researchError);
+          // Continue with empty research data
+          return {
+            companies: [],
+            contacts: [],
+            additionalInfo: []
+          };
+        }
+      }
+    },
+    {
+      key: 'companyAnalysis',
+      phaseName: 'Company Analysis',
+      stage: 'Analyzing company landscape',
+      estimate: 30,
+      dependsOn: ['researchData'],
+      run: (outputs, onText) => generateCompanyAnalysis({
+        companyName,
+        industry,
+        researchData: outputs.researchData,
+        userId,
+        onText
+      })
+    },
+    {
+      key: 'contactPersona',
+      phaseName: 'Contact Persona',
+      stage: `Generating ${personaDetailLevel} persona`,
+      estimate: 30,
+      dependsOn: ['researchData'],
+      run: (outputs, onText) => generateContactPersona({
+        contactName,
+        contactTitle,
+        companyName,
+        industry,
+        researchData: outputs.researchData,
+        detailLevel,
+        userId,
+        onText
+      })
+    },
+    {
+      key: 'influenceTactics',
+      phaseName: 'Influence Tactics',
+      stage: 'Generating influence tactics',
+      estimate: 30,
+      dependsOn: ['companyAnalysis', 'contactPersona'],
+      run: (outputs, onText) => generateInfluenceTactics({
+        contactName,
+        contactTitle,
+        companyName,
+        meetingSubject,
+        desiredOutcome,
+        framework: influenceFramework,
+        companyAnalysis: outputs.companyAnalysis,
+        contactPersona: outputs.contactPersona,
+        userId,
+        onText
+      })
+    },
+    {
+      key: 'discussionPoints',
+      phaseName: 'Discussion Points',
+      stage: 'Generating discussion points',
+      estimate: 30,
+      dependsOn: ['companyAnalysis', 'contactPersona'],
+      run: (outputs, onText) => generateDiscussionPoints({
+        companyName,
+        meetingSubject,
+        desiredOutcome,
+        companyAnalysis: outputs.companyAnalysis,
+        contactPersona: outputs.contactPersona,
+        userId,
+        onText
+      })
+    },
+    {
+      key: 'objectionHandling',
+      phaseName: 'Objection Handling',
+      stage: 'Generating objection handling',
+      estimate: 30,
+      dependsOn: ['companyAnalysis', 'contactPersona'],
+      run: (outputs, onText) => generateObjectionHandling({
+        companyName,
+        meetingSubject,
+        detailLevel,
+        companyAnalysis: outputs.companyAnalysis,
+        contactPersona: outputs.contactPersona,
+        userId,
+        onText
+      })
+    }
+  ];
+
+  if (withMaterials) {
+    tasks.push({
+      key: 'generatedMaterials',
+      phaseName: 'Materials Generation',
+      stage: 'Generating materials',
+      estimate: 30,
+      dependsOn: ['influenceTactics', 'discussionPoints', 'objectionHandling'],
+      run: outputs => generateSelectedMaterials({
+        gamePlan: {
+          primaryCompanyName: companyName,
+          primaryContactName: contactName,
+          primaryContactTitle: contactTitle,
+          meetingSubject,
+          desiredOutcome,
+          companyAnalysis: outputs.companyAnalysis,
+          contactPersona: outputs.contactPersona,
+          influenceTactics: outputs.influenceTactics,
+          discussionPoints: outputs.discussionPoints,
+          objectionHandling: outputs.objectionHandling
+        },
+        selectedMaterials,
+        templateChoice,
+        userId
+      })
+    });
+  }
+
+  const phaseNumberOf = (key: string) => tasks.findIndex(task => task.key === key) + 1;
+  let finishedCount = tasks.filter(task => completedPhases[task.key] !== undefined).length;
 
-    // Report to progress tracker with phase timing (if analysisId provided)
+  // Record a phase's status on the tracker (if analysisId provided)
+  const reportPhaseStatus = async (key: string, update: Parameters<typeof progressTracker.setPhaseStatus>[2]) => {
     if (analysisId) {
-      progressTracker.updatePhaseProgress(analysisId, phaseNumber, stage, percentage);
+      await progressTracker.setPhaseStatus(analysisId, key, update);
     }
   };
 
-  try {
-    console.log('[GamePlanGenerator] Starting complete analysis generation');
+  // Run a phase unless an earlier run already stored its output, retrying failures
+  const runPhase = async (task: SectionTask, outputs: Record<string, any>) => {
+    const phaseNumber = phaseNumberOf(task.key);
+
+    if (completedPhases[task.key] !== undefined) {
+      console.log(`[GamePlanGenerator] Reusing stored ${task.key} (phase ${phaseNumber})`);
+      return completedPhases[task.key];
+    }
 
-    // Initialize phase timings if analysisId provided
+    // Report to callback (backward compatibility) and to the tracker's phase timings
+    if (onProgress) onProgress(`${task.stage}...`, Math.round((finishedCount / tasks.length) * 100));
     if (analysisId) {
-      progressTracker.initializePhaseTimings(analysisId, globalStartTime);
+      await progressTracker.startPhase(analysisId, phaseNumber);
     }
 
-    // Phase 1: Research (15%)
-    let actualResearchData = researchData;
+    // Section text is streamed to the analysis progress stream as it is generated
+    const onText = analysisId
+      ? (text: string) => analysisEvents.appendDelta(analysisId, task.key, text)
+      : undefined;
 
-    if (!actualResearchData) {
-      // Perform research internally
-      console.log('[GamePlanGenerator] No research data provided - performing research internally');
-      reportProgress(1, 'Gathering intelligence', 15);
+    for (let attempt = 1; ; attempt++) {
+      await reportPhaseStatus(task.key, { status: 'running', attempts: attempt, error: null, startedAt: new Date().toISOString() });
+      if (analysisId) {
+        await analysisEvents.record(analysisId, 'phase-start', task.key, { phaseNumber, phaseName: task.phaseName, attempt });
+      }
 
       try {
-        // Import the service (avoid circular dependency)
-        const salespilotService = strapi.service('api::salespilot-conversation.salespilot-conversation');
-
-        actualResearchData = await salespilotService.performWebResearch({
-          companyName,
-          companyDomain,
-          contactName,
-          contactTitle,
-          contactLinkedIn,
-          industry,
-          researchDepth: researchDepth || 'Standard',
-          additionalParties
-        }, null); // No userId needed for internal call
-
-        console.log('[GamePlanGenerator] Internal research completed');
-      } catch (researchError) {
-        console.error('[GamePlanGenerator] Internal research failed:', researchError);
-        // Continue with empty research data
-        actualResearchData = {
-          companies: [],
-          contacts: [],
-          additionalInfo: []
-        };
-      }
-    } else {
-      // Research was performed externally - just acknowledge completion
-      console.log('[GamePlanGenerator] Using provided research data');
-      reportProgress(1, 'Gathering intelligence', 15);
-    }
+        const value = await task.run(outputs, onText);
 
-    // Phase 2: Company Analysis (30%)
-    reportProgress(2, 'Analyzing company landscape...', 30);
-    const companyAnalysis = await generateCompanyAnalysis({
-      companyName,
-      industry,
-      researchData: actualResearchData
-    });
+        if (onPhaseComplete) {
+          await onPhaseComplete(task.key, value);
+        }
+        await reportPhaseStatus(task.key, { status: 'completed', completedAt: new Date().toISOString() });
+        if (analysisId) {
+          // Research and materials are not text; their outputs arrive with the final result
+          await analysisEvents.record(analysisId, 'section-complete', task.key, {
+            phaseNumber,
+            phaseName: task.phaseName,
+            content: typeof value === 'string' ? value : null
+          });
+        }
 
-    // Phase 3: Contact Persona (45%)
-    reportProgress(3, `Generating ${personaDetailLevel} persona...`, 45);
-    const contactPersona = await generateContactPersona({
-      contactName,
-      contactTitle,
-      companyName,
-      industry,
-      researchData: actualResearchData,
-      detailLevel: personaDetailLevel as 'Brief' | 'Standard' | 'Detailed'
-    });
+        finishedCount++;
+        if (analysisId) {
+          await progressTracker.finishPhase(analysisId, phaseNumber);
+        }
 
-    // Phase 4: Influence Tactics (60%)
-    reportProgress(4, 'Generating influence tactics...', 60);
-    const influenceTactics = await generateInfluenceTactics({
-      contactName,
-      contactTitle,
-      companyName,
-      meetingSubject,
-      desiredOutcome,
-      framework: influenceFramework,
-      companyAnalysis,
-      contactPersona
-    });
+        return value;
+      } catch (error) {
+        // Over budget will not pass on a retry
+        const retry = attempt < PHASE_MAX_ATTEMPTS && error.code !== AI_BUDGET_EXCEEDED;
 
-    // Phase 5: Discussion Points (75%)
-    reportProgress(5, 'Generating discussion points...', 75);
-    const discussionPoints = await generateDiscussionPoints({
-      companyName,
-      meetingSubject,
-      desiredOutcome,
-      companyAnalysis,
-      contactPersona
-    });
+        console.error(`[GamePlanGenerator] Phase ${phaseNumber} (${task.key}) attempt ${attempt}/${PHASE_MAX_ATTEMPTS} failed:`, error.message);
+        await reportPhaseStatus(task.key, { status: retry ? 'running' : 'failed', error: error.message });
+        if (analysisId) {
+          await analysisEvents.record(analysisId, 'section-error', task.key, { phaseNumber, message: error.message, attempt, willRetry: retry });
+        }
 
-    // Phase 6: Objection Handling (90%)
-    reportProgress(6, 'Generating objection handling...', 90);
-    const objectionHandling = await generateObjectionHandling({
-      companyName,
-      meetingSubject,
-      detailLevel: personaDetailLevel as 'Brief' | 'Standard' | 'Detailed',
-      companyAnalysis,
-      contactPersona
-    });
+        if (!retry) {
+          throw error;
+        }
 
-    // Phase 7: Materials Generation (100%) - Optional
-    console.log('[GamePlanGenerator] Phase 7 check - selectedMaterials:', selectedMaterials);
-    let generatedMaterials = null;
-    if (selectedMaterials && selectedMaterials.length > 0) {
-      console.log('[GamePlanGenerator] Phase 7 EXECUTING - generating materials');
-      reportProgress(7, 'Generating materials...', 100);
-
-      // Import material generation services
-      const materialGenerator = await import('./material-generator');
-      const pdfGenerator = await import('./pdf-generator');
-
-      // Create temporary game plan object for material generation
-      const tempGamePlan = {
-        primaryCompanyName: companyName,
-        primaryContactName: contactName,
-        primaryContactTitle: contactTitle,
-        meetingSubject,
-        desiredOutcome,
-        companyAnalysis,
-        contactPersona,
-        influenceTactics,
-        discussionPoints,
-        objectionHandling
-      };
-
-      generatedMaterials = {};
-
-      // Generate pre-meeting email
-      if (selectedMaterials.includes('preMeetingEmail')) {
-        console.log('[GamePlanGenerator] Generating pre-meeting email...');
-        const email = await materialGenerator.generatePreMeetingEmail(tempGamePlan);
-        generatedMaterials.preMeetingEmail = email;
+        await sleep(PHASE_RETRY_BASE_MS * Math.pow(2, attempt - 1));
       }
+    }
+  };
 
-      // Generate post-meeting email
-      if (selectedMaterials.includes('postMeetingEmail')) {
-        console.log('[GamePlanGenerator] Generating post-meeting email...');
-        const email = await materialGenerator.generatePostMeetingEmail(tempGamePlan);
-        generatedMaterials.postMeetingEmail = email;
-      }
+  console.log('[GamePlanGenerator] Starting complete analysis generation');
+
+  // Initialize phase timings and statuses if analysisId provided
+  if (analysisId) {
+    await progressTracker.initializePhaseTimings(analysisId, globalStartTime, tasks.map(task => ({
+      phaseName: task.phaseName,
+      stage: task.stage,
+      estimate: task.estimate,
+      dependsOn: task.dependsOn.map(phaseNumberOf)
+    })));
+    await progressTracker.initializePhaseStatus(analysisId, tasks.map(task => task.key));
+  }
 
-      // Generate agenda PDF
-      if (selectedMaterials.includes('agenda')) {
-        console.log('[GamePlanGenerator] Generating agenda PDF...');
-        try {
-          const pdf = await pdfGenerator.generateAgendaPDF(tempGamePlan, templateChoice || 'modern');
-          console.log('[GamePlanGenerator] Agenda PDF result:', pdf);
-          generatedMaterials.agenda = pdf;
-        } catch (error) {
-          console.error('[GamePlanGenerator] Agenda PDF generation failed:', error);
-          generatedMaterials.agenda = null;
-        }
-      }
+  const outputs = await runSectionGraph(tasks, SECTION_CONCURRENCY, runPhase);
 
-      // Generate presentation PDF
-      if (selectedMaterials.includes('presentation')) {
-        console.log('[GamePlanGenerator] Generating presentation PDF...');
-        try {
-          const pdf = await pdfGenerator.generatePresentationPDF(tempGamePlan, templateChoice || 'modern');
-          console.log('[GamePlanGenerator] Presentation PDF result:', pdf);
-          generatedMaterials.presentation = pdf;
-        } catch (error) {
-          console.error('[GamePlanGenerator] Presentation PDF generation failed:', error);
-          generatedMaterials.presentation = null;
-        }
-      }
+  console.log('[GamePlanGenerator] Complete analysis generated successfully');
 
-      console.log('[GamePlanGenerator] Materials generated successfully');
-    }
+  // Completion is recorded by the caller once the game plan is saved
+  return {
+    companyAnalysis: outputs.companyAnalysis,
+    contactPersona: outputs.contactPersona,
+    influenceTactics: outputs.influenceTactics,
+    discussionPoints: outputs.discussionPoints,
+    objectionHandling: outputs.objectionHandling,
+    generatedMaterials: withMaterials ? outputs.generatedMaterials : null,
+    generatedAt: new Date().toISOString()
+  };
+}
 
-    console.log('[GamePlanGenerator] Complete analysis generated successfully');
+/**
+ * Generate the selected meeting materials (emails and PDFs) for a game plan
+ * A PDF that fails to render is left out (null); email failures fail the phase
+ */
+async function generateSelectedMaterials(params: {
+  gamePlan: any;
+  selectedMaterials: string[];
+  templateChoice?: string;
+  userId?: number | null;
+}): Promise<any> {
+  const { gamePlan, selectedMaterials, templateChoice, userId } = params;
 
-    const result = {
-      companyAnalysis,
-      contactPersona,
-      influenceTactics,
-      discussionPoints,
-      objectionHandling,
-      generatedMaterials,
-      generatedAt: new Date().toISOString()
-    };
+  console.log('[GamePlanGenerator] Generating materials:', selectedMaterials);
 
-    // Mark as completed in progress tracker
-    if (analysisId) {
-      progressTracker.setCompleted(analysisId, result);
-    }
+  // Import material generation services
+  const materialGenerator = await import('./material-generator');
+  const pdfGenerator = await import('./pdf-generator');
 
-    return result;
+  const materials: any = {};
 
-  } catch (error) {
-    console.error('[GamePlanGenerator] Complete analysis error:', error);
+  // Generate pre-meeting email
+  if (selectedMaterials.includes('preMeetingEmail')) {
+    console.log('[GamePlanGenerator] Generating pre-meeting email...');
+    materials.preMeetingEmail = await materialGenerator.generatePreMeetingEmail(gamePlan, userId);
+  }
 
-    // Report error to progress tracker
-    if (analysisId) {
-      progressTracker.setError(analysisId, error.message || 'Analysis generation failed');
+  // Generate post-meeting email
+  if (selectedMaterials.includes('postMeetingEmail')) {
+    console.log('[GamePlanGenerator] Generating post-meeting email...');
+    materials.postMeetingEmail = await materialGenerator.generatePostMeetingEmail(gamePlan, userId);
+  }
+
+  // Generate agenda PDF
+  if (selectedMaterials.includes('agenda')) {
+    console.log('[GamePlanGenerator] Generating agenda PDF...');
+    try {
+      const pdf = await pdfGenerator.generateAgendaPDF(gamePlan, templateChoice || 'modern');
+      console.log('[GamePlanGenerator] Agenda PDF result:', pdf);
+      materials.agenda = pdf;
+    } catch (error) {
+      console.error('[GamePlanGenerator] Agenda PDF generation failed:', error);
+      materials.agenda = null;
     }
+  }
 
-    throw error;
+  // Generate presentation PDF
+  if (selectedMaterials.includes('presentation')) {
+    console.log('[GamePlanGenerator] Generating presentation PDF...');
+    try {
+      const pdf = await pdfGenerator.generatePresentationPDF(gamePlan, templateChoice || 'modern');
+      console.log('[GamePlanGenerator] Presentation PDF result:', pdf);
+      materials.presentation = pdf;
+    } catch (error) {
+      console.error('[GamePlanGenerator] Presentation PDF generation failed:', error);
+      materials.presentation = null;
+    }
   }
+
+  console.log('[GamePlanGenerator] Materials generated successfully');
+  return materials;
 }
 
 /**
  * Validate Claude API configuration
  */
 export function validateClaudeConfig(): { valid: boolean; error?: string } {
-  if (!process.env.ANTHROPIC_API_KEY) {
+  if (!aiService.isConfigured()) {
     return {
       valid: false,
       error: 'Claude API key not configured (ANTHROPIC_API_KEY)'
@@ -0,0 +1,292 @@
+/**
+ * game-plan-versions.ts
+ *
+ * Version history of a game plan's text sections, stored in the sales-game-plan-version collection
+ *
+ * Every edit (applied improvement or regeneration, deleted section, restore) stores a snapshot of
+ * all sections after the change, with its author, source action and the section it touched. The
+ * first edit of a plan also stores the generated text as version 1 ("original") so it can be restored.
+ */
+
+const VERSION_UID = 'api::sales-game-plan-version.sales-game-plan-version';
+const GAME_PLAN_UID = 'api::sales-game-plan.sales-game-plan';
+
+// Text sections covered by the history
+const VERSIONED_SECTIONS = ['companyAnalysis', 'contactPersona', 'influenceTactics', 'discussionPoints', 'objectionHandling'];
+
+// Unique index guaranteeing distinct version numbers per game plan
+const VERSION_KEY_INDEX = 'sales_game_plan_versions_version_key_unique';
+
+// Above this many line comparisons a changed section is shown as fully replaced
+const MAX_DIFF_CELLS = 4000000;
+
+type VersionSource =
+  | 'original'
+  | 'apply_improvement'
+  | 'regenerate_section'
+  | 'delete_section'
+  | 'restore_section'
+  | 'restore_plan';
+
+type SectionSnapshot = Record<string, string | null>;
+
+interface VersionChange {
+  before: any;
+  authorId: number;
+  source: VersionSource;
+  section?: string | null;
+  restoredFrom?: number | null;
+}
+
+interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+interface SectionDiff {
+  section: string;
+  changed: boolean;
+  lines: DiffLine[];
+}
+
+const buildVersionKey = (gamePlanId: number, versionNumber: number) => `${gamePlanId}:${versionNumber}`;
+
+/**
+ * Line diff of two texts (longest common subsequence)
+ */
+const diffLines = (before: string | null, after: string | null): DiffLine[] => {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map(text => ({ type: 'removed' as const, text })),
+      ...b.map(text => ({ type: 'added' as const, text }))
+    ];
+  }
+
+  // lengths[i][j] = common lines of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) {
+    lines.push({ type: 'removed', text: a[i++] });
+  }
+  while (j < b.length) {
+    lines.push({ type: 'added', text: b[j++] });
+  }
+
+  return lines;
+};
+
+class GamePlanVersionHistory {
+  /**
+   * Section names covered by the history
+   */
+  isVersionedSection(section: string): boolean {
+    return VERSIONED_SECTIONS.includes(section);
+  }
+
+  /**
+   * The text sections of a game plan
+   */
+  snapshot(gamePlan: any): SectionSnapshot {
+    return Object.fromEntries(VERSIONED_SECTIONS.map(section => [section, gamePlan?.[section] ?? null]));
+  }
+
+  /**
+   * Backfill version keys and create the unique index on (game plan, version number)
+   * Runs at bootstrap, after Strapi has synced the schema
+   */
+  async ensureUniqueVersionIndex() {
+    const knex = strapi.db.connection;
+
+    await knex.raw(`
+      UPDATE sales_game_plan_versions v
+      SET version_key = gl.sales_game_plan_id || ':' || v.version_number
+      FROM sales_game_plan_versions_game_plan_lnk gl
+      WHERE gl.sales_game_plan_version_id = v.id
+        AND v.version_key IS NULL
+    `);
+
+    await knex.raw(`
+      CREATE UNIQUE INDEX IF NOT EXISTS ${VERSION_KEY_INDEX}
+      ON sales_game_plan_versions (version_key)
+      WHERE version_key IS NOT NULL
+    `);
+  }
+
+  /**
+   * Run a plan update and record it as a new version in one transaction,
+   * so a change is never saved without its version
+   */
+  async withVersion<T>(update: () => Promise<T>, change: VersionChange): Promise<T> {
+    return strapi.db.transaction(async () => {
+      const updated = await update();
+      await this.recordChange(change);
+      return updated;
+    });
+  }
+
+  /**
+   * Record a change to a game plan's sections, after it has been saved
+   * before is the plan as it was read before the update (its owner is the author of the original version);
+   * the snapshot is read back from the database so edits saved at the same time are not lost from it
+   */
+  async recordChange({ before, authorId, source, section, restoredFrom }: VersionChange) {
+    const gamePlanId = before.id;
+    const versions = strapi.db.query(VERSION_UID);
+
+    // The advisory lock serializes versions of the same plan across instances so numbers stay distinct
+    return strapi.db.transaction(async ({ trx }) => {
+      await trx.raw('SELECT pg_advisory_xact_lock(hashtext(?))', [`game-plan-version:${gamePlanId}`]);
+
+      const latest = await versions.findOne({
+        where: { game_plan: { id: gamePlanId } },
+        select: ['version_number'],
+        orderBy: { version_number: 'desc' }
+      });
+      let versionNumber = latest?.version_number ?? 0;
+
+      if (versionNumber === 0) {
+        versionNumber = 1;
+        await versions.create({
+          data: {
+            version_number: versionNumber,
+            version_key: buildVersionKey(gamePlanId, versionNumber),
+            source_action: 'original',
+            sections: this.snapshot(before),
+            game_plan: gamePlanId,
+            author: before.user?.id ?? null
+          }
+        });
+      }
+
+      const saved = await strapi.db.query(GAME_PLAN_UID).findOne({
+        where: { id: gamePlanId },
+        select: VERSIONED_SECTIONS
+      });
+
+      versionNumber += 1;
+      return versions.create({
+        data: {
+          version_number: versionNumber,
+          version_key: buildVersionKey(gamePlanId, versionNumber),
+          source_action: source,
+          section: section ?? null,
+          sections: this.snapshot(saved),
+          restored_from: restoredFrom ?? null,
+          game_plan: gamePlanId,
+          author: authorId
+        }
+      });
+    });
+  }
+
+  /**
+   * Versions of a game plan, newest first (without their text)
+   */
+  async listVersions(gamePlanId: number) {
+    const versions = await strapi.db.query(VERSION_UID).findMany({
+      where: { game_plan: { id: gamePlanId } },
+      select: ['version_number', 'source_action', 'section', 'restored_from', 'createdAt'],
+      populate: { author: { select: ['id', 'username'] } },
+      orderBy: { version_number: 'desc' }
+    });
+
+    return versions.map(version => ({
+      versionNumber: version.version_number,
+      sourceAction: version.source_action,
+      section: version.section,
+      restoredFrom: version.restored_from,
+      author: version.author ? { id: version.author.id, username: version.author.username } : null,
+      createdAt: version.createdAt
+    }));
+  }
+
+  /**
+   * One version of a game plan with its section text
+   */
+  async getVersion(gamePlanId: number, versionNumber: number) {
+    return strapi.db.query(VERSION_UID).findOne({
+      where: { game_plan: { id: gamePlanId }, version_number: versionNumber }
+    });
+  }
+
+  /**
+   * Per-section line diff from one snapshot to another
+   */
+  diff(from: SectionSnapshot, to: SectionSnapshot): SectionDiff[] {
+    return VERSIONED_SECTIONS.map(section => {
+      const before = from?.[section] ?? null;
+      const after = to?.[section] ?? null;
+
+      return {
+        section,
+        changed: before !== after,
+        lines: diffLines(before, after)
+      };
+    });
+  }
+
+  /**
+   * Put back one section (or every section) as it was in a version, recording the restore as a new version
+   */
+  async restore({ gamePlan, version, section, authorId }: {
+    gamePlan: any;
+    version: any;
+    section?: string | null;
+    authorId: number;
+  }) {
+    const saved: SectionSnapshot = version.sections || {};
+    const data = section
+      ? { [section]: saved[section] ?? null }
+      : this.snapshot(saved);
+
+    return this.withVersion(
+      () => strapi.documents(GAME_PLAN_UID).update({
+        documentId: gamePlan.documentId,
+        data
+      }),
+      {
+        before: gamePlan,
+        authorId,
+        source: section ? 'restore_section' : 'restore_plan',
+        section: section || null,
+        restoredFrom: version.version_number
+      }
+    );
+  }
+
+  /**
+   * Remove the history of a deleted game plan
+   */
+  async deleteForGamePlan(gamePlanId: number) {
+    await strapi.db.query(VERSION_UID).deleteMany({
+      where: { game_plan: { id: gamePlanId } }
+    });
+  }
+}
+
+// Export singleton instance
+export default new GamePlanVersionHistory();
+
+export type { VersionSource, SectionSnapshot, SectionDiff };
@@ -5,11 +5,8 @@
  * Generates professional email templates and text content using Claude API
  */
 
-import Anthropic from '@anthropic-ai/sdk';
-
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
+import aiService from '../../../services/ai-service';
+import { AI_BUDGET_EXCEEDED } from '../../../services/ai-usage-service';
 
 interface GamePlan {
   primaryCompanyName: string;
@@ -34,7 +31,7 @@ interface EmailResult {
 /**
  * Generate pre-meeting email template
  */
-export async function generatePreMeetingEmail(gamePlan: GamePlan): Promise<EmailResult> {
+export async function generatePreMeetingEmail(gamePlan: GamePlan, userId?: number | null): Promise<EmailResult> {
   const prompt = `You are a professional business communications expert. Generate a pre-meeting email for the following context:
 
 **Meeting Details:**
@@ -68,18 +65,13 @@ Generate a professional pre-meeting email that includes:
 Generate the email now:`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1500,
-      messages: [{
-        role: 'user',
-        content: prompt
-      }]
+    const fullText = await aiService.complete({
+      feature: 'materials.pre_meeting_email',
+      userId,
+      prompt,
+      maxTokens: 1500
     });
 
-    const content = response.content[0];
-    const fullText = content.type === 'text' ? content.text : '';
-
     // Extract subject line
     const subjectMatch = fullText.match(/Subject:\s*(.+?)(?:\n|$)/i);
     const subject = subjectMatch ? subjectMatch[1].trim() : `Meeting: ${gamePlan.meetingSubject}`;
@@ -94,6 +86,7 @@ Generate the email now:`;
     };
 
   } catch (error) {
+    if (error.code === AI_BUDGET_EXCEEDED) throw error;
     console.error('Error generating pre-meeting email:', error);
     throw new Error(`Failed to generate pre-meeting email: ${error.message}`);
   }
@@ -102,7 +95,7 @@ Generate the email now:`;
 /**
  * Generate post-meeting email template with placeholders
  */
-export async function generatePostMeetingEmail(gamePlan: GamePlan): Promise<EmailResult> {
+export async function generatePostMeetingEmail(gamePlan: GamePlan, userId?: number | null): Promise<EmailResult> {
   const prompt = `You are a professional business communications expert. Generate a post-meeting follow-up email template for the following context:
 
 **Meeting Details:**
@@ -139,18 +132,13 @@ Generate a professional post-meeting follow-up email that includes:
 Generate the email now:`;
 
   try {
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
-      max_tokens: 1800,
-      messages: [{
-        role: 'user',
-        content: prompt
-      }]
+    const fullText = await aiService.complete({
+      feature: 'materials.post_meeting_email',
+      userId,
+      prompt,
+      maxTokens: 1800
     });
 
-    const content = response.content[0];
-    const fullText = content.type === 'text' ? content.text : '';
-
     // Extract subject line
     const subjectMatch = fullText.match(/Subject:\s*(.+?)(?:\n|$)/i);
     const subject = subjectMatch ? subjectMatch[1].trim() : `Follow-up: ${gamePlan.meetingSubject}`;
@@ -165,6 +153,7 @@ Generate the email now:`;
     };
 
   } catch (error) {
+    if (error.code === AI_BUDGET_EXCEEDED) throw error;
     console.error('Error generating post-meeting email:', error);
     throw new Error(`Failed to generate post-meeting email: ${error.message}`);
   }
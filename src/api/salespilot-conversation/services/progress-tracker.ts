@@ -1,25 +1,57 @@
 /**
  * progress-tracker.ts
  *
- * In-Memory Progress Tracking Service
- * Tracks real-time progress of AI analysis generation
+ * Database-backed Progress Tracking Service
+ * Tracks progress of AI analysis generation in the analysis-job collection
  *
  * Features:
- * - Stores progress by unique analysis ID
- * - Supports multiple concurrent analyses
- * - Auto-cleanup of expired progress data
- * - Thread-safe operations
+ * - Stores progress, phase timings, result and error by unique analysis ID
+ * - Visible to every instance and survives restarts
+ * - Keeps each finished phase's output so an interrupted analysis can resume
+ * - Tracks each phase's status and attempts so a failed analysis can resume from the failing phase
+ * - Claims interrupted analyses (no heartbeat) so exactly one instance resumes them
+ *
+ * Every write refreshes updatedAt, which doubles as the heartbeat checked by claimInterruptedJobs
  */
 
 import { v4 as uuidv4 } from 'uuid';
 
-interface PhaseTimingData {
+const JOB_UID = 'api::analysis-job.analysis-job';
+
+// Running analyses that have not reported progress or a heartbeat for this long are assumed lost
+const JOB_STALE_MINUTES = 5;
+
+interface PhaseDefinition {
   phaseName: string;
+  stage?: string;  // shown while the phase runs
   estimate: number;  // seconds
+  dependsOn?: number[];  // phase numbers that must finish first (default: the previous phase)
+}
+
+interface PhaseTimingData extends PhaseDefinition {
   startTime?: Date;
   actualDuration?: number;  // seconds
 }
 
+// Sequential phases used when the caller does not describe its own
+const DEFAULT_PHASES: PhaseDefinition[] = [
+  { phaseName: 'Research', estimate: 30 },
+  { phaseName: 'Company Analysis', estimate: 30 },
+  { phaseName: 'Contact Persona', estimate: 30 },
+  { phaseName: 'Influence Tactics', estimate: 30 },
+  { phaseName: 'Discussion Points', estimate: 30 },
+  { phaseName: 'Objection Handling', estimate: 30 },
+  { phaseName: 'Materials Generation', estimate: 30 }
+];
+
+interface PhaseStatusData {
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  attempts?: number;
+  error?: string | null;
+  startedAt?: string;
+  completedAt?: string;
+}
+
 interface ProgressData {
   analysisId: string;
   stage: string;
@@ -36,16 +68,44 @@ interface ProgressData {
   totalElapsedSeconds?: number;
   totalRemainingSeconds?: number;
   globalStartTime?: Date; // Global start time from research phase 1
+  activePhases?: string[]; // Names of the phases running right now
+  phases?: Record<string, PhaseStatusData>;
+}
+
+interface AnalysisJobData {
+  analysisId: string;
+  userId: number | null;
+  params: any;
+  phaseResults: Record<string, any>;
+  phaseStatus: Record<string, PhaseStatusData>;
+  status: 'in_progress' | 'completed' | 'error';
+  attempts: number;
 }
 
+const toDate = (value: any): Date | undefined => (value ? new Date(value) : undefined);
+
+// Phase timings are stored as JSON, so start times come back as ISO strings
+const readPhaseTimings = (value: any): PhaseTimingData[] | undefined =>
+  Array.isArray(value)
+    ? value.map(timing => ({ ...timing, startTime: toDate(timing.startTime) }))
+    : undefined;
+
+const secondsSince = (date: Date, now: Date) => Math.round((now.getTime() - date.getTime()) / 1000);
+
 class ProgressTracker {
-  private progressMap: Map<string, ProgressData>;
-  private readonly EXPIRY_TIME_MS = 10 * 60 * 1000; // 10 minutes
-  private cleanupInterval: NodeJS.Timeout | null = null;
+  // Pending phase timing updates per analysis (see updatePhaseTiming)
+  private timingUpdates = new Map<string, Promise<void>>();
+
+  private jobs() {
+    return strapi.db.query(JOB_UID);
+  }
 
-  constructor() {
-    this.progressMap = new Map();
-    this.startCleanupTimer();
+  private async findJob(analysisId: string) {
+    if (!analysisId) {
+      return null;
+    }
+
+    return this.jobs().findOne({ where: { analysis_id: analysisId }, populate: ['user'] });
   }
 
   /**
@@ -63,24 +123,29 @@ class ProgressTracker {
   /**
    * Initialize progress tracking for new analysis
    *
-   * Creates new progress entry with 0% completion and 'in_progress' status.
-   * This should be called when starting a new analysis generation.
+   * Creates the job with 0% completion and 'in_progress' status. The owner and the
+   * generation inputs are stored so the analysis can be resumed by any instance.
    *
    * @param {string} analysisId - Unique identifier for the analysis
-   * @returns {void}
+   * @param {object} options - Owner (userId) and generation inputs (params)
+   * @returns {Promise<void>}
    * @example
    * const analysisId = progressTracker.generateAnalysisId();
-   * progressTracker.initializeProgress(analysisId);
+   * await progressTracker.initializeProgress(analysisId, { userId, params });
    */
-  initializeProgress(analysisId: string): void {
-    const now = new Date();
-    this.progressMap.set(analysisId, {
-      analysisId,
-      stage: 'Initializing...',
-      percentage: 0,
-      status: 'in_progress',
-      createdAt: now,
-      updatedAt: now
+  async initializeProgress(analysisId: string, options: { userId?: number | null; params?: any } = {}): Promise<void> {
+    await this.jobs().create({
+      data: {
+        analysis_id: analysisId,
+        status: 'in_progress',
+        stage: 'Initializing...',
+        percentage: 0,
+        params: options.params || null,
+        phase_results: {},
+        phase_status: {},
+        attempts: 1,
+        user: options.userId || null
+      }
     });
     console.log(`[ProgressTracker] Initialized progress for analysis: ${analysisId}`);
   }
@@ -88,37 +153,35 @@ class ProgressTracker {
   /**
    * Initialize phase timing tracking
    *
-   * Sets up the 6 phases with their estimates and starts tracking timing
+   * Sets up the phases with their estimates and dependencies and starts tracking timing.
+   * Phases run side by side once their dependencies are done, so each one is timed on its own.
+   * A resumed analysis keeps the timings recorded by its first run.
    *
    * @param {string} analysisId - Unique identifier for the analysis
    * @param {Date} globalStartTime - Optional global start time from research phase 1
-   * @returns {void}
+   * @param {PhaseDefinition[]} phases - Optional phases of this run (defaults to the 7 standard phases)
+   * @returns {Promise<void>}
    */
-  initializePhaseTimings(analysisId: string, globalStartTime?: Date): void {
-    const existing = this.progressMap.get(analysisId);
+  async initializePhaseTimings(analysisId: string, globalStartTime?: Date, phases: PhaseDefinition[] = DEFAULT_PHASES): Promise<void> {
+    const existing = await this.findJob(analysisId);
 
     if (!existing) {
       console.warn(`[ProgressTracker] Cannot initialize phase timings for non-existent analysis: ${analysisId}`);
       return;
     }
 
-    const phaseTimings: PhaseTimingData[] = [
-      { phaseName: 'Research', estimate: 30 },
-      { phaseName: 'Company Analysis', estimate: 30 },
-      { phaseName: 'Contact Persona', estimate: 30 },
-      { phaseName: 'Influence Tactics', estimate: 30 },
-      { phaseName: 'Discussion Points', estimate: 30 },
-      { phaseName: 'Objection Handling', estimate: 30 },
-      { phaseName: 'Materials Generation', estimate: 30 }
-    ];
+    if (Array.isArray(existing.phase_timings) && existing.phase_timings.length > 0) {
+      console.log(`[ProgressTracker] Keeping phase timings of resumed analysis: ${analysisId}`);
+      return;
+    }
+
+    const phaseTimings: PhaseTimingData[] = phases.map(phase => ({ ...phase }));
 
     const now = new Date();
     const startTime = globalStartTime || now;
 
     // Calculate initial elapsed time if global start time provided
-    const initialElapsed = globalStartTime
-      ? Math.round((now.getTime() - globalStartTime.getTime()) / 1000)
-      : 0;
+    const initialElapsed = globalStartTime ? secondsSince(globalStartTime, now) : 0;
 
     // If globalStartTime provided, mark Phase 1 (Research) as already completed
     // since it was done in the frontend before calling the backend
@@ -128,99 +191,111 @@ class ProgressTracker {
       console.log(`[ProgressTracker] Phase 1 (Research) marked complete: ${initialElapsed}s`);
     }
 
-    this.progressMap.set(analysisId, {
-      ...existing,
-      phaseNumber: 0,
-      totalPhases: 7,
-      phaseTimings,
-      totalElapsedSeconds: initialElapsed,
-      totalRemainingSeconds: 210 - initialElapsed, // 7 phases × 30 seconds minus already elapsed
-      globalStartTime: startTime,
-      updatedAt: now
+    await this.jobs().update({
+      where: { id: existing.id },
+      data: {
+        phase_number: 0,
+        total_phases: phaseTimings.length,
+        phase_timings: phaseTimings,
+        global_start_time: startTime,
+        updatedAt: new Date()
+      }
     });
 
     console.log(`[ProgressTracker] Initialized phase timings for: ${analysisId} (global start: ${startTime.toISOString()}, initial elapsed: ${initialElapsed}s)`);
   }
 
   /**
-   * Update phase progress with timing
+   * Mark a phase as started
    *
-   * Updates the current phase, calculates elapsed and remaining time
+   * Other phases may be running at the same time; stage lists every running phase.
    *
    * @param {string} analysisId - Unique identifier for the analysis
-   * @param {number} phaseNumber - Current phase number (1-6)
-   * @param {string} stage - Description of current stage
-   * @param {number} percentage - Completion percentage (0-100)
-   * @returns {void}
+   * @param {number} phaseNumber - Phase number (1-based)
+   * @returns {Promise<void>}
    */
-  updatePhaseProgress(analysisId: string, phaseNumber: number, stage: string, percentage: number): void {
-    const existing = this.progressMap.get(analysisId);
+  async startPhase(analysisId: string, phaseNumber: number): Promise<void> {
+    await this.updatePhaseTiming(analysisId, phaseNumber, (timing, now) => {
+      // Research done before the analysis started keeps its recorded duration;
+      // a phase restarted by a resumed run is timed again from now
+      if (timing.actualDuration === undefined) {
+        timing.startTime = now;
+      }
+    });
+  }
 
-    if (!existing || !existing.phaseTimings) {
-      console.warn(`[ProgressTracker] Cannot update phase progress - phase timings not initialized: ${analysisId}`);
-      return;
-    }
+  /**
+   * Mark a phase as finished and record how long it took
+   *
+   * @param {string} analysisId - Unique identifier for the analysis
+   * @param {number} phaseNumber - Phase number (1-based)
+   * @returns {Promise<void>}
+   */
+  async finishPhase(analysisId: string, phaseNumber: number): Promise<void> {
+    await this.updatePhaseTiming(analysisId, phaseNumber, (timing, now) => {
+      if (timing.actualDuration === undefined) {
+        timing.startTime = timing.startTime || now;
+        timing.actualDuration = secondsSince(timing.startTime, now);
+      }
+    });
+  }
 
-    const now = new Date();
-    const phaseTimings = [...existing.phaseTimings];
-    const currentPhaseIndex = phaseNumber - 1;
+  /**
+   * Apply a change to one phase's timing and refresh stage, percentage and phase number
+   * Changes for the same analysis are applied one at a time, since parallel phases share the timings
+   */
+  private updatePhaseTiming(analysisId: string, phaseNumber: number, change: (timing: PhaseTimingData, now: Date) => void): Promise<void> {
+    const previous = this.timingUpdates.get(analysisId) || Promise.resolve();
 
-    // Start timing for new phase
-    if (!phaseTimings[currentPhaseIndex].startTime) {
-      phaseTimings[currentPhaseIndex].startTime = now;
-    }
+    const next = previous.then(async () => {
+      const existing = await this.findJob(analysisId);
+      const phaseTimings = readPhaseTimings(existing?.phase_timings);
 
-    // Mark previous phase as complete if moving to new phase
-    if (phaseNumber > (existing.phaseNumber || 0)) {
-      const previousPhaseIndex = phaseNumber - 2;
-      if (previousPhaseIndex >= 0 && phaseTimings[previousPhaseIndex].startTime && !phaseTimings[previousPhaseIndex].actualDuration) {
-        const startTime = phaseTimings[previousPhaseIndex].startTime!;
-        phaseTimings[previousPhaseIndex].actualDuration = Math.round((now.getTime() - startTime.getTime()) / 1000);
+      if (!existing || !phaseTimings || !phaseTimings[phaseNumber - 1]) {
+        console.warn(`[ProgressTracker] Cannot update phase progress - phase timings not initialized: ${analysisId}`);
+        return;
       }
-    }
 
-    // Calculate total elapsed from global start time (if available) or sum of phases
-    let totalElapsed = 0;
-    if (existing.globalStartTime) {
-      // Use global start time for continuous elapsed count across all phases
-      totalElapsed = Math.round((now.getTime() - existing.globalStartTime.getTime()) / 1000);
-    } else {
-      // Fallback: sum individual phase durations
-      for (let i = 0; i < phaseTimings.length; i++) {
-        if (phaseTimings[i].actualDuration) {
-          totalElapsed += phaseTimings[i].actualDuration!;
-        } else if (i === currentPhaseIndex && phaseTimings[i].startTime) {
-          totalElapsed += Math.round((now.getTime() - phaseTimings[i].startTime!.getTime()) / 1000);
+      const now = new Date();
+      change(phaseTimings[phaseNumber - 1], now);
+
+      const finished = phaseTimings.filter(timing => timing.actualDuration !== undefined);
+      const active = phaseTimings.filter(timing => timing.startTime && timing.actualDuration === undefined);
+      const stage = active.length > 0
+        ? `${active.map(timing => timing.stage || timing.phaseName).join(' | ')}...`
+        : existing.stage;
+      // Finished phases weighted by their estimates
+      const totalEstimate = phaseTimings.reduce((sum, timing) => sum + timing.estimate, 0) || 1;
+      const finishedEstimate = finished.reduce((sum, timing) => sum + timing.estimate, 0);
+      const percentage = Math.min(99, Math.round((finishedEstimate / totalEstimate) * 100));
+      const currentPhase = Math.min(phaseTimings.length, finished.length + 1);
+
+      await this.jobs().update({
+        where: { id: existing.id },
+        data: {
+          stage,
+          percentage,
+          phase_number: currentPhase,
+          phase_timings: phaseTimings,
+          updatedAt: now
         }
-      }
-    }
+      });
 
-    // Calculate total remaining
-    let totalRemaining = 0;
-    for (let i = currentPhaseIndex; i < phaseTimings.length; i++) {
-      if (i === currentPhaseIndex && phaseTimings[i].startTime) {
-        // Current phase: estimate minus elapsed
-        const currentElapsed = Math.round((now.getTime() - phaseTimings[i].startTime!.getTime()) / 1000);
-        totalRemaining += Math.max(0, phaseTimings[i].estimate - currentElapsed);
-      } else if (i > currentPhaseIndex) {
-        // Future phases: use estimate
-        totalRemaining += phaseTimings[i].estimate;
-      }
-    }
+      const { totalElapsedSeconds, totalRemainingSeconds } = this.calculateTiming(phaseTimings, toDate(existing.global_start_time), now);
 
-    this.progressMap.set(analysisId, {
-      ...existing,
-      stage,
-      percentage,
-      phaseNumber,
-      phaseTimings,
-      totalElapsedSeconds: totalElapsed,
-      totalRemainingSeconds: totalRemaining,
-      status: 'in_progress',
-      updatedAt: now
+      console.log(`[ProgressTracker] Updated phase progress ${analysisId}: ${finished.length}/${phaseTimings.length} phases done, ${active.length} running - ${stage} (${percentage}%) | Elapsed: ${totalElapsedSeconds}s | Remaining: ~${totalRemainingSeconds}s`);
     });
 
-    console.log(`[ProgressTracker] Updated phase progress ${analysisId}: Phase ${phaseNumber}/${existing.totalPhases || 6} - ${stage} (${percentage}%) | Elapsed: ${totalElapsed}s | Remaining: ~${totalRemaining}s`);
+    // Keep the chain going after a failed update, and drop it once nothing is queued behind it
+    const settled = next.catch(error => console.error(`[ProgressTracker] Phase timing update failed for ${analysisId}:`, error));
+    this.timingUpdates.set(analysisId, settled);
+    settled.then(() => {
+      if (this.timingUpdates.get(analysisId) === settled) {
+        this.timingUpdates.delete(analysisId);
+      }
+    });
+
+    return next;
   }
 
   /**
@@ -228,37 +303,141 @@ class ProgressTracker {
    *
    * Updates the current stage and percentage completion. The status will remain
    * 'in_progress' - only setCompleted() or setError() should change the status.
-   * If the analysisId doesn't exist, it will be auto-initialized.
    *
    * @param {string} analysisId - Unique identifier for the analysis
    * @param {string} stage - Description of current stage (e.g., "Analyzing company...")
    * @param {number} percentage - Completion percentage (0-100)
-   * @returns {void}
+   * @returns {Promise<void>}
    * @example
-   * progressTracker.setProgress(analysisId, "Analyzing company landscape...", 20);
-   * progressTracker.setProgress(analysisId, "Generating persona...", 40);
+   * await progressTracker.setProgress(analysisId, "Analyzing company landscape...", 20);
    */
-  setProgress(analysisId: string, stage: string, percentage: number): void {
-    const existing = this.progressMap.get(analysisId);
+  async setProgress(analysisId: string, stage: string, percentage: number): Promise<void> {
+    const { count } = await this.jobs().updateMany({
+      where: { analysis_id: analysisId },
+      data: { stage, percentage, updatedAt: new Date() }
+    });
 
-    if (!existing) {
+    if (count === 0) {
       console.warn(`[ProgressTracker] Analysis ID not found: ${analysisId}`);
-      // Initialize if not exists (fallback)
-      this.initializeProgress(analysisId);
+      return;
     }
 
-    this.progressMap.set(analysisId, {
-      ...existing!,
-      stage,
-      percentage,
-      // Keep status as 'in_progress' - only setCompleted should change to 'completed'
-      status: 'in_progress',
-      updatedAt: new Date()
-    });
-
     console.log(`[ProgressTracker] Updated ${analysisId}: ${stage} (${percentage}%)`);
   }
 
+  /**
+   * Store the output of a finished phase
+   *
+   * Stored outputs are reused instead of regenerated when the analysis is resumed.
+   *
+   * @param {string} analysisId - Unique identifier for the analysis
+   * @param {string} key - Output name (e.g. "companyAnalysis")
+   * @param {any} value - Phase output
+   * @returns {Promise<void>}
+   */
+  async savePhaseResult(analysisId: string, key: string, value: any): Promise<void> {
+    // Merged in SQL so phases finishing at the same time do not overwrite each other
+    const result = await strapi.db.connection.raw(
+      `UPDATE analysis_jobs
+       SET phase_results = COALESCE(phase_results, '{}'::jsonb) || jsonb_build_object(?::text, ?::jsonb), updated_at = NOW()
+       WHERE analysis_id = ?`,
+      [key, JSON.stringify(value ?? null), analysisId]
+    );
+
+    if (!result.rowCount) {
+      console.warn(`[ProgressTracker] Cannot store phase output for non-existent analysis: ${analysisId}`);
+    }
+  }
+
+  /**
+   * Mark phases as pending unless they already have a status
+   *
+   * @param {string} analysisId - Unique identifier for the analysis
+   * @param {string[]} keys - Output names of the phases this run will produce
+   * @returns {Promise<void>}
+   */
+  async initializePhaseStatus(analysisId: string, keys: string[]): Promise<void> {
+    const pending = Object.fromEntries(keys.map(key => [key, { status: 'pending', attempts: 0 }]));
+
+    // Existing entries win, so a resumed analysis keeps its completed phases and attempt counts
+    await strapi.db.connection.raw(
+      `UPDATE analysis_jobs
+       SET phase_status = ?::jsonb || COALESCE(phase_status, '{}'::jsonb), updated_at = NOW()
+       WHERE analysis_id = ?`,
+      [JSON.stringify(pending), analysisId]
+    );
+  }
+
+  /**
+   * Update one phase's status (merged into what is already recorded for it)
+   *
+   * @param {string} analysisId - Unique identifier for the analysis
+   * @param {string} key - Output name of the phase (e.g. "companyAnalysis")
+   * @param {Partial<PhaseStatusData>} update - Fields to change
+   * @returns {Promise<void>}
+   * @example
+   * await progressTracker.setPhaseStatus(analysisId, 'contactPersona', { status: 'failed', error: 'Timed out' });
+   */
+  async setPhaseStatus(analysisId: string, key: string, update: Partial<PhaseStatusData>): Promise<void> {
+    await strapi.db.connection.raw(
+      `UPDATE analysis_jobs
+       SET phase_status = COALESCE(phase_status, '{}'::jsonb)
+         || jsonb_build_object(?::text, COALESCE(phase_status -> ?::text, '{}'::jsonb) || ?::jsonb),
+         updated_at = NOW()
+       WHERE analysis_id = ?`,
+      [key, key, JSON.stringify(update), analysisId]
+    );
+  }
+
+  /**
+   * Reopen a failed analysis so it can run again from its failing phase
+   *
+   * Completed phase outputs are kept; failed phases go back to pending with a fresh attempt count.
+   * Only one caller can reopen an analysis, because the status check and the update are one statement.
+   *
+   * @param {string} analysisId - Unique identifier for the analysis
+   * @returns {Promise<boolean>} True if the analysis was reopened, false if it was not failed
+   */
+  async reopenFailedJob(analysisId: string): Promise<boolean> {
+    const result = await strapi.db.connection.raw(
+      `UPDATE analysis_jobs
+       SET status = 'in_progress', stage = 'Resuming...', error = NULL, result = NULL, completed_at = NULL,
+           attempts = 1, updated_at = NOW(),
+           phase_status = (
+             SELECT COALESCE(jsonb_object_agg(
+               entry.key,
+               CASE WHEN entry.value ->> 'status' = 'completed' THEN entry.value
+                    ELSE entry.value || '{"status": "pending", "attempts": 0}'::jsonb END
+             ), '{}'::jsonb)
+             FROM jsonb_each(COALESCE(phase_status, '{}'::jsonb)) AS entry
+           )
+       WHERE analysis_id = ? AND status = 'error'`,
+      [analysisId]
+    );
+
+    const reopened = (result.rowCount || 0) > 0;
+    if (reopened) {
+      console.log(`[ProgressTracker] Reopened failed analysis: ${analysisId}`);
+    }
+
+    return reopened;
+  }
+
+  /**
+   * Refresh the heartbeat of a running analysis
+   *
+   * Called periodically by the instance running it so long phases are not mistaken for lost ones.
+   *
+   * @param {string} analysisId - Unique identifier for the analysis
+   * @returns {Promise<void>}
+   */
+  async heartbeat(analysisId: string): Promise<void> {
+    await this.jobs().updateMany({
+      where: { analysis_id: analysisId, status: 'in_progress' },
+      data: { updatedAt: new Date() }
+    });
+  }
+
   /**
    * Mark analysis as completed and store result
    *
@@ -267,32 +446,29 @@ class ProgressTracker {
    *
    * @param {string} analysisId - Unique identifier for the analysis
    * @param {any} result - Complete analysis result object
-   * @returns {void}
+   * @returns {Promise<void>}
    * @example
-   * const result = {
-   *   companyAnalysis: {...},
-   *   contactPersona: {...},
-   *   influenceTactics: {...}
-   * };
-   * progressTracker.setCompleted(analysisId, result);
+   * await progressTracker.setCompleted(analysisId, { ...analysis, gamePlanId });
    */
-  setCompleted(analysisId: string, result: any): void {
-    const existing = this.progressMap.get(analysisId);
+  async setCompleted(analysisId: string, result: any): Promise<void> {
+    const { count } = await this.jobs().updateMany({
+      where: { analysis_id: analysisId },
+      data: {
+        stage: 'Analysis complete!',
+        percentage: 100,
+        status: 'completed',
+        result,
+        error: null,
+        completed_at: new Date(),
+        updatedAt: new Date()
+      }
+    });
 
-    if (!existing) {
+    if (count === 0) {
       console.warn(`[ProgressTracker] Cannot complete non-existent analysis: ${analysisId}`);
       return;
     }
 
-    this.progressMap.set(analysisId, {
-      ...existing,
-      stage: 'Analysis complete!',
-      percentage: 100,
-      status: 'completed',
-      updatedAt: new Date(),
-      result
-    });
-
     console.log(`[ProgressTracker] Completed analysis: ${analysisId}`);
   }
 
@@ -300,55 +476,134 @@ class ProgressTracker {
    * Mark analysis as failed
    *
    * Sets status to 'error' and stores the error message.
-   * The analysis will no longer be updated after calling this method.
+   * The analysis will no longer be resumed after calling this method.
    *
    * @param {string} analysisId - Unique identifier for the analysis
    * @param {string} error - Error message describing what went wrong
-   * @returns {void}
+   * @returns {Promise<void>}
    * @example
-   * progressTracker.setError(analysisId, "AI API request failed: 429 rate limit");
+   * await progressTracker.setError(analysisId, "AI API request failed: 429 rate limit");
    */
-  setError(analysisId: string, error: string): void {
-    const existing = this.progressMap.get(analysisId);
+  async setError(analysisId: string, error: string): Promise<void> {
+    const { count } = await this.jobs().updateMany({
+      where: { analysis_id: analysisId },
+      data: {
+        status: 'error',
+        error,
+        completed_at: new Date(),
+        updatedAt: new Date()
+      }
+    });
 
-    if (!existing) {
+    if (count === 0) {
       console.warn(`[ProgressTracker] Cannot set error for non-existent analysis: ${analysisId}`);
       return;
     }
 
-    this.progressMap.set(analysisId, {
-      ...existing,
-      status: 'error',
-      error,
-      updatedAt: new Date()
+    console.error(`[ProgressTracker] Error in analysis ${analysisId}: ${error}`);
+  }
+
+  /**
+   * Elapsed and remaining seconds
+   * Elapsed runs from the global start time (or the first phase start). Remaining follows the
+   * longest chain of unfinished dependent phases, since independent phases overlap.
+   */
+  private calculateTiming(phaseTimings: PhaseTimingData[], globalStartTime: Date | undefined, now: Date) {
+    const starts = phaseTimings.filter(timing => timing.startTime).map(timing => timing.startTime!.getTime());
+    const startedAt = globalStartTime || (starts.length > 0 ? new Date(Math.min(...starts)) : undefined);
+    const totalElapsedSeconds = startedAt ? secondsSince(startedAt, now) : 0;
+
+    // Seconds until each phase is done; phases are listed after their dependencies
+    const doneIn: number[] = [];
+    phaseTimings.forEach((timing, index) => {
+      const own = timing.actualDuration !== undefined
+        ? 0
+        : timing.startTime
+          ? Math.max(0, timing.estimate - secondsSince(timing.startTime, now))
+          : timing.estimate;
+      const dependencies = timing.dependsOn || (index > 0 ? [index] : []);
+      const waitFor = Math.max(0, ...dependencies.map(phaseNumber => doneIn[phaseNumber - 1] || 0));
+
+      doneIn[index] = own === 0 ? 0 : waitFor + own;
     });
 
-    console.error(`[ProgressTracker] Error in analysis ${analysisId}: ${error}`);
+    const totalRemainingSeconds = Math.max(0, ...doneIn);
+
+    return { totalElapsedSeconds, totalRemainingSeconds };
   }
 
   /**
    * Get current progress for an analysis
    *
-   * Returns a copy of the progress data to prevent external modification.
    * Use this to check current status, stage, and percentage.
    *
    * @param {string} analysisId - Unique identifier for the analysis
-   * @returns {ProgressData | null} Progress data object, or null if not found
+   * @returns {Promise<ProgressData | null>} Progress data object, or null if not found
    * @example
-   * const progress = progressTracker.getProgress(analysisId);
+   * const progress = await progressTracker.getProgress(analysisId);
    * if (progress) {
    *   console.log(`${progress.stage} (${progress.percentage}%)`);
    * }
    */
-  getProgress(analysisId: string): ProgressData | null {
-    const progress = this.progressMap.get(analysisId);
+  async getProgress(analysisId: string): Promise<ProgressData | null> {
+    const job = await this.findJob(analysisId);
 
-    if (!progress) {
+    if (!job) {
       console.warn(`[ProgressTracker] Progress not found for: ${analysisId}`);
       return null;
     }
 
-    return { ...progress }; // Return copy to prevent external modification
+    const phaseTimings = readPhaseTimings(job.phase_timings);
+    const globalStartTime = toDate(job.global_start_time);
+    const updatedAt = new Date(job.updatedAt);
+    const timing = phaseTimings
+      ? this.calculateTiming(phaseTimings, globalStartTime, job.status === 'in_progress' ? new Date() : updatedAt)
+      : {};
+    const activePhases = phaseTimings && job.status === 'in_progress'
+      ? phaseTimings.filter(phase => phase.startTime && phase.actualDuration === undefined).map(phase => phase.phaseName)
+      : [];
+
+    return {
+      analysisId: job.analysis_id,
+      stage: job.stage,
+      percentage: job.percentage || 0,
+      status: job.status,
+      createdAt: new Date(job.createdAt),
+      updatedAt,
+      error: job.error || undefined,
+      result: job.result || undefined,
+      phaseNumber: job.phase_number ?? undefined,
+      totalPhases: job.total_phases ?? undefined,
+      phaseTimings,
+      ...timing,
+      globalStartTime,
+      activePhases,
+      phases: job.phase_status || undefined
+    };
+  }
+
+  /**
+   * Get the stored inputs, owner and finished phase outputs of an analysis
+   *
+   * @param {string} analysisId - Unique identifier for the analysis
+   * @returns {Promise<AnalysisJobData | null>} Job data, or null if not found
+   */
+  async getJob(analysisId: string): Promise<AnalysisJobData | null> {
+    const job = await this.findJob(analysisId);
+
+    if (!job) {
+      return null;
+    }
+
+    return {
+      analysisId: job.analysis_id,
+      userId: job.user?.id || null,
+      params: job.params || {},
+      phaseResults: job.phase_results || {},
+      phaseStatus: job.phase_status || {},
+      status: job.status,
+      attempts: job.attempts || 0
+    };
   }
 
   /**
@@ -358,165 +613,100 @@ class ProgressTracker {
    * Returns true even if the analysis has completed or errored.
    *
    * @param {string} analysisId - Unique identifier for the analysis
-   * @returns {boolean} True if analysis exists, false otherwise
+   * @returns {Promise<boolean>} True if analysis exists, false otherwise
    * @example
-   * if (!progressTracker.exists(analysisId)) {
+   * if (!(await progressTracker.exists(analysisId))) {
    *   return ctx.notFound({ error: { message: 'Analysis not found' } });
    * }
    */
-  exists(analysisId: string): boolean {
-    return this.progressMap.has(analysisId);
+  async exists(analysisId: string): Promise<boolean> {
+    if (!analysisId) {
+      return false;
+    }
+
+    const count = await this.jobs().count({ where: { analysis_id: analysisId } });
+    return count > 0;
   }
 
   /**
    * Get analysis result (only if completed)
    *
-   * Returns the final analysis result only if status is 'completed'.
    * Returns null if the analysis doesn't exist or hasn't completed yet.
    *
    * @param {string} analysisId - Unique identifier for the analysis
-   * @returns {any | null} Analysis result object, or null if not completed
-   * @example
-   * const result = progressTracker.getResult(analysisId);
-   * if (result) {
-   *   // Analysis is complete - use result
-   *   return ctx.send({ success: true, data: result });
-   * }
+   * @returns {Promise<any | null>} Analysis result object, or null if not completed
    */
-  getResult(analysisId: string): any | null {
-    const progress = this.progressMap.get(analysisId);
+  async getResult(analysisId: string): Promise<any | null> {
+    const job = await this.jobs().findOne({ where: { analysis_id: analysisId }, select: ['status', 'result'] });
 
-    if (!progress) {
+    if (!job) {
       console.warn(`[ProgressTracker] Result not found for: ${analysisId}`);
       return null;
     }
 
-    if (progress.status !== 'completed') {
+    if (job.status !== 'completed') {
       console.warn(`[ProgressTracker] Analysis not yet completed: ${analysisId}`);
       return null;
     }
 
-    return progress.result;
+    return job.result;
   }
 
   /**
    * Delete progress data for an analysis
    *
-   * Manually removes progress data from the tracker.
-   * Use this for immediate cleanup after result is retrieved,
-   * or to cancel an in-progress analysis.
-   *
    * @param {string} analysisId - Unique identifier for the analysis
-   * @returns {boolean} True if deleted, false if didn't exist
-   * @example
-   * // Clean up after retrieving result
-   * const result = progressTracker.getResult(analysisId);
-   * progressTracker.deleteProgress(analysisId);
+   * @returns {Promise<boolean>} True if deleted, false if didn't exist
    */
-  deleteProgress(analysisId: string): boolean {
-    const deleted = this.progressMap.delete(analysisId);
+  async deleteProgress(analysisId: string): Promise<boolean> {
+    const { count } = await this.jobs().deleteMany({ where: { analysis_id: analysisId } });
 
-    if (deleted) {
+    if (count > 0) {
       console.log(`[ProgressTracker] Deleted progress for: ${analysisId}`);
     } else {
       console.warn(`[ProgressTracker] Could not delete non-existent analysis: ${analysisId}`);
     }
 
-    return deleted;
+    return count > 0;
   }
 
   /**
-   * Get all active analysis IDs
+   * Get all running analysis IDs
    *
-   * Returns array of all tracked analysis IDs (in_progress, completed, and error).
-   * Useful for debugging, monitoring, or admin dashboards.
-   *
-   * @returns {string[]} Array of analysis IDs currently being tracked
-   * @example
-   * const activeIds = progressTracker.getActiveAnalyses();
-   * console.log(`Tracking ${activeIds.length} analyses`);
+   * @returns {Promise<string[]>} IDs of analyses still in progress on any instance
    */
-  getActiveAnalyses(): string[] {
-    return Array.from(this.progressMap.keys());
+  async getActiveAnalyses(): Promise<string[]> {
+    const jobs = await this.jobs().findMany({ where: { status: 'in_progress' }, select: ['analysis_id'] });
+    return jobs.map(job => job.analysis_id);
   }
 
   /**
-   * Get count of tracked analyses
+   * Claim analyses whose instance stopped sending heartbeats (e.g. a restart)
    *
-   * Returns the total number of analyses currently in the progress tracker.
-   * Includes in_progress, completed, and error status analyses.
+   * Claiming counts an attempt and refreshes the heartbeat, so concurrent callers never
+   * claim the same analysis. Analyses out of attempts are marked as failed.
    *
-   * @returns {number} Number of analyses being tracked
-   * @example
-   * console.log(`Currently tracking ${progressTracker.getCount()} analyses`);
-   */
-  getCount(): number {
-    return this.progressMap.size;
-  }
-
-  /**
-   * Start automatic cleanup timer
-   * Removes expired progress data every 5 minutes
-   */
-  private startCleanupTimer(): void {
-    // Run cleanup every 5 minutes
-    this.cleanupInterval = setInterval(() => {
-      this.cleanupExpiredProgress();
-    }, 5 * 60 * 1000);
-
-    console.log('[ProgressTracker] Started automatic cleanup timer');
-  }
-
-  /**
-   * Clean up expired progress data
-   * Removes entries older than EXPIRY_TIME_MS
+   * @returns {Promise<{ claimed: string[]; failed: number }>} Claimed analysis IDs and the number failed
    */
-  private cleanupExpiredProgress(): void {
-    const now = new Date();
-    let cleanedCount = 0;
-
-    for (const [analysisId, progress] of this.progressMap.entries()) {
-      const ageMs = now.getTime() - progress.updatedAt.getTime();
-
-      if (ageMs > this.EXPIRY_TIME_MS) {
-        this.progressMap.delete(analysisId);
-        cleanedCount++;
-        console.log(`[ProgressTracker] Cleaned up expired analysis: ${analysisId} (age: ${Math.round(ageMs / 1000 / 60)}min)`);
-      }
-    }
-
-    if (cleanedCount > 0) {
-      console.log(`[ProgressTracker] Cleanup complete: Removed ${cleanedCount} expired entries. Remaining: ${this.progressMap.size}`);
-    }
-  }
-
-  /**
-   * Manual cleanup trigger (for testing or shutdown)
-   */
-  cleanupNow(): number {
-    const before = this.progressMap.size;
-    this.cleanupExpiredProgress();
-    return before - this.progressMap.size;
-  }
-
-  /**
-   * Stop cleanup timer (for graceful shutdown)
-   */
-  destroy(): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-      this.cleanupInterval = null;
-      console.log('[ProgressTracker] Stopped cleanup timer');
-    }
-  }
+  async claimInterruptedJobs(): Promise<{ claimed: string[]; failed: number }> {
+    const staleBefore = new Date(Date.now() - JOB_STALE_MINUTES * 60 * 1000);
+
+    const claimed = await strapi.db.connection.raw(
+      `UPDATE analysis_jobs
+       SET attempts = attempts + 1, updated_at = NOW()
+       WHERE status = 'in_progress' AND updated_at < ? AND attempts < max_attempts
+       RETURNING analysis_id`,
+      [staleBefore]
+    );
+    const failed = await this.jobs().updateMany({
+      where: { status: 'in_progress', updatedAt: { $lt: staleBefore } },
+      data: { status: 'error', error: 'Analysis was interrupted', completed_at: new Date() }
+    });
 
-  /**
-   * Clear all progress data (for testing)
-   */
-  clearAll(): void {
-    const count = this.progressMap.size;
-    this.progressMap.clear();
-    console.log(`[ProgressTracker] Cleared all progress data (${count} entries)`);
+    return {
+      claimed: (claimed.rows || claimed).map(row => row.analysis_id),
+      failed: failed.count
+    };
   }
 }
 
@@ -527,4 +717,4 @@ const progressTracker = new ProgressTracker();
 export default progressTracker;
 
 // Export types for use in other modules
-export type { ProgressData, PhaseTimingData };
+export type { ProgressData, PhaseDefinition, PhaseTimingData, PhaseStatusData, AnalysisJobData };
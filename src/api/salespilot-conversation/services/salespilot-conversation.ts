@@ -6,7 +6,7 @@
  * Integrates Google Custom Search for URL finding
  */
 
-import Anthropic from '@anthropic-ai/sdk';
+import aiService from '../../../services/ai-service';
 
 /**
  * Step Configuration - Defines conversation flow structure
@@ -228,6 +228,10 @@ function isPositiveResponse(input: string): boolean {
   return positiveKeywords.some(keyword => normalizedInput === keyword || normalizedInput.startsWith(keyword + ' '));
 }
 
+// Analyses running in this process, and how often they refresh their heartbeat while running
+const runningAnalyses = new Set<string>();
+const ANALYSIS_HEARTBEAT_MS = 60 * 1000;
+
 export default () => ({
   /**
    * Get step configuration by step name
@@ -494,25 +498,13 @@ export default () => ({
       // Generate AI acknowledgment using Claude
       let acknowledgment;
       try {
-        const anthropic = new Anthropic({
-          apiKey: process.env.ANTHROPIC_API_KEY
-        });
-
-        const completion = await anthropic.messages.create({
-          model: process.env.ANTHROPIC_MODEL || 'claude-3-7-sonnet-20250219',
-          max_tokens: 150,
+        acknowledgment = await aiService.complete({
+          feature: 'salespilot_conversation',
+          userId,
           system: CONVERSATION_SYSTEM_PROMPT,
-          messages: [
-            {
-              role: 'user',
-              content: `Question asked: "${currentStepConfig.question}"\nUser answered: "${message}"\n\nAcknowledge this answer briefly and encouragingly (1-2 sentences max). Be specific to what they provided.`
-            }
-          ]
-        });
-
-        acknowledgment = completion.content[0].type === 'text'
-          ? completion.content[0].text
-          : 'Got it!';
+          prompt: `Question asked: "${currentStepConfig.question}"\nUser answered: "${message}"\n\nAcknowledge this answer briefly and encouragingly (1-2 sentences max). Be specific to what they provided.`,
+          maxTokens: 150
+        }) || 'Got it!';
 
       } catch (aiError) {
         strapi.log.warn('Claude API error, using fallback acknowledgment:', aiError.message);
@@ -819,7 +811,8 @@ export default () => ({
         industry: params.industry,
         depth: depth,
         additionalCompanies: params.additionalParties?.companies || [],
-        additionalContacts: params.additionalParties?.contacts || []
+        additionalContacts: params.additionalParties?.contacts || [],
+        forceRefresh: !!params.forceRefresh
       });
 
       strapi.log.info(`Research completed for user ${userId}: ${results.totalQueries} queries executed`);
@@ -847,17 +840,190 @@ export default () => ({
     }
   },
 
+  /**
+   * Start a game plan analysis in the background
+   * The job is stored before it runs so any instance can report its progress or resume it
+   */
+  async startGamePlanAnalysis(params: any, userId: number) {
+    const { progressTracker } = await import('./game-plan-generator');
+    const analysisId = progressTracker.generateAnalysisId();
+
+    await progressTracker.initializeProgress(analysisId, { userId, params });
+
+    // Runs after the response is sent; the recovery cron resumes it if this process goes away
+    this.runGamePlanAnalysis(analysisId)
+      .catch(error => strapi.log.error(`[AnalysisGeneration] Run crashed for ${analysisId}:`, error));
+
+    return analysisId;
+  },
+
+  /**
+   * Run or resume a stored analysis: generate the phases without a stored output, save the
+   * game plan and record the result (or the error) on the job
+   */
+  async runGamePlanAnalysis(analysisId: string) {
+    if (runningAnalyses.has(analysisId)) {
+      return;
+    }
+
+    const { progressTracker } = await import('./game-plan-generator');
+    const job = await progressTracker.getJob(analysisId);
+
+    if (!job || job.status !== 'in_progress') {
+      return;
+    }
+
+    runningAnalyses.add(analysisId);
+    const heartbeat = setInterval(() => {
+      progressTracker.heartbeat(analysisId)
+        .catch(error => strapi.log.warn(`[AnalysisGeneration] Heartbeat failed for ${analysisId}: ${error.message}`));
+    }, ANALYSIS_HEARTBEAT_MS);
+
+    try {
+      if (!job.userId) {
+        throw new Error('Analysis owner no longer exists');
+      }
+
+      if (Object.keys(job.phaseResults).length > 0) {
+        strapi.log.info(`[AnalysisGeneration] Resuming ${analysisId} (attempt ${job.attempts}) with stored phases: ${Object.keys(job.phaseResults).join(', ')}`);
+      }
+
+      const analysis = await this.generateGamePlanAnalysis(job.params, job.userId, analysisId, job.phaseResults);
+
+      strapi.log.info(`[AnalysisGeneration] Completed for ${analysisId}: ${job.params.companyName} / ${job.params.contactName}`);
+
+      // A resumed run may have saved the game plan already
+      const gamePlanId = job.phaseResults.gamePlanId
+        || await this.saveGeneratedGamePlan(analysisId, job.params, analysis.data, job.userId);
+
+      await progressTracker.setCompleted(analysisId, {
+        ...analysis.data,
+        gamePlanId
+      });
+    } catch (error) {
+      strapi.log.error(`[AnalysisGeneration] Failed for ${analysisId}:`, error);
+      await progressTracker.setError(analysisId, error.message || 'Analysis generation failed');
+    } finally {
+      clearInterval(heartbeat);
+      runningAnalyses.delete(analysisId);
+    }
+  },
+
+  /**
+   * Resume analyses left running by an instance that went away
+   */
+  async resumeInterruptedAnalyses() {
+    const { progressTracker } = await import('./game-plan-generator');
+    const { claimed, failed } = await progressTracker.claimInterruptedJobs();
+
+    claimed.forEach(analysisId => {
+      strapi.log.info(`[AnalysisGeneration] Resuming interrupted analysis ${analysisId}`);
+      this.runGamePlanAnalysis(analysisId)
+        .catch(error => strapi.log.error(`[AnalysisGeneration] Run crashed for ${analysisId}:`, error));
+    });
+
+    return { resumed: claimed.length, failed };
+  },
+
+  /**
+   * Resume a failed analysis from its failing phase, reusing the research and completed sections
+   * Returns false when the analysis is not in a failed state
+   */
+  async resumeFailedAnalysis(analysisId: string) {
+    const { progressTracker } = await import('./game-plan-generator');
+
+    if (!(await progressTracker.reopenFailedJob(analysisId))) {
+      return false;
+    }
+
+    this.runGamePlanAnalysis(analysisId)
+      .catch(error => strapi.log.error(`[AnalysisGeneration] Run crashed for ${analysisId}:`, error));
+
+    return true;
+  },
+
+  /**
+   * Save a generated analysis as a sales game plan
+   * Returns the game plan's documentId, or undefined when saving failed (the analysis result is still kept)
+   */
+  async saveGeneratedGamePlan(analysisId: string, params: any, analysis: any, userId: number) {
+    try {
+      strapi.log.info(`[AnalysisGeneration] Saving game plan to database...`);
+
+      const gamePlan = await strapi.entityService.create('api::sales-game-plan.sales-game-plan', {
+        data: {
+          // User relation
+          user: userId,
+
+          // Company and contact info
+          primaryCompanyName: params.companyName,
+          primaryCompanyDomain: params.companyDomain || null,
+          primaryContactName: params.contactName,
+          primaryContactTitle: params.contactTitle || null,
+          primaryContactLinkedIn: params.contactLinkedIn || null,
+          additionalParties: params.additionalParties || null,
+
+          // Meeting details
+          meetingSubject: params.meetingSubject,
+          desiredOutcome: params.desiredOutcome,
+          meetingDate: null, // User can set this later
+
+          // Analysis parameters
+          researchDepth: params.researchDepth || 'Standard',
+          personaDetailLevel: params.personaDetailLevel,
+          influenceFramework: params.influenceFramework,
+          selectedMaterials: params.selectedMaterials || null,
+          templateChoice: params.templateChoice || 'Modern',
+
+          // Generated analysis content
+          companyAnalysis: analysis.companyAnalysis,
+          contactPersona: analysis.contactPersona,
+          influenceTactics: analysis.influenceTactics,
+          discussionPoints: analysis.discussionPoints,
+          objectionHandling: analysis.objectionHandling,
+          generatedMaterials: analysis.generatedMaterials || null,
+
+          // Status
+          status: 'Ready', // Analysis complete, ready to use
+
+          // Approval fields
+          approvalStatus: 'Not Submitted'
+        }
+      });
+
+      strapi.log.info(`[AnalysisGeneration] Game plan saved successfully with ID: ${gamePlan.documentId}`);
+
+      // Remembered so a resumed run does not save a second copy
+      const { progressTracker } = await import('./game-plan-generator');
+      await progressTracker.savePhaseResult(analysisId, 'gamePlanId', gamePlan.documentId);
+
+      return gamePlan.documentId;
+    } catch (saveError) {
+      strapi.log.error(`[AnalysisGeneration] Failed to save game plan:`, saveError);
+      strapi.log.error(`[AnalysisGeneration] Error details:`, {
+        name: saveError.name,
+        message: saveError.message,
+        stack: saveError.stack
+      });
+      // Don't throw - analysis was successful, just saving failed
+      // User can still see results through the progress endpoints
+      return undefined;
+    }
+  },
+
   /**
    * Generate complete game plan analysis using AI
+   * Phases listed in completedPhases are reused; every new phase output is stored on the job
    */
-  async generateGamePlanAnalysis(params: any, userId: number, existingAnalysisId?: string) {
+  async generateGamePlanAnalysis(params: any, userId: number, analysisId: string, completedPhases: Record<string, any> = {}) {
     try {
       strapi.log.info(`Starting analysis generation for user ${userId}: ${params.companyName} / ${params.contactName}`);
 
       // Import game plan generator service
       const {
         generateCompleteAnalysis,
-        validateClaudeConfig
+        validateClaudeConfig,
+        progressTracker
       } = require('./game-plan-generator');
 
       // Validate Claude API configuration
@@ -866,15 +1032,6 @@ export default () => ({
         throw new Error(configValidation.error);
       }
 
-      // Use provided analysis ID or generate new one
-      const { progressTracker } = await import('./game-plan-generator');
-      const analysisId = existingAnalysisId || progressTracker.generateAnalysisId();
-
-      // Initialize progress tracking only if not already initialized
-      if (!existingAnalysisId) {
-        progressTracker.initializeProgress(analysisId);
-      }
-
       strapi.log.info(`[AnalysisGeneration] Using ID: ${analysisId}`);
 
       // Parse globalStartTime if provided (convert from ISO string to Date)
@@ -893,10 +1050,17 @@ export default () => ({
         personaDetailLevel: params.personaDetailLevel,
         influenceFramework: params.influenceFramework,
         researchData: params.researchData,
+        researchDepth: params.researchDepth, // For internal research
+        companyDomain: params.companyDomain, // For internal research
+        contactLinkedIn: params.contactLinkedIn, // For internal research
+        additionalParties: params.additionalParties, // For internal research
         selectedMaterials: params.selectedMaterials, // Pass selected materials for Phase 7
         templateChoice: params.templateChoice, // Pass template choice for PDFs
         analysisId, // Pass analysisId for progress tracking
         globalStartTime, // Pass global start time from research phase 1
+        userId,
+        completedPhases,
+        onPhaseComplete: (key, value) => progressTracker.savePhaseResult(analysisId, key, value),
         onProgress: (stage, percentage) => {
           strapi.log.info(`[AnalysisGeneration] ${stage} (${percentage}%)`);
         }
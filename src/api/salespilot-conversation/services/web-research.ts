@@ -2,7 +2,7 @@
  * web-research.ts
  *
  * Web Research Service for SalesPilot AI
- * Performs automated web research using Google Custom Search API
+ * Performs automated web research through the shared search service (configured provider, cached results)
  *
  * Research Depths:
  * - Quick (2-3 queries): Company overview, contact background, basic industry context
@@ -10,12 +10,10 @@
  * - Deep (15-20 queries): + Executive changes, product launches, customer sentiment, partnerships, regulatory news
  */
 
-import axios from 'axios';
+import googleSearchService, { SearchResult } from '../../../services/google-search-service';
 
-// Google Custom Search API configuration
-const GOOGLE_API_KEY = process.env.GOOGLE_SEARCH_API_KEY;
-const GOOGLE_SEARCH_ENGINE_ID = process.env.GOOGLE_SEARCH_ENGINE_ID;
-const GOOGLE_SEARCH_API_URL = 'https://www.googleapis.com/customsearch/v1';
+// Results requested per query
+const RESULTS_PER_QUERY = 5;
 
 /**
  * Research depth configurations
@@ -155,39 +153,24 @@ function generateSearchQueries(params: {
 }
 
 /**
- * Execute Google Custom Search API query
+ * Execute a search query
+ * Cached results are reused unless forceRefresh is set
  */
-async function executeGoogleSearch(query: string): Promise<any> {
-  if (!GOOGLE_API_KEY || !GOOGLE_SEARCH_ENGINE_ID) {
-    throw new Error('Google Custom Search API credentials not configured');
-  }
-
+async function executeSearch(query: string, forceRefresh: boolean = false): Promise<SearchResult[]> {
   try {
-    const response = await axios.get(GOOGLE_SEARCH_API_URL, {
-      params: {
-        key: GOOGLE_API_KEY,
-        cx: GOOGLE_SEARCH_ENGINE_ID,
-        q: query,
-        num: 5, // Get top 5 results per query
-      },
-      timeout: 10000, // 10 second timeout
-    });
-
-    return response.data;
+    return await googleSearchService.search(query, RESULTS_PER_QUERY, { caller: 'research', forceRefresh });
   } catch (error) {
-    console.error(`[WebResearch] Google Search API error for query "${query}":`, error.message);
+    console.error(`[WebResearch] Search error for query "${query}":`, error.message);
 
     // Return empty results on error
-    return { items: [] };
+    return [];
   }
 }
 
 /**
- * Parse and filter Google Search results
+ * Parse and filter search results
  */
-function parseSearchResults(searchResponse: any, query: string): ResearchResult[] {
-  const items = searchResponse.items || [];
-
+function parseSearchResults(items: SearchResult[], query: string): ResearchResult[] {
   return items.map((item: any, index: number) => ({
     title: item.title || '',
     link: item.link || '',
@@ -285,6 +268,7 @@ export async function performWebResearch(params: {
   additionalCompanies?: string[];
   additionalContacts?: string[];
   depth: 'quick' | 'standard' | 'deep';
+  forceRefresh?: boolean;
   onProgress?: (current: number, total: number, query: string) => void;
 }): Promise<ResearchData> {
   console.log('[WebResearch] Starting research with params:', {
@@ -313,8 +297,8 @@ export async function performWebResearch(params: {
     console.log(`[WebResearch] Executing query ${i + 1}/${totalQueries}: ${query}`);
 
     try {
-      const searchResponse = await executeGoogleSearch(query);
-      const results = parseSearchResults(searchResponse, query);
+      const searchResults = await executeSearch(query, params.forceRefresh);
+      const results = parseSearchResults(searchResults, query);
       allResults.push(...results);
 
       console.log(`[WebResearch] Query ${i + 1} returned ${results.length} results`);
@@ -380,17 +364,10 @@ export async function performWebResearch(params: {
  * Validate research configuration
  */
 export function validateResearchConfig(): { valid: boolean; error?: string } {
-  if (!GOOGLE_API_KEY) {
-    return {
-      valid: false,
-      error: 'Google Search API key not configured (GOOGLE_SEARCH_API_KEY environment variable)'
-    };
-  }
-
-  if (!GOOGLE_SEARCH_ENGINE_ID) {
+  if (!googleSearchService.validateConfiguration()) {
     return {
       valid: false,
-      error: 'Google Search Engine ID not configured (GOOGLE_SEARCH_ENGINE_ID environment variable)'
+      error: 'Web search provider not configured (see SEARCH_PROVIDER and its API key environment variables)'
     };
   }
 
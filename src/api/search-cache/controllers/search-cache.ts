@@ -0,0 +1,59 @@
+/**
+ * search-cache controller
+ */
+
+import { factories } from '@strapi/strapi';
+import googleSearchService from '../../../services/google-search-service';
+
+const isSysadmin = (user: any) => user?.userRole === 'sysadmin' || !!user?.isSuperAdmin;
+
+export default factories.createCoreController('api::search-cache.search-cache', ({ strapi }) => ({
+  /**
+   * Cache hit/miss metrics per caller and stored entry totals (sysadmin only)
+   * GET /api/search-cache/metrics
+   */
+  async metrics(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in');
+    }
+
+    if (!isSysadmin(user)) {
+      return ctx.forbidden('Only sysadmins can view search cache metrics');
+    }
+
+    try {
+      const metrics = await googleSearchService.getCacheMetrics();
+      return { data: metrics };
+    } catch (error) {
+      strapi.log.error('Search cache metrics error:', error);
+      return ctx.internalServerError('Failed to load search cache metrics');
+    }
+  },
+
+  /**
+   * Remove expired entries, or every entry with ?all=true (sysadmin only)
+   * DELETE /api/search-cache
+   */
+  async purge(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in');
+    }
+
+    if (!isSysadmin(user)) {
+      return ctx.forbidden('Only sysadmins can clear the search cache');
+    }
+
+    try {
+      const all = ctx.query.all === 'true';
+      const deleted = await googleSearchService.purgeCache(all);
+      return { data: { deleted, all } };
+    } catch (error) {
+      strapi.log.error('Search cache purge error:', error);
+      return ctx.internalServerError('Failed to clear search cache');
+    }
+  }
+}));
@@ -0,0 +1,26 @@
+/**
+ * Custom routes for search-cache
+ */
+
+export default {
+  routes: [
+    {
+      method: 'GET',
+      path: '/search-cache/metrics',
+      handler: 'search-cache.metrics',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    },
+    {
+      method: 'DELETE',
+      path: '/search-cache',
+      handler: 'search-cache.purge',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    }
+  ]
+};
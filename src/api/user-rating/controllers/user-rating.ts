@@ -59,11 +59,11 @@ export default factories.createCoreController('api::user-rating.user-rating', ({
           averageRating: uniqueRatings.length > 0
             ? Number((uniqueRatings.reduce((sum, r: any) => sum + r.rating, 0) / uniqueRatings.length).toFixed(1))
             : 0,
-          totalComments: uniqueRatings.filter((r: any) => r.comments && r.comments.trim().length > 0).length,
+          totalComments: uniqueRatings.filter((r: any) => r.comments && r.comments.trim().length > 0 && r.comment_status !== 'hidden').length,
           ratings: uniqueRatings.map((rating: any) => ({
             id: rating.id,
             rating: rating.rating,
-            hasComment: !!(rating.comments && rating.comments.trim().length > 0),
+            hasComment: !!(rating.comments && rating.comments.trim().length > 0 && rating.comment_status !== 'hidden'),
             userId: rating.users_permissions_user?.id
           }))
         };
@@ -116,10 +116,12 @@ export default factories.createCoreController('api::user-rating.user-rating', ({
         // Convert map values to array and transform the data
         const uniqueRatings = Array.from(latestRatingsByUser.values());
 
+        // Comments hidden by a moderator are never shown publicly
         const publicRatings = uniqueRatings.map((rating: any) => ({
           id: rating.id,
           rating: rating.rating,
-          comments: rating.comments || '',
+          comments: rating.comment_status === 'hidden' ? '' : (rating.comments || ''),
+          commentHidden: rating.comment_status === 'hidden',
           username: rating.users_permissions_user?.username || 'Anonymous',
           createdAt: rating.createdAt
         }));
@@ -200,7 +202,7 @@ export default factories.createCoreController('api::user-rating.user-rating', ({
 
   /**
    * Override create to automatically set the user
-   * This will update existing rating if one already exists for this user/opinion combo
+   * Ratings are unique per user/opinion, so this updates the existing rating if there is one
    */
   async create(ctx) {
     const user = ctx.state.user;
@@ -210,51 +212,165 @@ export default factories.createCoreController('api::user-rating.user-rating', ({
     }
 
     // Get the data without the user field (it will be set automatically)
-    const { rating, comments, opinion } = ctx.request.body.data;
-
-    // Check if a rating already exists for this user and opinion
-    const existingRating = await strapi.entityService.findMany('api::user-rating.user-rating', {
-      filters: {
-        opinion: opinion,
-        users_permissions_user: user.id
-      },
-      sort: { createdAt: 'desc' },
-      limit: 1
-    });
-
-    if (existingRating && existingRating.length > 0) {
-      // Update the existing rating
-      const result = await strapi.entityService.update('api::user-rating.user-rating', existingRating[0].id, {
-        data: {
-          rating,
-          comments
-        },
-        populate: ['opinion', 'users_permissions_user']
-      });
-
-      return { data: result, meta: {} };
-    }
+    const { rating, comments, opinion } = ctx.request.body.data || {};
 
     try {
-      // Create the rating using entityService with the user automatically set
-      const result = await strapi.entityService.create('api::user-rating.user-rating', {
-        data: {
-          rating,
-          comments,
-          opinion,
-          users_permissions_user: user.id  // Set user directly in entityService
-        },
-        populate: ['opinion', 'users_permissions_user']
-      });
+      const ratingService = strapi.service('api::user-rating.user-rating');
+      const opinionId = await ratingService.resolveOpinionId(opinion);
+
+      if (!opinionId) {
+        return ctx.badRequest('A valid opinion is required');
+      }
+
+      const result = await ratingService.upsertRating(user.id, opinionId, { rating, comments });
 
       // Return in the expected format
-      return { data: result, meta: {} };
+      return { data: result.rating, meta: { created: result.created } };
     } catch (error) {
       console.error('[UserRating Controller] Error creating rating:', error);
       throw error;
     }
   },
 
+  /**
+   * Revision history of the current user's rating for an opinion
+   * GET /api/user-ratings/revisions?opinionId=X
+   */
+  async revisions(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in to view rating history');
+    }
+
+    const ratingService = strapi.service('api::user-rating.user-rating');
+    const opinionId = await ratingService.resolveOpinionId(ctx.query.opinionId);
+
+    if (!opinionId) {
+      return ctx.badRequest('A valid opinionId is required');
+    }
+
+    const revisions = await ratingService.getRevisions(user.id, opinionId);
+
+    return { data: revisions, meta: {} };
+  },
+
+  /**
+   * Report another user's rating comment for moderation
+   * POST /api/user-ratings/:id/report
+   * Body: { reason?: string }
+   */
+  async report(ctx) {
+    const user = ctx.state.user;
+
+    if (!user) {
+      return ctx.unauthorized('You must be logged in to report comments');
+    }
+
+    const { id } = ctx.params;
+    const rating = await strapi.entityService.findOne('api::user-rating.user-rating', id, {
+      populate: ['opinion', 'users_permissions_user']
+    }) as any;
+
+    if (!rating || !rating.comments || rating.comments.trim().length === 0) {
+      return ctx.notFound('Comment not found');
+    }
+
+    if (rating.users_permissions_user?.id === user.id) {
+      return ctx.badRequest('You cannot report your own comment');
+    }
+
+    try {
+      const { reason } = ctx.request.body?.data || ctx.request.body || {};
+      const result = await strapi.service('api::user-rating.user-rating').reportComment(rating, user.id, reason);
+
+      if (result.created) {
+        await strapi.service('api::activity-logger.activity-logger').logActivity(user.id, 'comment_reported', {
+          ratingId: rating.id,
+          opinionId: rating.opinion?.id,
+          reason: reason || null
+        }, ctx);
+      }
+
+      return { data: { reported: true }, meta: { created: result.created } };
+    } catch (error) {
+      strapi.log.error('Error reporting comment:', error);
+      return ctx.internalServerError('Failed to report comment');
+    }
+  },
+
+  /**
+   * Reported comments awaiting review (sysadmin only)
+   * GET /api/user-ratings/moderation
+   */
+  async moderationQueue(ctx) {
+    const user = ctx.state.user;
+
+    if (!user || (user.userRole !== 'sysadmin' && !user.isSuperAdmin)) {
+      return ctx.forbidden('Only sysadmin can moderate comments');
+    }
+
+    try {
+      const queue = await strapi.service('api::user-rating.user-rating').getModerationQueue();
+      return { data: queue, meta: { total: queue.length } };
+    } catch (error) {
+      strapi.log.error('Error fetching moderation queue:', error);
+      return ctx.internalServerError('Failed to fetch moderation queue');
+    }
+  },
+
+  /**
+   * Approve, hide or delete a reported comment (sysadmin only)
+   * POST /api/user-ratings/:id/moderate
+   * Body: { action: 'approve' | 'hide' | 'delete', reason?: string }
+   * The reason is kept in the rating's revision history when a comment is deleted
+   */
+  async moderate(ctx) {
+    const user = ctx.state.user;
+
+    if (!user || (user.userRole !== 'sysadmin' && !user.isSuperAdmin)) {
+      return ctx.forbidden('Only sysadmin can moderate comments');
+    }
+
+    const { action, reason } = ctx.request.body?.data || ctx.request.body || {};
+
+    if (!['approve', 'hide', 'delete'].includes(action)) {
+      return ctx.badRequest('Action must be "approve", "hide" or "delete"');
+    }
+
+    const { id } = ctx.params;
+    const rating = await strapi.entityService.findOne('api::user-rating.user-rating', id, {
+      populate: ['opinion', 'users_permissions_user']
+    }) as any;
+
+    if (!rating) {
+      return ctx.notFound('Rating not found');
+    }
+
+    try {
+      const result = await strapi.service('api::user-rating.user-rating').moderateComment(rating, action, user.id, reason);
+
+      const activityType = {
+        approve: 'comment_approved',
+        hide: 'comment_hidden',
+        delete: 'comment_deleted'
+      }[action];
+
+      await strapi.service('api::activity-logger.activity-logger').logActivity(user.id, activityType, {
+        ratingId: rating.id,
+        opinionId: rating.opinion?.id,
+        authorId: rating.users_permissions_user?.id,
+        comments: rating.comments,
+        resolvedReports: result.resolvedReports
+      }, ctx);
+
+      return { data: result.rating, meta: { resolvedReports: result.resolvedReports } };
+    } catch (error) {
+      strapi.log.error('Error moderating comment:', error);
+      return ctx.internalServerError('Failed to moderate comment');
+    }
+  },
+
   /**
    * Override update to ensure user owns the rating
    */
@@ -268,20 +384,22 @@ export default factories.createCoreController('api::user-rating.user-rating', ({
     // First check if the rating belongs to the user
     const { id } = ctx.params;
     const rating = await strapi.entityService.findOne('api::user-rating.user-rating', id, {
-      populate: ['users_permissions_user']
+      populate: ['opinion', 'users_permissions_user']
     });
 
     if (!rating || (rating as any).users_permissions_user?.id !== user.id) {
       return ctx.forbidden('You can only update your own ratings');
     }
 
-    // Ensure user field cannot be changed
-    if (ctx.request.body.data) {
-      ctx.request.body.data.users_permissions_user = user.id;
-    }
+    // Only the score and comments can change - user and opinion stay fixed
+    const { rating: score, comments } = ctx.request.body.data || {};
+
+    const result = await strapi.service('api::user-rating.user-rating').reviseRating(rating, {
+      rating: score,
+      comments
+    });
 
-    // Call the default update method
-    return super.update(ctx);
+    return { data: result, meta: {} };
   },
 
   /**
@@ -297,14 +415,21 @@ export default factories.createCoreController('api::user-rating.user-rating', ({
     // First check if the rating belongs to the user
     const { id } = ctx.params;
     const rating = await strapi.entityService.findOne('api::user-rating.user-rating', id, {
-      populate: ['users_permissions_user']
+      populate: ['opinion', 'users_permissions_user']
     });
 
     if (!rating || (rating as any).users_permissions_user?.id !== user.id) {
       return ctx.forbidden('You can only delete your own ratings');
     }
 
+    // Keep the deletion in the rating's revision history
+    await strapi.service('api::user-rating.user-rating').recordDeletion(rating);
+
     // Call the default delete method
-    return super.delete(ctx);
+    const response = await super.delete(ctx);
+
+    await strapi.service('api::user-rating.user-rating').refreshOpinionScores((rating as any).opinion?.id);
+
+    return response;
   }
 }));
\ No newline at end of file
@@ -0,0 +1,44 @@
+/**
+ * Custom routes for user-rating
+ */
+
+export default {
+  routes: [
+    {
+      method: 'GET',
+      path: '/user-ratings/revisions',
+      handler: 'user-rating.revisions',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    },
+    {
+      method: 'GET',
+      path: '/user-ratings/moderation',
+      handler: 'user-rating.moderationQueue',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    },
+    {
+      method: 'POST',
+      path: '/user-ratings/:id/report',
+      handler: 'user-rating.report',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    },
+    {
+      method: 'POST',
+      path: '/user-ratings/:id/moderate',
+      handler: 'user-rating.moderate',
+      config: {
+        policies: [],
+        middlewares: []
+      }
+    }
+  ]
+};
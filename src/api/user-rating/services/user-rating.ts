@@ -4,4 +4,532 @@
 
 import { factories } from '@strapi/strapi';
 
-export default factories.createCoreService('api::user-rating.user-rating');
+// Supported trend buckets (passed to PostgreSQL DATE_TRUNC)
+const TREND_INTERVALS = ['day', 'week', 'month'];
+const DEFAULT_TREND_INTERVAL = 'week';
+
+/**
+ * Latest rating per user for a single opinion.
+ * Ratings are stored as draft rows (published_at IS NULL), which is what entityService reads.
+ * Relations live in Strapi 5 link tables, so we join through them directly.
+ */
+const LATEST_RATINGS_CTE = `
+  WITH latest AS (
+    SELECT DISTINCT ON (ul.user_id)
+      ul.user_id,
+      ur.rating,
+      ur.comments,
+      ur.comment_status,
+      ur.created_at,
+      ur.updated_at
+    FROM user_ratings ur
+    INNER JOIN user_ratings_opinion_lnk ol ON ol.user_rating_id = ur.id
+    INNER JOIN user_ratings_users_permissions_user_lnk ul ON ul.user_rating_id = ur.id
+    WHERE ol.opinion_id = ?
+      AND ur.published_at IS NULL
+    ORDER BY ul.user_id, ur.created_at DESC, ur.id DESC
+  )
+`;
+
+// Partial unique index guaranteeing one (draft) rating row per user/opinion pair
+const RATING_KEY_INDEX = 'user_ratings_rating_key_unique';
+
+// Moderation actions and the comment_status each one leaves behind
+const MODERATION_ACTIONS = {
+  approve: 'approved',
+  hide: 'hidden',
+  delete: 'deleted'
+} as const;
+
+type ModerationAction = keyof typeof MODERATION_ACTIONS;
+
+interface RatingInput {
+  rating: number;
+  comments?: string | null;
+}
+
+const buildRatingKey = (userId: number, opinionId: number) => `${userId}:${opinionId}`;
+
+const isUniqueViolation = (error: any) =>
+  error?.code === '23505' ||
+  error?.cause?.code === '23505' ||
+  String(error?.message || '').includes(RATING_KEY_INDEX);
+
+const toNumber = (value: any, decimals: number) => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return Number(Number(value).toFixed(decimals));
+};
+
+export default factories.createCoreService('api::user-rating.user-rating', ({ strapi }) => ({
+  /**
+   * Resolve an opinion reference (numeric id or documentId) to its numeric id
+   */
+  async resolveOpinionId(opinionRef: any): Promise<number | null> {
+    if (opinionRef === null || opinionRef === undefined || opinionRef === '') {
+      return null;
+    }
+
+    const ref = typeof opinionRef === 'object' ? (opinionRef.id ?? opinionRef.documentId) : opinionRef;
+    const where = /^\d+$/.test(String(ref)) ? { id: Number(ref) } : { documentId: ref };
+    const opinion = await strapi.db.query('api::opinion.opinion').findOne({ where, select: ['id'] });
+
+    return opinion?.id ?? null;
+  },
+
+  /**
+   * Backfill rating keys and create the (user, opinion) unique index
+   * Called from bootstrap after the schema sync, so it is safe to run on every startup
+   */
+  async ensureUniqueRatingIndex() {
+    const knex = strapi.db.connection;
+
+    await knex.raw(`
+      UPDATE user_ratings ur
+      SET rating_key = ul.user_id || ':' || ol.opinion_id
+      FROM user_ratings_opinion_lnk ol, user_ratings_users_permissions_user_lnk ul
+      WHERE ol.user_rating_id = ur.id
+        AND ul.user_rating_id = ur.id
+        AND ur.rating_key IS NULL
+    `);
+
+    await knex.raw(`
+      CREATE UNIQUE INDEX IF NOT EXISTS ${RATING_KEY_INDEX}
+      ON user_ratings (rating_key)
+      WHERE published_at IS NULL AND rating_key IS NOT NULL
+    `);
+  },
+
+  /**
+   * Find the current rating for a user/opinion pair
+   */
+  async findUserRating(userId: number, opinionId: number) {
+    const ratings = await strapi.entityService.findMany('api::user-rating.user-rating', {
+      filters: {
+        rating_key: buildRatingKey(userId, opinionId)
+      },
+      populate: ['opinion', 'users_permissions_user'],
+      limit: 1
+    });
+
+    return ratings && ratings.length > 0 ? ratings[0] : null;
+  },
+
+  /**
+   * Create or update the user's rating for an opinion
+   * Every change is recorded as a user-rating-revision
+   */
+  async upsertRating(userId: number, opinionId: number, input: RatingInput) {
+    const existing = await this.findUserRating(userId, opinionId);
+
+    if (existing) {
+      return { rating: await this.reviseRating(existing, input), created: false };
+    }
+
+    try {
+      const created = await strapi.entityService.create('api::user-rating.user-rating', {
+        data: {
+          rating: input.rating,
+          comments: input.comments,
+          opinion: opinionId,
+          users_permissions_user: userId,
+          rating_key: buildRatingKey(userId, opinionId)
+        },
+        populate: ['opinion', 'users_permissions_user']
+      });
+
+      await this.recordRevision({
+        userId,
+        opinionId,
+        ratingId: Number(created.id),
+        changeType: 'created',
+        current: input
+      });
+      await this.refreshOpinionScores(opinionId);
+
+      return { rating: created, created: true };
+    } catch (error) {
+      // Another request created the rating first - fall back to updating it
+      if (isUniqueViolation(error)) {
+        const concurrent = await this.findUserRating(userId, opinionId);
+        if (concurrent) {
+          return { rating: await this.reviseRating(concurrent, input), created: false };
+        }
+      }
+      throw error;
+    }
+  },
+
+  /**
+   * Update an existing rating and record the change
+   * Unchanged ratings are returned as-is without a new revision
+   */
+  async reviseRating(existing: any, input: RatingInput) {
+    const rating = input.rating ?? existing.rating;
+    const comments = input.comments === undefined ? existing.comments : input.comments;
+
+    if (rating === existing.rating && (comments || '') === (existing.comments || '')) {
+      return existing;
+    }
+
+    // An approval only covers the text that was reviewed
+    const commentsChanged = (comments || '') !== (existing.comments || '');
+    const commentStatus = commentsChanged && existing.comment_status === 'approved' ? 'visible' : existing.comment_status;
+
+    const updated = await strapi.entityService.update('api::user-rating.user-rating', existing.id, {
+      data: {
+        rating,
+        comments,
+        comment_status: commentStatus
+      },
+      populate: ['opinion', 'users_permissions_user']
+    });
+
+    await this.recordRevision({
+      userId: existing.users_permissions_user?.id,
+      opinionId: existing.opinion?.id,
+      ratingId: existing.id,
+      changeType: 'updated',
+      current: { rating, comments },
+      previous: existing
+    });
+    await this.refreshOpinionScores(existing.opinion?.id);
+
+    return updated;
+  },
+
+  /**
+   * Recompute the opinion's controversy/consensus scores after a rating change
+   * Failures are logged rather than thrown so the rating itself still saves
+   */
+  async refreshOpinionScores(opinionId: number) {
+    if (!opinionId) {
+      return;
+    }
+
+    try {
+      await strapi.service('api::opinion.opinion').recomputeScores(opinionId);
+    } catch (error) {
+      strapi.log.error(`[UserRating Service] Failed to refresh scores for opinion ${opinionId}:`, error);
+    }
+  },
+
+  /**
+   * Record the deletion of a rating in its revision history
+   */
+  async recordDeletion(existing: any) {
+    await this.recordRevision({
+      userId: existing.users_permissions_user?.id,
+      opinionId: existing.opinion?.id,
+      ratingId: null,
+      changeType: 'deleted',
+      current: null,
+      previous: existing
+    });
+  },
+
+  /**
+   * Append a revision for a user/opinion pair
+   */
+  async recordRevision({ userId, opinionId, ratingId, changeType, current, previous, moderatorId, moderationReason }: {
+    userId: number;
+    opinionId: number;
+    ratingId: number | null;
+    changeType: 'created' | 'updated' | 'deleted' | 'moderated';
+    current: RatingInput | null;
+    previous?: any;
+    moderatorId?: number | null;
+    moderationReason?: string | null;
+  }) {
+    if (!userId || !opinionId) {
+      strapi.log.warn(`[UserRating Service] Skipping ${changeType} revision without user/opinion`);
+      return null;
+    }
+
+    // The advisory lock serializes revisions of the same pair so concurrent saves get distinct numbers
+    return strapi.db.transaction(async ({ trx }) => {
+      await trx.raw('SELECT pg_advisory_xact_lock(hashtext(?))', [`rating-revision:${userId}:${opinionId}`]);
+
+      const revisionCount = await strapi.db.query('api::user-rating-revision.user-rating-revision').count({
+        where: {
+          user: { id: userId },
+          opinion: { id: opinionId }
+        }
+      });
+
+      return strapi.entityService.create('api::user-rating-revision.user-rating-revision', {
+        data: {
+          revision_number: revisionCount + 1,
+          change_type: changeType,
+          rating: current?.rating ?? null,
+          comments: current?.comments ?? null,
+          previous_rating: previous?.rating ?? null,
+          previous_comments: previous?.comments ?? null,
+          user_rating: ratingId,
+          opinion: opinionId,
+          user: userId,
+          moderated_by: moderatorId ?? null,
+          moderation_reason: moderationReason ?? null
+        }
+      });
+    });
+  },
+
+  /**
+   * Revision history for a user's rating of an opinion (newest first)
+   */
+  async getRevisions(userId: number, opinionId: number) {
+    return strapi.entityService.findMany('api::user-rating-revision.user-rating-revision', {
+      filters: {
+        user: { id: userId },
+        opinion: { id: opinionId }
+      },
+      fields: ['revision_number', 'change_type', 'rating', 'comments', 'previous_rating', 'previous_comments', 'moderation_reason', 'createdAt'],
+      populate: { moderated_by: { fields: ['id', 'username'] } },
+      sort: { revision_number: 'desc' }
+    });
+  },
+
+  /**
+   * Report another user's rating comment
+   * Each user can report a comment once; the rating joins the moderation queue unless already reviewed
+   */
+  async reportComment(rating: any, reporterId: number, reason?: string) {
+    const existing = await strapi.db.query('api::comment-report.comment-report').findOne({
+      where: {
+        user_rating: { id: rating.id },
+        reporter: { id: reporterId }
+      }
+    });
+
+    if (existing) {
+      return { report: existing, created: false };
+    }
+
+    const report = await strapi.entityService.create('api::comment-report.comment-report', {
+      data: {
+        reason: reason ? String(reason).slice(0, 500) : null,
+        resolution: 'pending',
+        user_rating: rating.id,
+        reporter: reporterId
+      }
+    });
+
+    // Approved and hidden comments have already been reviewed
+    if (!rating.comment_status || rating.comment_status === 'visible') {
+      await strapi.entityService.update('api::user-rating.user-rating', rating.id, {
+        data: { comment_status: 'reported' }
+      });
+    }
+
+    return { report, created: true };
+  },
+
+  /**
+   * Reported comments awaiting moderation (oldest report first)
+   */
+  async getModerationQueue() {
+    const reports = await strapi.entityService.findMany('api::comment-report.comment-report', {
+      filters: {
+        resolution: 'pending',
+        user_rating: { comment_status: 'reported' }
+      },
+      populate: {
+        reporter: { fields: ['username'] },
+        user_rating: {
+          populate: {
+            users_permissions_user: { fields: ['username', 'email'] },
+            opinion: { fields: ['statement'] }
+          }
+        }
+      },
+      sort: { createdAt: 'asc' }
+    }) as any[];
+
+    // Group reports by rating
+    const queue = new Map<number, any>();
+
+    reports.forEach((report) => {
+      const rating = report.user_rating;
+      if (!rating) {
+        return;
+      }
+
+      if (!queue.has(rating.id)) {
+        queue.set(rating.id, {
+          ratingId: rating.id,
+          rating: rating.rating,
+          comments: rating.comments || '',
+          author: rating.users_permissions_user
+            ? { id: rating.users_permissions_user.id, username: rating.users_permissions_user.username }
+            : null,
+          opinion: rating.opinion ? { id: rating.opinion.id, statement: rating.opinion.statement } : null,
+          firstReportedAt: report.createdAt,
+          reports: []
+        });
+      }
+
+      queue.get(rating.id).reports.push({
+        id: report.id,
+        reason: report.reason || '',
+        reporter: report.reporter?.username || 'Unknown',
+        createdAt: report.createdAt
+      });
+    });
+
+    return Array.from(queue.values()).map(entry => ({
+      ...entry,
+      reportCount: entry.reports.length
+    }));
+  },
+
+  /**
+   * Apply a moderation action to a rating comment and resolve its pending reports
+   * approve keeps the comment public, hide removes it from public ratings, delete clears the text
+   */
+  async moderateComment(rating: any, action: ModerationAction, moderatorId: number, reason?: string | null) {
+    const resolution = MODERATION_ACTIONS[action];
+
+    const data = action === 'delete'
+      ? { comments: null, comment_status: 'visible' as const }
+      : { comment_status: resolution as 'approved' | 'hidden' };
+
+    const updated = await strapi.entityService.update('api::user-rating.user-rating', rating.id, {
+      data,
+      populate: ['opinion', 'users_permissions_user']
+    });
+
+    // A deleted comment is an edit of the rating, so it goes into the author's revision history
+    if (action === 'delete') {
+      await this.recordRevision({
+        userId: rating.users_permissions_user?.id,
+        opinionId: rating.opinion?.id,
+        ratingId: rating.id,
+        changeType: 'moderated',
+        current: { rating: rating.rating, comments: null },
+        previous: rating,
+        moderatorId,
+        moderationReason: reason ? String(reason).slice(0, 500) : null
+      });
+    }
+
+    const pendingReports = await strapi.db.query('api::comment-report.comment-report').findMany({
+      where: {
+        user_rating: { id: rating.id },
+        resolution: 'pending'
+      },
+      select: ['id']
+    });
+
+    for (const report of pendingReports) {
+      await strapi.entityService.update('api::comment-report.comment-report', report.id, {
+        data: {
+          resolution,
+          resolved_at: new Date(),
+          resolved_by: moderatorId
+        }
+      });
+    }
+
+    return { rating: updated, resolvedReports: pendingReports.length };
+  },
+
+  /**
+   * Aggregate rating statistics for an opinion (computed in SQL)
+   * Returns summary, 0-10 histogram, percentiles and a trend over time
+   */
+  async getOpinionStats(opinionId: number, options: { interval?: string } = {}) {
+    const interval = TREND_INTERVALS.includes(options.interval) ? options.interval : DEFAULT_TREND_INTERVAL;
+    const knex = strapi.db.connection;
+
+    const summaryResult = await knex.raw(
+      `${LATEST_RATINGS_CTE}
+      SELECT
+        COUNT(*)::int AS total_ratings,
+        COUNT(*) FILTER (
+          WHERE TRIM(COALESCE(comments, '')) <> '' AND COALESCE(comment_status, 'visible') <> 'hidden'
+        )::int AS total_comments,
+        AVG(rating) AS average_rating,
+        STDDEV_POP(rating) AS std_dev,
+        MIN(rating) AS min_rating,
+        MAX(rating) AS max_rating,
+        PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY rating) AS p25,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY rating) AS p50,
+        PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY rating) AS p75,
+        PERCENTILE_CONT(0.9) WITHIN GROUP (ORDER BY rating) AS p90
+      FROM latest`,
+      [opinionId]
+    );
+
+    const histogramResult = await knex.raw(
+      `${LATEST_RATINGS_CTE}
+      SELECT rating, COUNT(*)::int AS count
+      FROM latest
+      GROUP BY rating
+      ORDER BY rating`,
+      [opinionId]
+    );
+
+    // The period is computed once: separate DATE_TRUNC(?) placeholders are different expressions to Postgres
+    const trendResult = await knex.raw(
+      `${LATEST_RATINGS_CTE},
+      periods AS (
+        SELECT DATE_TRUNC(?, updated_at) AS period, rating
+        FROM latest
+      )
+      SELECT
+        period,
+        COUNT(*)::int AS count,
+        AVG(rating) AS average_rating,
+        SUM(SUM(rating)) OVER (ORDER BY period)
+          / SUM(COUNT(*)) OVER (ORDER BY period) AS cumulative_average
+      FROM periods
+      GROUP BY period
+      ORDER BY period`,
+      [opinionId, interval]
+    );
+
+    // Handle PostgreSQL .rows format
+    const summary = (summaryResult.rows || summaryResult)[0] || {};
+    const histogramRows = histogramResult.rows || histogramResult;
+    const trendRows = trendResult.rows || trendResult;
+
+    // Always return all 11 buckets so charts don't need to fill gaps
+    const histogram = Array.from({ length: 11 }, (_, rating) => ({ rating, count: 0 }));
+    histogramRows.forEach((row: any) => {
+      if (row.rating >= 0 && row.rating <= 10) {
+        histogram[row.rating].count = row.count;
+      }
+    });
+
+    const totalRatings = summary.total_ratings || 0;
+
+    return {
+      opinionId,
+      totalRatings,
+      totalComments: summary.total_comments || 0,
+      averageRating: totalRatings > 0 ? toNumber(summary.average_rating, 1) : 0,
+      median: toNumber(summary.p50, 1),
+      standardDeviation: toNumber(summary.std_dev, 2),
+      minRating: summary.min_rating ?? null,
+      maxRating: summary.max_rating ?? null,
+      percentiles: {
+        p25: toNumber(summary.p25, 1),
+        p50: toNumber(summary.p50, 1),
+        p75: toNumber(summary.p75, 1),
+        p90: toNumber(summary.p90, 1)
+      },
+      histogram,
+      trend: {
+        interval,
+        points: trendRows.map((row: any) => ({
+          period: new Date(row.period).toISOString(),
+          count: row.count,
+          averageRating: toNumber(row.average_rating, 1),
+          cumulativeAverage: toNumber(row.cumulative_average, 1)
+        }))
+      }
+    };
+  }
+}));
@@ -115,6 +115,105 @@ export default {
       // Don't throw - allow app to start even if permission config fails
     }
 
+    // STEP 3: ENFORCE ONE RATING PER USER PER OPINION (always run)
+    // Backfills rating keys and creates the partial unique index after the schema sync
+    try {
+      await strapi.service('api::user-rating.user-rating').ensureUniqueRatingIndex();
+      strapi.log.info('[Bootstrap] ✅ User rating unique index ensured!');
+    } catch (error) {
+      console.error('[Bootstrap] ❌ Error ensuring user rating unique index:', error);
+      // Don't throw - allow app to start even if the index cannot be created
+    }
+
+    // STEP 4: OPINION FULL-TEXT SEARCH INDEX (always run)
+    try {
+      await strapi.service('api::opinion.opinion').ensureSearchIndex();
+      strapi.log.info('[Bootstrap] ✅ Opinion search index ensured!');
+    } catch (error) {
+      console.error('[Bootstrap] ❌ Error ensuring opinion search index:', error);
+      // Don't throw - search still works without the index, just slower
+    }
+
+    // STEP 5: BACKFILL OPINION CONTROVERSY/CONSENSUS SCORES (always run)
+    try {
+      await strapi.service('api::opinion.opinion').recomputeScores();
+      strapi.log.info('[Bootstrap] ✅ Opinion scores recomputed!');
+    } catch (error) {
+      console.error('[Bootstrap] ❌ Error recomputing opinion scores:', error);
+      // Don't throw - scores are refreshed again on the next rating change
+    }
+
+    // STEP 6: OPINION LIFECYCLE (always run)
+    // Existing opinions become live, then catch up on transitions missed while the server was down
+    try {
+      const opinionService = strapi.service('api::opinion.opinion');
+      const backfilled = await opinionService.backfillLifecycleStatus();
+      const { published, archived } = await opinionService.transitionLifecycle();
+      strapi.log.info(`[Bootstrap] ✅ Opinion lifecycle ready (${backfilled} backfilled, ${published} published, ${archived} archived)`);
+    } catch (error) {
+      console.error('[Bootstrap] ❌ Error preparing opinion lifecycle:', error);
+      // Don't throw - the cron task retries transitions every minute
+    }
+
+    // STEP 7: QUOTE DRAFT REVIEW STATUS BACKFILL (always run)
+    try {
+      const backfilled = await strapi.service('api::quote-draft.quote-draft').backfillReviewStatus();
+      if (backfilled > 0) {
+        strapi.log.info(`[Bootstrap] ✅ Backfilled review status for ${backfilled} quote draft(s)`);
+      }
+    } catch (error) {
+      console.error('[Bootstrap] ❌ Error backfilling quote draft review status:', error);
+      // Don't throw - only affects drafts created before the review workflow
+    }
+
+    // STEP 8: RESUME QUOTE GENERATION QUEUE (always run)
+    // Jobs left running by a previous process are requeued once they go stale
+    try {
+      const quoteDraftService = strapi.service('api::quote-draft.quote-draft');
+      const recovered = await quoteDraftService.recoverStaleJobs();
+      const started = await quoteDraftService.processQueue();
+      if (recovered > 0 || started > 0) {
+        strapi.log.info(`[Bootstrap] ✅ Quote generation queue resumed (${recovered} recovered, ${started} started)`);
+      }
+    } catch (error) {
+      console.error('[Bootstrap] ❌ Error resuming quote generation queue:', error);
+      // Don't throw - the cron task processes the queue every minute
+    }
+
+    // STEP 9: RESUME INTERRUPTED GAME PLAN ANALYSES (always run)
+    // Analyses left running by a previous process continue from their last stored phase once they go stale
+    try {
+      const salespilotService = strapi.service('api::salespilot-conversation.salespilot-conversation');
+      const { resumed, failed } = await salespilotService.resumeInterruptedAnalyses();
+      if (resumed > 0 || failed > 0) {
+        strapi.log.info(`[Bootstrap] ✅ Game plan analyses recovered (${resumed} resumed, ${failed} failed)`);
+      }
+    } catch (error) {
+      console.error('[Bootstrap] ❌ Error resuming game plan analyses:', error);
+      // Don't throw - the cron task checks for interrupted analyses every minute
+    }
+
+    // STEP 10: ENFORCE DISTINCT GAME PLAN VERSION NUMBERS (always run)
+    // Backfills version keys and creates the unique index after the schema sync
+    try {
+      const { default: gamePlanVersions } = await import('./api/salespilot-conversation/services/game-plan-versions');
+      await gamePlanVersions.ensureUniqueVersionIndex();
+      strapi.log.info('[Bootstrap] ✅ Game plan version unique index ensured!');
+    } catch (error) {
+      console.error('[Bootstrap] ❌ Error ensuring game plan version unique index:', error);
+      // Don't throw - allow app to start even if the index cannot be created
+    }
+
+    // STEP 11: ANALYSIS EVENT STREAM INDEX (always run)
+    try {
+      const { default: analysisEvents } = await import('./api/salespilot-conversation/services/analysis-events');
+      await analysisEvents.ensureIndex();
+      strapi.log.info('[Bootstrap] ✅ Analysis event index ensured!');
+    } catch (error) {
+      console.error('[Bootstrap] ❌ Error ensuring analysis event index:', error);
+      // Don't throw - progress streams still work without the index, just slower
+    }
+
     strapi.log.info('[Bootstrap] Bootstrap complete, starting application...\n');
   },
 };
@@ -1,73 +1,79 @@
 /**
- * AI Manager Rate Limiting Middleware
- * Limits AI API requests to prevent abuse and control costs
+ * AI Rate Limiting Middleware
+ * Limits AI API requests per user (or per client IP without one) to prevent abuse and control costs
+ *
+ * Policies and per-profile overrides live in the rate limit service; counters are kept in the
+ * configured store so limits hold across instances. Responses carry RateLimit-* headers.
  */
 
-interface RateLimitStore {
-  [userId: string]: {
-    count: number;
-    resetTime: number;
-  };
-}
+import rateLimitService from '../services/rate-limit-service';
 
-// In-memory store for rate limiting (use Redis in production for distributed systems)
-const rateLimitStore: RateLimitStore = {};
+/**
+ * User id from ctx.state or the bearer token (SalesPilot and quote-draft routes authenticate in their controllers)
+ */
+async function resolveUserId(ctx): Promise<number | null> {
+  if (ctx.state.user?.id) {
+    return ctx.state.user.id;
+  }
 
-// Rate limit configuration
-const RATE_LIMIT_WINDOW = 60 * 60 * 1000; // 1 hour in milliseconds
-const MAX_REQUESTS_PER_WINDOW = 50; // 50 requests per hour per user
+  const authHeader = ctx.request.header.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null;
+  }
+
+  try {
+    const jwtService = strapi.plugin('users-permissions').service('jwt');
+    const decoded = await jwtService.verify(authHeader.replace(/^Bearer\s+/, ''));
+    return decoded?.id || null;
+  } catch (error) {
+    return null;
+  }
+}
 
 export default () => {
   return async (ctx, next) => {
-    // Only apply rate limiting to AI Manager endpoints
-    if (!ctx.request.url.startsWith('/api/ai-manager')) {
+    const policy = rateLimitService.matchPolicy(ctx.method, ctx.path);
+    if (!policy) {
       return await next();
     }
 
-    // Get user ID from authenticated request
-    // Note: ctx.state.user is populated by the isAuthenticated policy
-    const userId = ctx.state.user?.id;
+    // Requests without a user are limited per IP; this middleware cannot see whether the route rejects them
+    const userId = await resolveUserId(ctx);
+    const client = userId ? `user ${userId}` : `IP ${ctx.request.ip}`;
 
-    if (!userId) {
-      // This should not happen if authentication policy is working correctly
-      strapi.log.error('AI Manager: No user found in ctx.state after authentication');
-      return ctx.unauthorized('Authentication required');
+    let result;
+    try {
+      result = userId
+        ? await rateLimitService.consume(policy, userId)
+        : await rateLimitService.consumeAnonymous(policy, ctx.request.ip || 'unknown');
+    } catch (error) {
+      // A store outage should not take the AI endpoints down with it
+      strapi.log.error(`AI Rate Limit: Store error for ${policy.name}, allowing request: ${error.message}`);
+      return await next();
     }
 
-    const now = Date.now();
-    const userKey = `ai-manager:${userId}`;
-
-    // Initialize or get user's rate limit data
-    if (!rateLimitStore[userKey] || now > rateLimitStore[userKey].resetTime) {
-      rateLimitStore[userKey] = {
-        count: 0,
-        resetTime: now + RATE_LIMIT_WINDOW
-      };
+    if (!result) {
+      return await next();
     }
 
-    // Check if user has exceeded rate limit
-    if (rateLimitStore[userKey].count >= MAX_REQUESTS_PER_WINDOW) {
-      const resetIn = Math.ceil((rateLimitStore[userKey].resetTime - now) / 1000 / 60);
+    const resetSeconds = Math.max(0, Math.ceil((result.resetAt.getTime() - Date.now()) / 1000));
 
-      strapi.log.warn(`AI Manager: Rate limit exceeded for user ${userId}`);
+    ctx.set({
+      'RateLimit-Limit': result.limit.toString(),
+      'RateLimit-Remaining': result.remaining.toString(),
+      'RateLimit-Reset': resetSeconds.toString(),
+      'RateLimit-Policy': `${result.limit};w=${result.windowSeconds}`
+    });
 
+    if (!result.allowed) {
+      strapi.log.warn(`AI Rate Limit: ${policy.name} limit exceeded for ${client}`);
+
+      ctx.set('Retry-After', resetSeconds.toString());
       return ctx.tooManyRequests(
-        `Rate limit exceeded. You can make ${MAX_REQUESTS_PER_WINDOW} requests per hour. Try again in ${resetIn} minutes.`
+        `Rate limit exceeded. You can make ${result.limit} requests every ${Math.round(result.windowSeconds / 60)} minutes. Try again in ${Math.ceil(resetSeconds / 60)} minutes.`
       );
     }
 
-    // Increment request count
-    rateLimitStore[userKey].count++;
-
-    // Add rate limit headers
-    ctx.set({
-      'X-RateLimit-Limit': MAX_REQUESTS_PER_WINDOW.toString(),
-      'X-RateLimit-Remaining': (MAX_REQUESTS_PER_WINDOW - rateLimitStore[userKey].count).toString(),
-      'X-RateLimit-Reset': new Date(rateLimitStore[userKey].resetTime).toISOString()
-    });
-
-    strapi.log.info(`AI Manager: Rate limit check passed for user ${userId} (${rateLimitStore[userKey].count}/${MAX_REQUESTS_PER_WINDOW})`);
-
     await next();
   };
 };
@@ -1,14 +1,36 @@
 /**
  * Shared AI Service
  * Centralized service for all AI operations using Anthropic Claude
+ *
+ * Every model call goes through complete(), completeStreaming() or streamCompletion(), which:
+ * - pick the model per feature (AI_MODEL_<FEATURE>, then AI_MODEL_<GROUP> for "group.name" features)
+ * - check the caller's token budget and record usage (see ai-usage-service.ts)
+ * - time out after AI_TIMEOUT_MS and retry transient failures with exponential backoff (AI_MAX_RETRIES)
+ * - send the request through the configured transport (see ai-transports.ts), so tests can run offline
  */
 
-import Anthropic from '@anthropic-ai/sdk';
 import { Readable } from 'stream';
+import aiUsageService, { AI_BUDGET_EXCEEDED } from './ai-usage-service';
+import { AIMessageRequest, AIMessageResponse, AITransport, getConfiguredTransport } from './ai-transports';
 
 // Default configuration
 const DEFAULT_MODEL = 'claude-3-7-sonnet-20250219';
 const MAX_TOKENS = 4096;
+const DEFAULT_TIMEOUT_MS = 120000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BASE_MS = 1000;
+
+export const AI_TIMEOUT = 'AI_TIMEOUT';
+
+// Built-in model per feature (or feature group); anything else uses ANTHROPIC_MODEL
+const FEATURE_MODELS: Record<string, string> = {
+  game_plan: 'claude-sonnet-4-5-20250929',
+  content_improvement: 'claude-sonnet-4-5-20250929',
+  materials: 'claude-sonnet-4-20250514'
+};
+
+// Upstream statuses worth another attempt (529 = overloaded)
+const RETRYABLE_STATUSES = [408, 409, 429, 500, 502, 503, 504, 529];
 
 interface StreamingOptions {
   onChunk?: (text: string) => void;
@@ -16,6 +38,19 @@ interface StreamingOptions {
   onError?: (error: Error) => void;
 }
 
+export interface CompletionRequest {
+  feature: string;
+  userId?: number | null;
+  prompt?: string;
+  messages?: AIMessageRequest['messages'];
+  system?: string;
+  maxTokens?: number;
+  temperature?: number;
+  model?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
 interface QuoteCandidate {
   quote_text: string;
   speaker_name: string;
@@ -30,64 +65,256 @@ interface QuoteExtractionResult {
   selection_reasoning: string;
 }
 
+const envKey = (name: string) => name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+
+const envInt = (name: string, fallback: number): number => {
+  const parsed = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+/**
+ * Model for a feature: explicit option, AI_MODEL_<FEATURE>, AI_MODEL_<GROUP>, built-in default, ANTHROPIC_MODEL
+ */
+const resolveModel = (feature: string, model?: string): string => {
+  const group = feature.split('.')[0];
+
+  return model
+    || process.env[`AI_MODEL_${envKey(feature)}`]
+    || process.env[`AI_MODEL_${envKey(group)}`]
+    || FEATURE_MODELS[feature]
+    || FEATURE_MODELS[group]
+    || process.env.ANTHROPIC_MODEL
+    || DEFAULT_MODEL;
+};
+
+const isRetryable = (error: any): boolean => {
+  if (error?.code === AI_BUDGET_EXCEEDED) {
+    return false;
+  }
+
+  return error?.code === AI_TIMEOUT
+    || RETRYABLE_STATUSES.includes(error?.status)
+    || error?.name === 'APIConnectionError'
+    || error?.name === 'APIConnectionTimeoutError'
+    || ['ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN'].includes(error?.code);
+};
+
+const timeoutError = (timeoutMs: number) =>
+  Object.assign(new Error(`AI request timed out after ${timeoutMs}ms`), { code: AI_TIMEOUT });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run a request with an abort signal that fires after timeoutMs
+ */
+const withTimeout = async <T>(timeoutMs: number, run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(timeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
 class AIService {
-  private anthropic: Anthropic;
-  private model: string;
+  private transportOverride: AITransport | null = null;
+
+  /**
+   * Replace the configured transport (pass nothing to go back to AI_TRANSPORT)
+   */
+  setTransport(transport?: AITransport) {
+    this.transportOverride = transport || null;
+  }
+
+  /**
+   * Transport used for model calls
+   */
+  getTransport(): AITransport {
+    return this.transportOverride || getConfiguredTransport();
+  }
 
-  constructor() {
-    if (!process.env.ANTHROPIC_API_KEY) {
-      throw new Error('ANTHROPIC_API_KEY is not configured');
+  /**
+   * Whether the selected transport can make calls
+   */
+  isConfigured(): boolean {
+    try {
+      return this.getTransport().isConfigured();
+    } catch (error) {
+      return false;
     }
+  }
+
+  /**
+   * Model a feature will use
+   */
+  getModel(feature: string): string {
+    return resolveModel(feature);
+  }
+
+  private buildRequest(request: CompletionRequest): AIMessageRequest {
+    return {
+      model: resolveModel(request.feature, request.model),
+      max_tokens: request.maxTokens || MAX_TOKENS,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.system && { system: request.system }),
+      messages: request.messages || [{ role: 'user', content: request.prompt || '' }]
+    };
+  }
+
+  /**
+   * Run a completion and return the full response (text, model, usage)
+   */
+  async createMessage(request: CompletionRequest): Promise<AIMessageResponse> {
+    const transport = this.getTransport();
+    const message = this.buildRequest(request);
+    const timeoutMs = request.timeoutMs || envInt('AI_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+    const maxRetries = request.maxRetries ?? envInt('AI_MAX_RETRIES', DEFAULT_MAX_RETRIES);
+    const retryBaseMs = envInt('AI_RETRY_BASE_MS', DEFAULT_RETRY_BASE_MS);
+
+    return aiUsageService.meter({ userId: request.userId, feature: request.feature }, async () => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await withTimeout(timeoutMs, signal =>
+            transport.createMessage(message, { feature: request.feature, signal })
+          );
+        } catch (error) {
+          if (attempt >= maxRetries || !isRetryable(error)) {
+            throw error;
+          }
 
-    this.anthropic = new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY
+          const delay = retryBaseMs * Math.pow(2, attempt) + Math.floor(Math.random() * retryBaseMs);
+          strapi.log.warn(`AI Service: ${request.feature} attempt ${attempt + 1} failed (${error.message}), retrying in ${delay}ms`);
+          await sleep(delay);
+        }
+      }
     });
+  }
+
+  /**
+   * Run a completion and return its text
+   */
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await this.createMessage(request);
+    return response.text;
+  }
+
+  /**
+   * Run a completion, passing text to onText as it arrives, and return the full text
+   * Failures before the first chunk are retried; the timeout applies to the gap between chunks
+   */
+  async completeStreaming(request: CompletionRequest, onText: (text: string) => void): Promise<string> {
+    await aiUsageService.assertWithinBudget({ userId: request.userId, feature: request.feature });
+    return this.runStream(request, onText);
+  }
+
+  /**
+   * Stream one completion through the transport and record its usage (budget already checked)
+   */
+  private async runStream(request: CompletionRequest, onText: (text: string) => void): Promise<string> {
+    const { userId, feature } = request;
+    const transport = this.getTransport();
+    const message = this.buildRequest(request);
+    const timeoutMs = request.timeoutMs || envInt('AI_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+    const maxRetries = request.maxRetries ?? envInt('AI_MAX_RETRIES', DEFAULT_MAX_RETRIES);
+    const retryBaseMs = envInt('AI_RETRY_BASE_MS', DEFAULT_RETRY_BASE_MS);
+
+    const usage = { model: message.model, inputTokens: 0, outputTokens: 0 };
+    let text = '';
+    let emitted = false;
+
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      let timedOut = false;
+      let timer: NodeJS.Timeout;
+      const resetTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs);
+      };
+
+      try {
+        resetTimer();
+
+        for await (const event of transport.streamMessage(message, { feature, signal: controller.signal })) {
+          resetTimer();
+
+          if (event.type === 'start') {
+            usage.model = event.model || message.model;
+            usage.inputTokens = event.inputTokens;
+          } else if (event.type === 'text') {
+            emitted = true;
+            text += event.text;
+            onText(event.text);
+          } else if (event.type === 'stop') {
+            usage.outputTokens = event.outputTokens || usage.outputTokens;
+          }
+        }
+
+        clearTimeout(timer);
+        await aiUsageService.record({ userId, feature, ...usage });
+        return text;
+      } catch (streamError) {
+        clearTimeout(timer);
+        const error = timedOut ? timeoutError(timeoutMs) : streamError;
+
+        if (!emitted && attempt < maxRetries && isRetryable(error)) {
+          const delay = retryBaseMs * Math.pow(2, attempt) + Math.floor(Math.random() * retryBaseMs);
+          strapi.log.warn(`AI Service: ${feature} stream attempt ${attempt + 1} failed (${error.message}), retrying in ${delay}ms`);
+          await sleep(delay);
+          continue;
+        }
 
-    this.model = process.env.ANTHROPIC_MODEL || DEFAULT_MODEL;
+        if (emitted || usage.inputTokens > 0) {
+          await aiUsageService.record({ userId, feature, ...usage });
+        }
+        throw error;
+      }
+    }
   }
 
   /**
    * Stream a completion response (for AI Manager and other streaming use cases)
+   * Emits SSE data lines: { text } per chunk, then [DONE] (or { error })
    */
-  async streamCompletion(prompt: string, userId?: number | null): Promise<Readable> {
+  async streamCompletion(prompt: string, userId?: number | null, feature: string = 'ai_manager'): Promise<Readable> {
     try {
       strapi.log.info(`AI Service: Streaming completion for user ${userId || 'anonymous'}`);
 
-      // Save references to use inside the stream
-      const anthropic = this.anthropic;
-      const model = this.model;
+      await aiUsageService.assertWithinBudget({ userId, feature });
 
-      const stream = new Readable({
-        async read() {
-          try {
-            const messageStream = await anthropic.messages.create({
-              model,
-              max_tokens: MAX_TOKENS,
-              messages: [
-                {
-                  role: 'user',
-                  content: prompt
-                }
-              ],
-              stream: true
-            });
+      let started = false;
 
-            for await (const event of messageStream) {
-              if (event.type === 'content_block_delta') {
-                const delta = event.delta as any;
-                if (delta?.text) {
-                  this.push(`data: ${JSON.stringify({ text: delta.text })}\n\n`);
-                }
-              } else if (event.type === 'message_stop') {
-                this.push('data: [DONE]\n\n');
-                this.push(null);
-              }
-            }
-          } catch (error) {
-            strapi.log.error('AI streaming error:', error);
-            this.push(`data: ${JSON.stringify({ error: error.message })}\n\n`);
-            this.push(null);
+      const stream = new Readable({
+        read: () => {
+          // read() is called again whenever the buffer drains; only the first call starts the request
+          if (started) {
+            return;
           }
+          started = true;
+
+          this.runStream({ feature, userId, prompt }, text => {
+            stream.push(`data: ${JSON.stringify({ text })}\n\n`);
+          })
+            .then(() => {
+              stream.push('data: [DONE]\n\n');
+              stream.push(null);
+            })
+            .catch(error => {
+              strapi.log.error('AI streaming error:', error);
+              stream.push(`data: ${JSON.stringify({ error: error.message })}\n\n`);
+              stream.push(null);
+            });
         }
       });
 
@@ -101,28 +328,16 @@ class AIService {
   /**
    * Get a non-streaming completion (for quote extraction and analysis)
    */
-  async getCompletion(prompt: string, userId?: number | null, maxTokens: number = MAX_TOKENS): Promise<string> {
+  async getCompletion(
+    prompt: string,
+    userId?: number | null,
+    maxTokens: number = MAX_TOKENS,
+    feature: string = 'general'
+  ): Promise<string> {
     try {
       strapi.log.info(`AI Service: Getting completion for user ${userId || 'anonymous'}`);
 
-      const response = await this.anthropic.messages.create({
-        model: this.model,
-        max_tokens: maxTokens,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      });
-
-      // Extract text from response
-      const content = response.content[0];
-      if (content.type === 'text') {
-        return content.text;
-      }
-
-      throw new Error('Unexpected response format from AI');
+      return await this.complete({ feature, userId, prompt, maxTokens });
     } catch (error) {
       strapi.log.error('AI completion error:', error);
       throw error;
@@ -150,7 +365,7 @@ class AIService {
       const prompt = this.buildQuoteExtractionPrompt(searchResults, criteria);
 
       // Get AI response
-      const responseText = await this.getCompletion(prompt, userId, 2000);
+      const responseText = await this.getCompletion(prompt, userId, 2000, 'quote_extraction');
 
       // Parse JSON response
       const result = this.parseQuoteResponse(responseText);
@@ -165,12 +380,15 @@ class AIService {
   /**
    * Build search query using AI
    */
-  async buildSearchQuery(criteria: {
-    category: string;
-    generationType: string;
-    generationSource: string;
-    generationDetails?: string;
-  }): Promise<string[]> {
+  async buildSearchQuery(
+    criteria: {
+      category: string;
+      generationType: string;
+      generationSource: string;
+      generationDetails?: string;
+    },
+    userId?: number | null
+  ): Promise<string[]> {
     try {
       const prompt = `You are a search query expert. Build 3 different Google search queries to find real quotes from ${criteria.generationType} about ${criteria.category} from ${criteria.generationSource} sources.
 
@@ -185,7 +403,7 @@ Requirements:
 Return ONLY a JSON array of 3 search queries, nothing else. Format:
 ["query 1", "query 2", "query 3"]`;
 
-      const response = await this.getCompletion(prompt, null, 500);
+      const response = await this.getCompletion(prompt, userId, 500, 'search_query');
 
       // Parse JSON response
       const queries = JSON.parse(response.trim());
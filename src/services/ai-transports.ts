@@ -0,0 +1,217 @@
+/**
+ * AI Transports
+ * Pluggable backends that carry AIService requests to a model
+ *
+ * Transports:
+ * - anthropic: Anthropic Messages API (ANTHROPIC_API_KEY)
+ * - mock: offline canned responses per feature for tests and local development (optional AI_MOCK_RESPONSES_PATH)
+ *
+ * Selected with AI_TRANSPORT (default: "anthropic")
+ */
+
+import fs from 'fs';
+import Anthropic from '@anthropic-ai/sdk';
+
+const DEFAULT_TRANSPORT = 'anthropic';
+
+export interface AIMessageRequest {
+  model: string;
+  max_tokens: number;
+  temperature?: number;
+  system?: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+}
+
+export interface AIMessageResponse {
+  model: string;
+  text: string;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+export type AIStreamEvent =
+  | { type: 'start'; model: string; inputTokens: number }
+  | { type: 'text'; text: string }
+  | { type: 'stop'; outputTokens: number };
+
+export interface AITransportOptions {
+  feature: string;
+  signal?: AbortSignal;
+}
+
+export interface AITransport {
+  name: string;
+  isConfigured(): boolean;
+  createMessage(request: AIMessageRequest, options: AITransportOptions): Promise<AIMessageResponse>;
+  streamMessage(request: AIMessageRequest, options: AITransportOptions): AsyncIterable<AIStreamEvent>;
+}
+
+let anthropicClient: Anthropic | null = null;
+
+const getAnthropicClient = (): Anthropic => {
+  if (!process.env.ANTHROPIC_API_KEY) {
+    throw new Error('ANTHROPIC_API_KEY is not configured');
+  }
+
+  // Retries and timeouts are handled by AIService so every transport behaves the same
+  if (!anthropicClient) {
+    anthropicClient = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      maxRetries: 0
+    });
+  }
+
+  return anthropicClient;
+};
+
+const anthropicTransport: AITransport = {
+  name: 'anthropic',
+
+  isConfigured() {
+    return !!process.env.ANTHROPIC_API_KEY;
+  },
+
+  async createMessage(request, options) {
+    const response = await getAnthropicClient().messages.create(request, { signal: options.signal });
+
+    const text = response.content
+      .map(block => (block.type === 'text' ? block.text : ''))
+      .join('');
+
+    return {
+      model: response.model,
+      text,
+      usage: {
+        input_tokens: response.usage?.input_tokens || 0,
+        output_tokens: response.usage?.output_tokens || 0
+      }
+    };
+  },
+
+  async *streamMessage(request, options) {
+    const stream = await getAnthropicClient().messages.create({ ...request, stream: true }, { signal: options.signal });
+
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        yield { type: 'start', model: event.message.model, inputTokens: event.message.usage?.input_tokens || 0 };
+      } else if (event.type === 'content_block_delta') {
+        const delta = event.delta as any;
+        if (delta?.text) {
+          yield { type: 'text', text: delta.text };
+        }
+      } else if (event.type === 'message_delta') {
+        yield { type: 'stop', outputTokens: event.usage?.output_tokens || 0 };
+      }
+    }
+  }
+};
+
+// Used when AI_MOCK_RESPONSES_PATH is not set; keyed by feature, then by the part before the first dot
+const DEFAULT_MOCK_RESPONSES: Record<string, string> = {
+  search_query: '["mock quote statement interview", "mock said in a statement", "mock opinion quote source"]',
+  quote_extraction: JSON.stringify({
+    candidates: [1, 2, 3].map(index => ({
+      quote_text: `Mock quote number ${index} for offline testing.`,
+      speaker_name: `Mock Speaker ${index}`,
+      publication_source: 'Mock Publication',
+      source_url: `https://example.com/mock-quote-${index}`,
+      confidence_score: 90 - index * 5
+    })),
+    selected_quote: {
+      quote_text: 'Mock quote number 1 for offline testing.',
+      speaker_name: 'Mock Speaker 1',
+      publication_source: 'Mock Publication',
+      source_url: 'https://example.com/mock-quote-1',
+      confidence_score: 85
+    },
+    selection_reasoning: 'Mock transport always selects the first candidate.'
+  }),
+  opinion_generation: '{"quote_text": "Mock opinion for offline testing.", "speaker_name": "Mock Speaker", "publication_source": "Mock Publication"}',
+  web_research: '{}',
+  salespilot_conversation: 'Got it, thanks!',
+  content_improvement: '---IMPROVED CONTENT---\nMock improved content.\n---CHANGES SUMMARY---\n- Mock change\n---RATIONALE---\nMock rationale.',
+  materials: 'Subject: Mock meeting email\n\nMock email body for offline testing.',
+  game_plan: '## Mock Section\n- Mock insight for offline testing'
+};
+
+let loadedMockResponses: { path: string; responses: Record<string, string> } | null = null;
+
+const loadMockResponses = (): Record<string, string> => {
+  const responsesPath = process.env.AI_MOCK_RESPONSES_PATH;
+  if (!responsesPath) {
+    return DEFAULT_MOCK_RESPONSES;
+  }
+
+  if (loadedMockResponses?.path !== responsesPath) {
+    const parsed = JSON.parse(fs.readFileSync(responsesPath, 'utf8'));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`AI mock responses at ${responsesPath} must be a JSON object of { feature: text }`);
+    }
+    loadedMockResponses = { path: responsesPath, responses: { ...DEFAULT_MOCK_RESPONSES, ...parsed } };
+  }
+
+  return loadedMockResponses.responses;
+};
+
+const mockResponseFor = (feature: string): string => {
+  const responses = loadMockResponses();
+  return responses[feature] ?? responses[feature.split('.')[0]] ?? `Mock response for ${feature}`;
+};
+
+// Rough token count so the usage ledger still has numbers offline
+const estimateTokens = (text: string) => Math.max(1, Math.ceil((text || '').length / 4));
+
+const requestText = (request: AIMessageRequest) =>
+  [request.system || '', ...request.messages.map(message => message.content)].join('\n');
+
+const mockTransport: AITransport = {
+  name: 'mock',
+
+  isConfigured() {
+    return true;
+  },
+
+  async createMessage(request, options) {
+    const text = mockResponseFor(options.feature);
+
+    return {
+      model: `mock-${request.model}`,
+      text,
+      usage: {
+        input_tokens: estimateTokens(requestText(request)),
+        output_tokens: estimateTokens(text)
+      }
+    };
+  },
+
+  async *streamMessage(request, options) {
+    const text = mockResponseFor(options.feature);
+
+    yield { type: 'start', model: `mock-${request.model}`, inputTokens: estimateTokens(requestText(request)) };
+    for (const word of text.match(/\S+\s*/g) || []) {
+      yield { type: 'text', text: word };
+    }
+    yield { type: 'stop', outputTokens: estimateTokens(text) };
+  }
+};
+
+export const aiTransports: Record<string, AITransport> = {
+  [anthropicTransport.name]: anthropicTransport,
+  [mockTransport.name]: mockTransport
+};
+
+/**
+ * Transport named by AI_TRANSPORT
+ */
+export function getConfiguredTransport(): AITransport {
+  const name = (process.env.AI_TRANSPORT || DEFAULT_TRANSPORT).trim().toLowerCase();
+  const transport = aiTransports[name];
+
+  if (!transport) {
+    throw new Error(`Unknown AI_TRANSPORT "${name}" (expected one of: ${Object.keys(aiTransports).join(', ')})`);
+  }
+
+  return transport;
+}
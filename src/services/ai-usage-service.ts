@@ -0,0 +1,263 @@
+/**
+ * AI Usage Service
+ * Token usage ledger and monthly budgets for every AI model call
+ *
+ * Each call records input/output tokens, model and feature in the ai-usage collection.
+ * Before a call, the user's monthly token budget and their primary permission profile's
+ * budget (shared by all of its users) are checked; an exceeded budget fails the call
+ * with status 429 so controllers report it like a rate limit.
+ *
+ * Budgets are set per user and per profile (aiMonthlyTokenBudget); users without one fall
+ * back to AI_DEFAULT_MONTHLY_TOKEN_BUDGET. No budget means unlimited.
+ */
+
+// Estimated USD price per million tokens, matched against the model name
+const MODEL_PRICING: Array<{ match: string; input: number; output: number }> = [
+  { match: 'opus', input: 15, output: 75 },
+  { match: 'haiku', input: 0.8, output: 4 },
+  { match: 'sonnet', input: 3, output: 15 }
+];
+const DEFAULT_PRICING = { input: 3, output: 15 };
+
+export const AI_BUDGET_EXCEEDED = 'AI_BUDGET_EXCEEDED';
+
+export interface UsageContext {
+  userId?: number | null;
+  feature: string;
+}
+
+export interface UsageRecord extends UsageContext {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+interface BudgetStatus {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+}
+
+/**
+ * First instant of the current calendar month (UTC)
+ */
+const monthStart = (now: Date = new Date()) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+const budgetStatus = (limit: number | null, used: number): BudgetStatus => ({
+  limit,
+  used,
+  remaining: limit === null ? null : Math.max(0, limit - used)
+});
+
+const parseBudget = (value: any): number | null => {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+class AIUsageService {
+  /**
+   * Estimated cost in USD for a call
+   */
+  estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+    const pricing = MODEL_PRICING.find(entry => (model || '').toLowerCase().includes(entry.match)) || DEFAULT_PRICING;
+    return Number(((inputTokens * pricing.input + outputTokens * pricing.output) / 1000000).toFixed(6));
+  }
+
+  /**
+   * The user's primary permission profile id, if any
+   */
+  async getPrimaryProfileId(userId: number): Promise<number | null> {
+    const result = await strapi.db.connection.raw(
+      'SELECT permission_profile_id FROM up_users_primary_profile_lnk WHERE user_id = ? LIMIT 1',
+      [userId]
+    );
+    const rows = result.rows || result;
+    return rows[0]?.permission_profile_id || null;
+  }
+
+  /**
+   * Budgets and usage this month for a user and their primary profile
+   */
+  async getBudgetStatus(userId: number) {
+    const since = monthStart();
+    const profileId = await this.getPrimaryProfileId(userId);
+
+    const user = await strapi.db.query('plugin::users-permissions.user').findOne({
+      where: { id: userId },
+      select: ['id', 'aiMonthlyTokenBudget']
+    });
+    const profile = profileId
+      ? await strapi.db.query('api::permission-profile.permission-profile').findOne({
+        where: { id: profileId },
+        select: ['id', 'name', 'aiMonthlyTokenBudget']
+      })
+      : null;
+
+    const userUsed = await this.sumTokens('user_id', userId, since);
+    const profileUsed = profile ? await this.sumTokens('permission_profile_id', profile.id, since) : 0;
+
+    return {
+      periodStart: since,
+      user: budgetStatus(
+        parseBudget(user?.aiMonthlyTokenBudget) ?? parseBudget(process.env.AI_DEFAULT_MONTHLY_TOKEN_BUDGET),
+        userUsed
+      ),
+      profile: profile
+        ? { id: profile.id, name: profile.name, ...budgetStatus(parseBudget(profile.aiMonthlyTokenBudget), profileUsed) }
+        : null
+    };
+  }
+
+  /**
+   * Tokens used since a date by a user (user_id) or a profile (permission_profile_id)
+   */
+  private async sumTokens(column: 'user_id' | 'permission_profile_id', id: number, since: Date): Promise<number> {
+    const linkTable = column === 'user_id' ? 'ai_usages_user_lnk' : 'ai_usages_profile_lnk';
+    const result = await strapi.db.connection.raw(
+      `SELECT COALESCE(SUM(u.input_tokens + u.output_tokens), 0)::bigint AS tokens
+       FROM ai_usages u
+       JOIN ${linkTable} l ON l.ai_usage_id = u.id
+       WHERE l.${column} = ? AND u.created_at >= ?`,
+      [id, since]
+    );
+    return Number((result.rows || result)[0]?.tokens || 0);
+  }
+
+  /**
+   * Throw (status 429) when the user or their profile has used up this month's budget
+   * Calls without a user (internal jobs) are not budgeted
+   */
+  async assertWithinBudget(context: UsageContext): Promise<void> {
+    if (!context.userId) {
+      return;
+    }
+
+    const status = await this.getBudgetStatus(context.userId);
+
+    let message: string | null = null;
+    if (status.user.remaining === 0) {
+      message = `Monthly AI token budget of ${status.user.limit} tokens reached`;
+    } else if (status.profile && status.profile.remaining === 0) {
+      message = `Monthly AI token budget of ${status.profile.limit} tokens for profile "${status.profile.name}" reached`;
+    }
+
+    if (message) {
+      strapi.log.warn(`AI Usage: Blocked ${context.feature} for user ${context.userId}: ${message}`);
+      throw Object.assign(new Error(message), { status: 429, code: AI_BUDGET_EXCEEDED });
+    }
+  }
+
+  /**
+   * Add a call to the ledger (failures are logged, never thrown)
+   */
+  async record(usage: UsageRecord): Promise<void> {
+    try {
+      const profileId = usage.userId ? await this.getPrimaryProfileId(usage.userId) : null;
+
+      await strapi.db.query('api::ai-usage.ai-usage').create({
+        data: {
+          feature: usage.feature,
+          model: usage.model,
+          input_tokens: usage.inputTokens,
+          output_tokens: usage.outputTokens,
+          estimated_cost: this.estimateCost(usage.model, usage.inputTokens, usage.outputTokens),
+          user: usage.userId || null,
+          profile: profileId
+        }
+      });
+    } catch (error) {
+      strapi.log.error(`AI Usage: Failed to record ${usage.feature} usage: ${error.message}`);
+    }
+  }
+
+  /**
+   * Check the budget, run an Anthropic messages call and record its token usage
+   */
+  async meter<T extends { model?: string; usage?: { input_tokens?: number; output_tokens?: number } }>(
+    context: UsageContext,
+    call: () => Promise<T>
+  ): Promise<T> {
+    await this.assertWithinBudget(context);
+
+    const response = await call();
+
+    await this.record({
+      ...context,
+      model: response.model || 'unknown',
+      inputTokens: response.usage?.input_tokens || 0,
+      outputTokens: response.usage?.output_tokens || 0
+    });
+
+    return response;
+  }
+
+  /**
+   * Spend by user and by feature between two dates (defaults to the current month)
+   */
+  async getReport(options: { from?: Date; to?: Date } = {}) {
+    const from = options.from || monthStart();
+    const to = options.to || new Date();
+
+    const byUserResult = await strapi.db.connection.raw(
+      `SELECT l.user_id, uu.username, uu.email,
+              COUNT(*)::int AS calls,
+              COALESCE(SUM(u.input_tokens), 0)::bigint AS input_tokens,
+              COALESCE(SUM(u.output_tokens), 0)::bigint AS output_tokens,
+              COALESCE(SUM(u.estimated_cost), 0) AS estimated_cost
+       FROM ai_usages u
+       LEFT JOIN ai_usages_user_lnk l ON l.ai_usage_id = u.id
+       LEFT JOIN up_users uu ON uu.id = l.user_id
+       WHERE u.created_at >= ? AND u.created_at < ?
+       GROUP BY l.user_id, uu.username, uu.email
+       ORDER BY estimated_cost DESC`,
+      [from, to]
+    );
+
+    const byFeatureResult = await strapi.db.connection.raw(
+      `SELECT u.feature, u.model,
+              COUNT(*)::int AS calls,
+              COALESCE(SUM(u.input_tokens), 0)::bigint AS input_tokens,
+              COALESCE(SUM(u.output_tokens), 0)::bigint AS output_tokens,
+              COALESCE(SUM(u.estimated_cost), 0) AS estimated_cost
+       FROM ai_usages u
+       WHERE u.created_at >= ? AND u.created_at < ?
+       GROUP BY u.feature, u.model
+       ORDER BY estimated_cost DESC`,
+      [from, to]
+    );
+
+    const toTotals = (row: any) => ({
+      calls: Number(row.calls || 0),
+      inputTokens: Number(row.input_tokens || 0),
+      outputTokens: Number(row.output_tokens || 0),
+      estimatedCost: Number(Number(row.estimated_cost || 0).toFixed(4))
+    });
+
+    const byUser = (byUserResult.rows || byUserResult).map(row => ({
+      userId: row.user_id,
+      username: row.username || (row.user_id ? null : 'system'),
+      email: row.email || null,
+      ...toTotals(row)
+    }));
+    const byFeature = (byFeatureResult.rows || byFeatureResult).map(row => ({
+      feature: row.feature,
+      model: row.model,
+      ...toTotals(row)
+    }));
+
+    const totals = byFeature.reduce(
+      (sum, row) => ({
+        calls: sum.calls + row.calls,
+        inputTokens: sum.inputTokens + row.inputTokens,
+        outputTokens: sum.outputTokens + row.outputTokens,
+        estimatedCost: Number((sum.estimatedCost + row.estimatedCost).toFixed(4))
+      }),
+      { calls: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0 }
+    );
+
+    return { from, to, totals, byUser, byFeature };
+  }
+}
+
+// Export singleton instance
+export default new AIUsageService();
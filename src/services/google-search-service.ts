@@ -1,20 +1,28 @@
 /**
  * Google Search Service
- * Handles web searches using Google Custom Search API
+ * Handles web searches through the configured search provider
+ *
+ * Google Custom Search is the default; SEARCH_PROVIDER switches to another backend
+ * (see search-providers.ts) without changing callers.
+ *
+ * Results are cached in the search-cache collection, keyed by provider, query and result count.
+ * Each caller has its own TTL (SEARCH_CACHE_TTL_<CALLER> in seconds, 0 disables caching for it).
  */
 
-import { google } from 'googleapis';
+import crypto from 'crypto';
 import aiService from './ai-service';
+import { getConfiguredProvider, SearchProvider, SearchResult } from './search-providers';
 
 // Configuration
 const RESULTS_PER_SEARCH = 10;
 const NUM_SEARCHES = 3;
 
-interface SearchResult {
-  title: string;
-  link: string;
-  snippet: string;
-}
+// Default cache TTL per caller in seconds
+const DEFAULT_CACHE_TTL_SECONDS: Record<string, number> = {
+  default: 24 * 60 * 60,
+  quotes: 6 * 60 * 60,
+  research: 24 * 60 * 60
+};
 
 interface SearchCriteria {
   category: string;
@@ -23,89 +31,274 @@ interface SearchCriteria {
   generationDetails?: string;
 }
 
+export interface SearchOptions {
+  caller?: string;
+  ttlSeconds?: number;
+  forceRefresh?: boolean;
+}
+
+interface CallerMetrics {
+  hits: number;
+  misses: number;
+  refreshes: number;
+}
+
+/**
+ * TTL for a caller: explicit option, then SEARCH_CACHE_TTL_<CALLER>, then the built-in default
+ */
+const resolveTtlSeconds = (caller: string, ttlSeconds?: number): number => {
+  if (typeof ttlSeconds === 'number' && ttlSeconds >= 0) {
+    return ttlSeconds;
+  }
+
+  const configured = parseInt(process.env[`SEARCH_CACHE_TTL_${caller.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`] || '', 10);
+  if (Number.isFinite(configured) && configured >= 0) {
+    return configured;
+  }
+
+  if (DEFAULT_CACHE_TTL_SECONDS[caller] !== undefined) {
+    return DEFAULT_CACHE_TTL_SECONDS[caller];
+  }
+
+  // Callers without a built-in TTL share the default caller's setting
+  return caller === 'default' ? DEFAULT_CACHE_TTL_SECONDS.default : resolveTtlSeconds('default');
+};
+
+const cacheKey = (provider: string, query: string, num: number) =>
+  crypto
+    .createHash('sha256')
+    .update(`${provider}|${num}|${query.trim().replace(/\s+/g, ' ').toLowerCase()}`)
+    .digest('hex');
+
 class GoogleSearchService {
-  private customSearch: any;
-  private apiKey: string;
-  private searchEngineId: string;
+  private providerOverride: SearchProvider | null = null;
+  private metrics = new Map<string, CallerMetrics>();
+  private metricsSince = new Date();
+
+  /**
+   * Replace the configured provider (pass nothing to go back to SEARCH_PROVIDER)
+   */
+  setProvider(provider?: SearchProvider) {
+    this.providerOverride = provider || null;
+  }
 
-  constructor() {
-    if (!process.env.GOOGLE_SEARCH_API_KEY) {
-      throw new Error('GOOGLE_SEARCH_API_KEY is not configured');
+  /**
+   * Provider used for searches
+   */
+  getProvider(): SearchProvider {
+    return this.providerOverride || getConfiguredProvider();
+  }
+
+  /**
+   * Perform a web search with given query
+   * Served from the cache while the caller's TTL allows; forceRefresh always hits the provider
+   */
+  async search(query: string, num: number = RESULTS_PER_SEARCH, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const provider = this.getProvider();
+    const caller = options.caller || 'default';
+    const ttlSeconds = resolveTtlSeconds(caller, options.ttlSeconds);
+    const key = cacheKey(provider.name, query, num);
+    const metrics = this.callerMetrics(caller);
+
+    if (ttlSeconds > 0 && !options.forceRefresh) {
+      const cached = await this.readCache(key, ttlSeconds);
+      if (cached) {
+        metrics.hits++;
+        strapi.log.info(`Search (${provider.name}): Cache hit for "${query}" (${caller})`);
+        return cached;
+      }
     }
 
-    if (!process.env.GOOGLE_SEARCH_ENGINE_ID) {
-      throw new Error('GOOGLE_SEARCH_ENGINE_ID is not configured');
+    if (options.forceRefresh) {
+      metrics.refreshes++;
+    } else {
+      metrics.misses++;
     }
 
-    this.apiKey = process.env.GOOGLE_SEARCH_API_KEY;
-    this.searchEngineId = process.env.GOOGLE_SEARCH_ENGINE_ID;
+    try {
+      strapi.log.info(`Search (${provider.name}): Searching for "${query}"`);
+
+      const results = await provider.search(query, num);
+
+      strapi.log.info(`Search (${provider.name}): Found ${results.length} results`);
 
-    // Initialize Google Custom Search client
-    this.customSearch = google.customsearch('v1');
+      if (ttlSeconds > 0) {
+        await this.writeCache(key, provider.name, query, num, results, ttlSeconds);
+      }
+
+      return results;
+
+    } catch (error) {
+      strapi.log.error(`Search (${provider.name}) error:`, error);
+      throw new Error(`Search failed: ${error.message}`);
+    }
   }
 
   /**
-   * Perform Google search with given query
+   * Cached results that are still within the caller's TTL
+   * The TTL is measured from fetched_at so a short-TTL caller never gets results a long-TTL caller stored long ago
    */
-  async search(query: string, num: number = RESULTS_PER_SEARCH): Promise<SearchResult[]> {
+  private async readCache(key: string, ttlSeconds: number): Promise<SearchResult[] | null> {
     try {
-      strapi.log.info(`Google Search: Searching for "${query}"`);
-
-      const response = await this.customSearch.cse.list({
-        auth: this.apiKey,
-        cx: this.searchEngineId,
-        q: query,
-        num: num
+      const entry = await strapi.db.query('api::search-cache.search-cache').findOne({
+        where: { cache_key: key }
       });
 
-      // Extract and format results
-      const items = response.data.items || [];
-      const results: SearchResult[] = items.map((item: any) => ({
-        title: item.title || '',
-        link: item.link || '',
-        snippet: item.snippet || ''
-      }));
+      if (!entry || !entry.fetched_at || !Array.isArray(entry.results)) {
+        return null;
+      }
 
-      strapi.log.info(`Google Search: Found ${results.length} results`);
-      return results;
+      const ageMs = Date.now() - new Date(entry.fetched_at).getTime();
+      if (ageMs > ttlSeconds * 1000) {
+        return null;
+      }
+
+      await strapi.db.connection.raw(
+        'UPDATE search_caches SET hit_count = COALESCE(hit_count, 0) + 1 WHERE id = ?',
+        [entry.id]
+      );
 
+      return entry.results as SearchResult[];
     } catch (error) {
-      // Handle Google API errors
-      if (error.code === 429) {
-        throw new Error('Google Search API quota exceeded. Please try again later.');
-      }
+      strapi.log.warn(`Search cache: Read failed, searching live: ${error.message}`);
+      return null;
+    }
+  }
 
-      if (error.code === 403) {
-        throw new Error('Google Search API authentication failed. Check your API key.');
+  /**
+   * Store fresh results; expires_at follows the longest TTL that wrote the entry
+   */
+  private async writeCache(key: string, provider: string, query: string, num: number, results: SearchResult[], ttlSeconds: number) {
+    const cacheQuery = strapi.db.query('api::search-cache.search-cache');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlSeconds * 1000);
+
+    try {
+      const existing = await cacheQuery.findOne({ where: { cache_key: key }, select: ['id', 'expires_at'] });
+
+      if (existing) {
+        const currentExpiry = existing.expires_at ? new Date(existing.expires_at) : null;
+        await cacheQuery.update({
+          where: { id: existing.id },
+          data: {
+            results: results as any,
+            fetched_at: now,
+            expires_at: currentExpiry && currentExpiry > expiresAt ? currentExpiry : expiresAt
+          }
+        });
+      } else {
+        await cacheQuery.create({
+          data: {
+            cache_key: key,
+            provider,
+            query,
+            num,
+            results: results as any,
+            fetched_at: now,
+            expires_at: expiresAt,
+            hit_count: 0
+          }
+        });
       }
+    } catch (error) {
+      // A concurrent write of the same key is harmless; the search result is still returned
+      strapi.log.warn(`Search cache: Write failed for "${query}": ${error.message}`);
+    }
+  }
 
-      strapi.log.error('Google Search error:', error);
-      throw new Error(`Search failed: ${error.message}`);
+  private callerMetrics(caller: string): CallerMetrics {
+    if (!this.metrics.has(caller)) {
+      this.metrics.set(caller, { hits: 0, misses: 0, refreshes: 0 });
     }
+    return this.metrics.get(caller);
+  }
+
+  /**
+   * Hit/miss counts per caller since startup (or the last reset) plus stored entry totals
+   */
+  async getCacheMetrics() {
+    const callers: Record<string, CallerMetrics & { hitRate: number; ttlSeconds: number }> = {};
+    const totals = { hits: 0, misses: 0, refreshes: 0 };
+
+    const callerNames = new Set([...Object.keys(DEFAULT_CACHE_TTL_SECONDS), ...this.metrics.keys()]);
+    callerNames.forEach(caller => {
+      const metrics = this.metrics.get(caller) || { hits: 0, misses: 0, refreshes: 0 };
+      const lookups = metrics.hits + metrics.misses;
+      callers[caller] = {
+        ...metrics,
+        hitRate: lookups > 0 ? Number((metrics.hits / lookups).toFixed(3)) : 0,
+        ttlSeconds: resolveTtlSeconds(caller)
+      };
+      totals.hits += metrics.hits;
+      totals.misses += metrics.misses;
+      totals.refreshes += metrics.refreshes;
+    });
+
+    const result = await strapi.db.connection.raw(
+      `SELECT COUNT(*)::int AS entries,
+              COUNT(*) FILTER (WHERE expires_at < NOW())::int AS expired,
+              COALESCE(SUM(hit_count), 0)::int AS stored_hits
+       FROM search_caches`
+    );
+    const stored = (result.rows || result)[0] || {};
+    const lookups = totals.hits + totals.misses;
+
+    return {
+      provider: this.getProvider().name,
+      since: this.metricsSince,
+      totals: {
+        ...totals,
+        hitRate: lookups > 0 ? Number((totals.hits / lookups).toFixed(3)) : 0
+      },
+      callers,
+      entries: {
+        total: stored.entries || 0,
+        expired: stored.expired || 0,
+        lifetimeHits: stored.stored_hits || 0
+      }
+    };
+  }
+
+  /**
+   * Reset the in-process hit/miss counters
+   */
+  resetCacheMetrics() {
+    this.metrics.clear();
+    this.metricsSince = new Date();
+  }
+
+  /**
+   * Delete cache entries past their expiry (or every entry)
+   */
+  async purgeCache(all: boolean = false): Promise<number> {
+    const result = await strapi.db.query('api::search-cache.search-cache').deleteMany({
+      where: all ? {} : { expires_at: { $lt: new Date() } }
+    });
+    return result.count;
   }
 
   /**
    * Search for quotes using multiple AI-generated queries
-   * Returns aggregated results from 3 different searches
+   * Returns aggregated results from 3 different searches; query building is billed to userId
    */
-  async searchQuotes(criteria: SearchCriteria): Promise<SearchResult[]> {
+  async searchQuotes(criteria: SearchCriteria, options: SearchOptions = {}, userId?: number | null): Promise<SearchResult[]> {
     try {
-      strapi.log.info(`Google Search: Searching quotes for ${criteria.generationType} about ${criteria.category}`);
+      strapi.log.info(`Search: Searching quotes for ${criteria.generationType} about ${criteria.category}`);
 
       // Use AI to build 3 different search queries
-      const queries = await aiService.buildSearchQuery(criteria);
+      const queries = await aiService.buildSearchQuery(criteria, userId);
 
-      strapi.log.info(`Google Search: Generated queries: ${JSON.stringify(queries)}`);
+      strapi.log.info(`Search: Generated queries: ${JSON.stringify(queries)}`);
 
       // Perform all 3 searches in parallel
-      const searchPromises = queries.map(query => this.search(query));
+      const searchPromises = queries.map(query => this.search(query, RESULTS_PER_SEARCH, { caller: 'quotes', ...options }));
       const searchResults = await Promise.all(searchPromises);
 
       // Flatten and deduplicate results by URL
       const allResults = searchResults.flat();
       const uniqueResults = this.deduplicateByUrl(allResults);
 
-      strapi.log.info(`Google Search: Total unique results: ${uniqueResults.length}`);
+      strapi.log.info(`Search: Total unique results: ${uniqueResults.length}`);
 
       // Return top results (limit to 30 to avoid overwhelming AI)
       return uniqueResults.slice(0, 30);
@@ -134,12 +327,18 @@ class GoogleSearchService {
   }
 
   /**
-   * Validate Google API configuration
+   * Validate that the selected provider is configured
    */
   validateConfiguration(): boolean {
-    return !!(this.apiKey && this.searchEngineId);
+    try {
+      return this.getProvider().isConfigured();
+    } catch (error) {
+      return false;
+    }
   }
 }
 
 // Export singleton instance
 export default new GoogleSearchService();
+
+export type { SearchResult };
@@ -0,0 +1,322 @@
+/**
+ * Quote Verification Service
+ * Checks that a quote and its speaker actually appear on the cited source page
+ *
+ * The page is fetched, stripped to plain text and searched with a sliding window the
+ * length of the quote. The best window's word overlap is the quote score; the speaker
+ * counts as found when the full name or surname appears anywhere on the page.
+ *
+ * The HTTP fetcher is swappable with setFetcher() so verification can run without network access.
+ * Source URLs come from users, so the default fetcher only follows http(s) URLs whose host resolves
+ * to public addresses (checked again on every redirect and when the connection is made).
+ */
+
+import axios from 'axios';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+// Configuration
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const VERIFIED_THRESHOLD = 0.9;
+const PARTIAL_THRESHOLD = 0.6;
+const SNIPPET_CONTEXT_WORDS = 12;
+const MAX_SNIPPET_LENGTH = 500;
+
+export type VerificationStatus = 'verified' | 'partial' | 'not_found' | 'fetch_failed';
+
+export type PageFetcher = (url: string) => Promise<string>;
+
+export interface QuoteToVerify {
+  quote_text: string;
+  speaker_name: string;
+  source_url: string;
+}
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  quoteScore: number;
+  speakerFound: boolean;
+  snippet: string | null;
+  checkedAt: Date;
+  error?: string;
+}
+
+// Loopback, private, shared, link-local (cloud metadata), multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as Array<[string, number]>).forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+([
+  ['::', 128], ['::1', 128], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as Array<[string, number]>).forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+const isBlockedAddress = (address: string) => {
+  const family = net.isIP(address);
+  return !family || BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * True for http(s) URLs (the only ones a quote's source_url may use)
+ */
+export const isHttpUrl = (url: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Reject URLs that are not http(s) or whose host resolves to a non-public address
+ */
+const assertPublicUrl = async (url: string) => {
+  if (!isHttpUrl(url)) {
+    throw new Error('Only http and https URLs can be fetched');
+  }
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(host)
+    ? [host]
+    : (await dns.promises.lookup(host, { all: true })).map(entry => entry.address);
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new Error(`${host} does not resolve to a public address`);
+  }
+};
+
+/**
+ * DNS lookup for the fetch agents that refuses non-public addresses, so a host cannot
+ * resolve to a public address for the check above and a private one for the connection
+ */
+const publicLookup = (hostname: string, options: any, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses: dns.LookupAddress[]) => {
+    if (error) {
+      return callback(error);
+    }
+
+    if (addresses.length === 0 || addresses.some(entry => isBlockedAddress(entry.address))) {
+      return callback(new Error(`${hostname} does not resolve to a public address`));
+    }
+
+    return options?.all ? callback(null, addresses) : callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const httpAgent = new http.Agent({ lookup: publicLookup } as http.AgentOptions);
+const httpsAgent = new https.Agent({ lookup: publicLookup } as https.AgentOptions);
+
+/**
+ * Default fetcher: HTTP GET of a public page with a timeout and size limit
+ * Redirects are followed by hand so every hop is checked
+ */
+const httpFetcher: PageFetcher = async (url: string) => {
+  let target = url;
+
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(target);
+
+    const response = await axios.get(target, {
+      timeout: FETCH_TIMEOUT_MS,
+      maxContentLength: MAX_PAGE_BYTES,
+      maxRedirects: 0,
+      validateStatus: status => status >= 200 && status < 400,
+      httpAgent,
+      httpsAgent,
+      proxy: false,
+      responseType: 'text',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; OpinionsQuoteVerifier/1.0)',
+        'Accept': 'text/html,application/xhtml+xml,text/plain'
+      }
+    });
+
+    const location = response.headers.location;
+    if (response.status >= 300 && location) {
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+      }
+      target = new URL(location, target).toString();
+      continue;
+    }
+
+    return typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+  }
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&amp;': '&',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&apos;': "'",
+  '&lt;': '<',
+  '&gt;': '>',
+  '&rsquo;': "'",
+  '&lsquo;': "'",
+  '&rdquo;': '"',
+  '&ldquo;': '"',
+  '&mdash;': '-',
+  '&ndash;': '-'
+};
+
+/**
+ * Reduce an HTML page to its visible text
+ */
+const htmlToText = (html: string) =>
+  html
+    .replace(/<(script|style|noscript|svg)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&[a-z]+;|&#\d+;/gi, entity => HTML_ENTITIES[entity.toLowerCase()] ?? ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const normalizeWord = (word: string) =>
+  word
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+
+const toWords = (text: string) => text.split(' ').filter(Boolean);
+
+class QuoteVerificationService {
+  private fetcher: PageFetcher = httpFetcher;
+
+  /**
+   * Replace the HTTP fetcher (pass nothing to restore the default)
+   */
+  setFetcher(fetcher?: PageFetcher) {
+    this.fetcher = fetcher || httpFetcher;
+  }
+
+  /**
+   * Fetch the source page and match the quote and speaker against it
+   */
+  async verify(quote: QuoteToVerify): Promise<VerificationResult> {
+    const checkedAt = new Date();
+
+    let pageText: string;
+    try {
+      pageText = htmlToText(await this.fetcher(quote.source_url));
+    } catch (error) {
+      strapi.log.warn(`Quote Verification: Could not fetch ${quote.source_url}: ${error.message}`);
+      return {
+        status: 'fetch_failed',
+        quoteScore: 0,
+        speakerFound: false,
+        snippet: null,
+        checkedAt,
+        error: error.message
+      };
+    }
+
+    const { score, snippet } = this.matchQuote(quote.quote_text, pageText);
+    const speakerFound = this.matchSpeaker(quote.speaker_name, pageText);
+
+    let status: VerificationStatus = 'not_found';
+    if (score >= VERIFIED_THRESHOLD && speakerFound) {
+      status = 'verified';
+    } else if (score >= PARTIAL_THRESHOLD) {
+      status = 'partial';
+    }
+
+    strapi.log.info(`Quote Verification: ${quote.source_url} -> ${status} (quote ${score}, speaker ${speakerFound})`);
+
+    return {
+      status,
+      quoteScore: score,
+      speakerFound,
+      snippet,
+      checkedAt
+    };
+  }
+
+  /**
+   * Best word overlap between the quote and any same-length window of the page
+   * Returns the score (0-1) and the page text around the best window
+   */
+  matchQuote(quoteText: string, pageText: string): { score: number; snippet: string | null } {
+    const quoteWords = toWords(quoteText).map(normalizeWord).filter(Boolean);
+    const pageWords = toWords(pageText);
+    const normalizedPage = pageWords.map(normalizeWord);
+
+    if (quoteWords.length === 0 || pageWords.length === 0) {
+      return { score: 0, snippet: null };
+    }
+
+    const needed = new Map<string, number>();
+    quoteWords.forEach(word => needed.set(word, (needed.get(word) || 0) + 1));
+
+    const windowSize = Math.min(quoteWords.length, normalizedPage.length);
+    const inWindow = new Map<string, number>();
+    let matched = 0;
+
+    const add = (word: string) => {
+      const count = (inWindow.get(word) || 0) + 1;
+      inWindow.set(word, count);
+      if (count <= (needed.get(word) || 0)) {
+        matched++;
+      }
+    };
+    const remove = (word: string) => {
+      const count = inWindow.get(word) || 0;
+      inWindow.set(word, count - 1);
+      if (count <= (needed.get(word) || 0)) {
+        matched--;
+      }
+    };
+
+    for (let i = 0; i < windowSize; i++) {
+      add(normalizedPage[i]);
+    }
+
+    let bestMatched = matched;
+    let bestStart = 0;
+
+    for (let start = 1; start + windowSize <= normalizedPage.length; start++) {
+      remove(normalizedPage[start - 1]);
+      add(normalizedPage[start + windowSize - 1]);
+      if (matched > bestMatched) {
+        bestMatched = matched;
+        bestStart = start;
+      }
+    }
+
+    const score = Number((bestMatched / quoteWords.length).toFixed(3));
+    if (bestMatched === 0) {
+      return { score: 0, snippet: null };
+    }
+
+    const snippet = pageWords
+      .slice(Math.max(0, bestStart - SNIPPET_CONTEXT_WORDS), bestStart + windowSize + SNIPPET_CONTEXT_WORDS)
+      .join(' ')
+      .slice(0, MAX_SNIPPET_LENGTH);
+
+    return { score, snippet };
+  }
+
+  /**
+   * True when the speaker's full name or surname appears on the page
+   */
+  matchSpeaker(speakerName: string, pageText: string): boolean {
+    const nameWords = toWords(speakerName).map(normalizeWord).filter(Boolean);
+    if (nameWords.length === 0) {
+      return false;
+    }
+
+    const page = ` ${toWords(pageText).map(normalizeWord).filter(Boolean).join(' ')} `;
+    const fullName = ` ${nameWords.join(' ')} `;
+    const surname = ` ${nameWords[nameWords.length - 1]} `;
+
+    return page.includes(fullName) || (nameWords[nameWords.length - 1].length > 2 && page.includes(surname));
+  }
+}
+
+// Export singleton instance
+export default new QuoteVerificationService();
@@ -0,0 +1,164 @@
+/**
+ * Rate Limit Service
+ * Per-user request limits for AI endpoints, shared across instances through the configured store
+ *
+ * Each policy covers a group of routes with a default limit per window. A permission profile can
+ * override any policy in its aiRateLimits JSON, keyed by policy name:
+ *   { "quote_generation": { "limit": 100, "windowSeconds": 3600 }, "ai_manager": false }
+ * (false removes the limit for that profile). Users are matched by their primary profile.
+ *
+ * Requests without a user are counted per client IP in a separate bucket with a lower limit.
+ */
+
+import aiUsageService from './ai-usage-service';
+import { getConfiguredStore, RateLimitStore } from './rate-limit-stores';
+
+// How long a profile's overrides are reused before being read again
+const PROFILE_CACHE_MS = 60 * 1000;
+
+// Most requests per window one client IP can make without a user, for any policy
+const ANONYMOUS_LIMIT = 10;
+
+export interface RateLimitPolicy {
+  name: string;
+  methods?: string[];
+  pattern: RegExp;
+  limit: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  policy: string;
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  windowSeconds: number;
+  resetAt: Date;
+}
+
+const AI_RATE_LIMIT_POLICIES: RateLimitPolicy[] = [
+  { name: 'ai_manager', pattern: /^\/api\/ai-manager(\/|$)/, limit: 50, windowSeconds: 3600 },
+  { name: 'salespilot_conversation', methods: ['POST'], pattern: /^\/api\/salespilot\/conversation$/, limit: 200, windowSeconds: 3600 },
+  {
+    name: 'salespilot_generation',
+    methods: ['POST'],
+    pattern: /^\/api\/salespilot\/(generate-analysis|generate-materials|research|analysis-resume\/[^/]+)$/,
+    limit: 20,
+    windowSeconds: 3600
+  },
+  { name: 'salespilot_editing', methods: ['POST'], pattern: /^\/api\/salespilot\/(improve-content|regenerate-section)$/, limit: 60, windowSeconds: 3600 },
+  { name: 'quote_generation', methods: ['POST'], pattern: /^\/api\/quote-drafts\/(generate|batch)$/, limit: 30, windowSeconds: 3600 },
+  { name: 'opinion_generation', methods: ['POST'], pattern: /^\/api\/opinions\/generate$/, limit: 60, windowSeconds: 3600 }
+];
+
+type PolicyOverride = { limit?: number; windowSeconds?: number } | false;
+
+class RateLimitService {
+  private storeOverride: RateLimitStore | null = null;
+  private profileCache = new Map<number, { overrides: Record<string, PolicyOverride>; loadedAt: number }>();
+
+  /**
+   * Replace the configured store (pass nothing to go back to RATE_LIMIT_STORE)
+   */
+  setStore(store?: RateLimitStore) {
+    this.storeOverride = store || null;
+  }
+
+  /**
+   * Store holding the counters
+   */
+  getStore(): RateLimitStore {
+    return this.storeOverride || getConfiguredStore();
+  }
+
+  /**
+   * Policy covering a request, if any
+   */
+  matchPolicy(method: string, path: string): RateLimitPolicy | null {
+    return AI_RATE_LIMIT_POLICIES.find(policy =>
+      (!policy.methods || policy.methods.includes(method.toUpperCase())) && policy.pattern.test(path)
+    ) || null;
+  }
+
+  /**
+   * The user's primary profile overrides (cached briefly)
+   */
+  private async getProfileOverrides(userId: number): Promise<Record<string, PolicyOverride>> {
+    const profileId = await aiUsageService.getPrimaryProfileId(userId);
+    if (!profileId) {
+      return {};
+    }
+
+    const cached = this.profileCache.get(profileId);
+    if (cached && Date.now() - cached.loadedAt < PROFILE_CACHE_MS) {
+      return cached.overrides;
+    }
+
+    const profile = await strapi.db.query('api::permission-profile.permission-profile').findOne({
+      where: { id: profileId },
+      select: ['id', 'aiRateLimits']
+    });
+    const overrides = profile?.aiRateLimits && typeof profile.aiRateLimits === 'object' && !Array.isArray(profile.aiRateLimits)
+      ? profile.aiRateLimits as Record<string, PolicyOverride>
+      : {};
+
+    this.profileCache.set(profileId, { overrides, loadedAt: Date.now() });
+    return overrides;
+  }
+
+  /**
+   * Limit and window for a user after applying their profile's override (null = unlimited)
+   */
+  async resolvePolicy(policy: RateLimitPolicy, userId: number): Promise<{ limit: number; windowSeconds: number } | null> {
+    const override = (await this.getProfileOverrides(userId))[policy.name];
+
+    if (override === false) {
+      return null;
+    }
+
+    const limit = Number.isInteger(override?.limit) && override.limit >= 0 ? override.limit : policy.limit;
+    const windowSeconds = Number.isInteger(override?.windowSeconds) && override.windowSeconds > 0
+      ? override.windowSeconds
+      : policy.windowSeconds;
+
+    return { limit, windowSeconds };
+  }
+
+  /**
+   * Count a request against the user's limit for a policy
+   * Returns null when the user has no limit for it
+   */
+  async consume(policy: RateLimitPolicy, userId: number): Promise<RateLimitResult | null> {
+    const resolved = await this.resolvePolicy(policy, userId);
+    if (!resolved) {
+      return null;
+    }
+
+    // The window length is part of the key so a changed override starts a fresh window
+    return this.hit(policy, `${policy.name}:${resolved.windowSeconds}:user:${userId}`, resolved.limit, resolved.windowSeconds);
+  }
+
+  /**
+   * Count a request without a user against its client IP
+   */
+  async consumeAnonymous(policy: RateLimitPolicy, ip: string): Promise<RateLimitResult> {
+    const limit = Math.min(policy.limit, ANONYMOUS_LIMIT);
+    return this.hit(policy, `${policy.name}:${policy.windowSeconds}:ip:${ip}`, limit, policy.windowSeconds);
+  }
+
+  private async hit(policy: RateLimitPolicy, key: string, limit: number, windowSeconds: number): Promise<RateLimitResult> {
+    const hit = await this.getStore().hit(key, windowSeconds * 1000);
+
+    return {
+      policy: policy.name,
+      allowed: hit.count <= limit,
+      limit,
+      remaining: Math.max(0, limit - hit.count),
+      windowSeconds,
+      resetAt: hit.resetAt
+    };
+  }
+}
+
+// Export singleton instance
+export default new RateLimitService();
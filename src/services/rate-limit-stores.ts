@@ -0,0 +1,119 @@
+/**
+ * Rate Limit Stores
+ * Pluggable counter backends used by the rate limit service
+ *
+ * Stores:
+ * - database: rate-limit-counter collection, shared by every instance (default)
+ * - memory: process-local counters for tests and single-instance development
+ *
+ * Selected with RATE_LIMIT_STORE (default: "database")
+ */
+
+const DEFAULT_STORE = 'database';
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  name: string;
+  /**
+   * Count one request against a key; a new window starts when the previous one has ended
+   */
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+  /**
+   * Forget every counter (or the counters whose key starts with prefix)
+   */
+  reset(prefix?: string): Promise<void>;
+}
+
+const databaseStore: RateLimitStore = {
+  name: 'database',
+
+  async hit(key, windowMs) {
+    // The advisory lock serializes requests for the same key across instances
+    return strapi.db.transaction(async ({ trx }) => {
+      await trx.raw('SELECT pg_advisory_xact_lock(hashtext(?))', [`rate-limit:${key}`]);
+
+      const counters = strapi.db.query('api::rate-limit-counter.rate-limit-counter');
+      const now = new Date();
+      const existing = await counters.findOne({
+        where: { counter_key: key },
+        select: ['id', 'count', 'reset_at']
+      });
+
+      if (existing && new Date(existing.reset_at) > now) {
+        const count = (existing.count || 0) + 1;
+        await counters.update({ where: { id: existing.id }, data: { count } });
+        return { count, resetAt: new Date(existing.reset_at) };
+      }
+
+      const resetAt = new Date(now.getTime() + windowMs);
+
+      if (existing) {
+        await counters.update({ where: { id: existing.id }, data: { count: 1, reset_at: resetAt } });
+      } else {
+        await counters.create({ data: { counter_key: key, count: 1, reset_at: resetAt } });
+      }
+
+      return { count: 1, resetAt };
+    });
+  },
+
+  async reset(prefix) {
+    await strapi.db.query('api::rate-limit-counter.rate-limit-counter').deleteMany({
+      where: prefix ? { counter_key: { $startsWith: prefix } } : {}
+    });
+  }
+};
+
+const memoryCounters = new Map<string, RateLimitHit>();
+
+const memoryStore: RateLimitStore = {
+  name: 'memory',
+
+  async hit(key, windowMs) {
+    const now = Date.now();
+    const existing = memoryCounters.get(key);
+
+    if (existing && existing.resetAt.getTime() > now) {
+      existing.count++;
+      return { ...existing };
+    }
+
+    const counter = { count: 1, resetAt: new Date(now + windowMs) };
+    memoryCounters.set(key, counter);
+    return { ...counter };
+  },
+
+  async reset(prefix) {
+    if (!prefix) {
+      memoryCounters.clear();
+      return;
+    }
+
+    [...memoryCounters.keys()]
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => memoryCounters.delete(key));
+  }
+};
+
+export const rateLimitStores: Record<string, RateLimitStore> = {
+  [databaseStore.name]: databaseStore,
+  [memoryStore.name]: memoryStore
+};
+
+/**
+ * Store named by RATE_LIMIT_STORE
+ */
+export function getConfiguredStore(): RateLimitStore {
+  const name = (process.env.RATE_LIMIT_STORE || DEFAULT_STORE).trim().toLowerCase();
+  const store = rateLimitStores[name];
+
+  if (!store) {
+    throw new Error(`Unknown RATE_LIMIT_STORE "${name}" (expected one of: ${Object.keys(rateLimitStores).join(', ')})`);
+  }
+
+  return store;
+}
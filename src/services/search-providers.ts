@@ -0,0 +1,225 @@
+/**
+ * Search Providers
+ * Pluggable web search backends used by the search service
+ *
+ * Providers:
+ * - google: Google Custom Search API (GOOGLE_SEARCH_API_KEY, GOOGLE_SEARCH_ENGINE_ID)
+ * - serpapi: SerpAPI Google results (SERPAPI_API_KEY)
+ * - fixture: offline canned results for tests and local development (optional SEARCH_FIXTURES_PATH)
+ *
+ * Selected with SEARCH_PROVIDER (default: "google")
+ */
+
+import fs from 'fs';
+import axios from 'axios';
+import { google } from 'googleapis';
+
+const DEFAULT_PROVIDER = 'google';
+const REQUEST_TIMEOUT_MS = 15000;
+
+export interface SearchResult {
+  title: string;
+  link: string;
+  snippet: string;
+}
+
+export interface SearchProvider {
+  name: string;
+  isConfigured(): boolean;
+  search(query: string, num: number): Promise<SearchResult[]>;
+}
+
+let customSearchClient: any = null;
+
+const googleProvider: SearchProvider = {
+  name: 'google',
+
+  isConfigured() {
+    return !!(process.env.GOOGLE_SEARCH_API_KEY && process.env.GOOGLE_SEARCH_ENGINE_ID);
+  },
+
+  async search(query, num) {
+    if (!this.isConfigured()) {
+      throw new Error('GOOGLE_SEARCH_API_KEY and GOOGLE_SEARCH_ENGINE_ID must be configured');
+    }
+
+    // Initialize Google Custom Search client on first use
+    if (!customSearchClient) {
+      customSearchClient = google.customsearch('v1');
+    }
+
+    try {
+      const response = await customSearchClient.cse.list({
+        auth: process.env.GOOGLE_SEARCH_API_KEY,
+        cx: process.env.GOOGLE_SEARCH_ENGINE_ID,
+        q: query,
+        num: num
+      });
+
+      const items = response.data.items || [];
+      return items.map((item: any) => ({
+        title: item.title || '',
+        link: item.link || '',
+        snippet: item.snippet || ''
+      }));
+    } catch (error) {
+      // Handle Google API errors
+      if (error.code === 429) {
+        throw new Error('Google Search API quota exceeded. Please try again later.');
+      }
+
+      if (error.code === 403) {
+        throw new Error('Google Search API authentication failed. Check your API key.');
+      }
+
+      throw error;
+    }
+  }
+};
+
+const serpApiProvider: SearchProvider = {
+  name: 'serpapi',
+
+  isConfigured() {
+    return !!process.env.SERPAPI_API_KEY;
+  },
+
+  async search(query, num) {
+    if (!this.isConfigured()) {
+      throw new Error('SERPAPI_API_KEY must be configured');
+    }
+
+    try {
+      const response = await axios.get('https://serpapi.com/search.json', {
+        timeout: REQUEST_TIMEOUT_MS,
+        params: {
+          engine: process.env.SERPAPI_ENGINE || 'google',
+          q: query,
+          num,
+          api_key: process.env.SERPAPI_API_KEY
+        }
+      });
+
+      const items = response.data?.organic_results || [];
+      return items.slice(0, num).map((item: any) => ({
+        title: item.title || '',
+        link: item.link || '',
+        snippet: item.snippet || ''
+      }));
+    } catch (error) {
+      const status = error.response?.status;
+
+      if (status === 429) {
+        throw new Error('SerpAPI quota exceeded. Please try again later.');
+      }
+
+      if (status === 401 || status === 403) {
+        throw new Error('SerpAPI authentication failed. Check your API key.');
+      }
+
+      throw new Error(error.response?.data?.error || error.message);
+    }
+  }
+};
+
+// Used when SEARCH_FIXTURES_PATH is not set
+const DEFAULT_FIXTURES: SearchResult[] = [
+  {
+    title: 'Interview: Energy minister on the cost of the transition',
+    link: 'https://example.com/news/energy-minister-interview',
+    snippet: '"We cannot afford to wait another decade to modernise the grid," the energy minister said in an interview on Tuesday.'
+  },
+  {
+    title: 'CEO statement on remote work policy',
+    link: 'https://example.com/business/ceo-remote-work',
+    snippet: 'In a statement to staff, the chief executive said: "Offices are for collaboration, not for attendance records."'
+  },
+  {
+    title: 'Actor speaks out on streaming residuals',
+    link: 'https://example.com/entertainment/actor-residuals',
+    snippet: '"Streaming changed how films are watched, and pay has to change with it," the actor told reporters at the premiere.'
+  },
+  {
+    title: 'Study: Researchers question screen time guidelines',
+    link: 'https://example.com/research/screen-time-study',
+    snippet: 'Lead author said: "The quality of what children watch matters far more than the number of hours."'
+  },
+  {
+    title: 'Senator quoted on housing bill',
+    link: 'https://example.com/politics/housing-bill-senator',
+    snippet: '"Zoning reform is the fastest way to make housing affordable again," the senator said during the floor debate.'
+  }
+];
+
+let loadedFixtures: { path: string; results: SearchResult[] } | null = null;
+
+const loadFixtures = (): SearchResult[] => {
+  const fixturePath = process.env.SEARCH_FIXTURES_PATH;
+  if (!fixturePath) {
+    return DEFAULT_FIXTURES;
+  }
+
+  if (loadedFixtures?.path !== fixturePath) {
+    const parsed = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+    if (!Array.isArray(parsed)) {
+      throw new Error(`Search fixtures at ${fixturePath} must be a JSON array of { title, link, snippet }`);
+    }
+    loadedFixtures = { path: fixturePath, results: parsed };
+  }
+
+  return loadedFixtures.results;
+};
+
+const queryWords = (text: string) =>
+  new Set((text || '').toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2));
+
+const fixtureProvider: SearchProvider = {
+  name: 'fixture',
+
+  isConfigured() {
+    return true;
+  },
+
+  /**
+   * Rank fixtures by words shared with the query; every fixture is returned so searches never come back empty
+   */
+  async search(query, num) {
+    const words = queryWords(query);
+
+    const scored = loadFixtures().map((result, index) => {
+      const resultWords = queryWords(`${result.title} ${result.snippet}`);
+      let shared = 0;
+      words.forEach(word => {
+        if (resultWords.has(word)) {
+          shared++;
+        }
+      });
+      return { result, shared, index };
+    });
+
+    return scored
+      .sort((a, b) => b.shared - a.shared || a.index - b.index)
+      .slice(0, num)
+      .map(entry => ({ ...entry.result }));
+  }
+};
+
+export const searchProviders: Record<string, SearchProvider> = {
+  [googleProvider.name]: googleProvider,
+  [serpApiProvider.name]: serpApiProvider,
+  [fixtureProvider.name]: fixtureProvider
+};
+
+/**
+ * Provider named by SEARCH_PROVIDER
+ */
+export function getConfiguredProvider(): SearchProvider {
+  const name = (process.env.SEARCH_PROVIDER || DEFAULT_PROVIDER).trim().toLowerCase();
+  const provider = searchProviders[name];
+
+  if (!provider) {
+    throw new Error(`Unknown SEARCH_PROVIDER "${name}" (expected one of: ${Object.keys(searchProviders).join(', ')})`);
+  }
+
+  return provider;
+}
@@ -14,6 +14,8 @@ interface ResearchParams {
   contactLinkedIn?: string;
   industry?: string;
   researchDepth: 'Quick' | 'Standard' | 'Deep';
+  forceRefresh?: boolean;
+  userId?: number | null;
   additionalParties?: Array<{
     type: 'company' | 'contact';
     name: string;
@@ -211,7 +213,7 @@ class WebResearchService {
       strapi.log.info(`Web Research: Generated ${queries.length} queries`);
 
       // Execute searches in parallel (with rate limiting)
-      const searchResults = await this.executeSearches(queries);
+      const searchResults = await this.executeSearches(queries, !!params.forceRefresh);
 
       // Use AI to analyze and structure the results
       const structuredData = await this.analyzeResults(searchResults, params);
@@ -232,8 +234,9 @@ class WebResearchService {
 
   /**
    * Execute searches with rate limiting to avoid quota issues
+   * Cached results are reused unless forceRefresh is set
    */
-  private async executeSearches(queries: string[]): Promise<any[]> {
+  private async executeSearches(queries: string[], forceRefresh: boolean = false): Promise<any[]> {
     const allResults: any[] = [];
     const batchSize = 5; // Process 5 queries at a time
     const delayMs = 1000; // 1 second delay between batches
@@ -243,7 +246,7 @@ class WebResearchService {
 
       try {
         const batchResults = await Promise.all(
-          batch.map(query => googleSearchService.search(query, 10))
+          batch.map(query => googleSearchService.search(query, 10, { caller: 'research', forceRefresh }))
         );
         allResults.push(...batchResults.flat());
 
@@ -331,7 +334,7 @@ Return a JSON object with this structure:
 Important: Extract only factual information from the search results. If information is not available, use empty strings or arrays.`;
 
       // Call AI service
-      const aiResponse = await aiService.getCompletion(prompt, null, 4000);
+      const aiResponse = await aiService.getCompletion(prompt, params.userId, 4000, 'web_research');
 
       // Parse AI response
       const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
@@ -373,6 +373,212 @@ export interface AdminUser extends Struct.CollectionTypeSchema {
   };
 }
 
+export interface ApiAiUsageAiUsage extends Struct.CollectionTypeSchema {
+  collectionName: 'ai_usages';
+  info: {
+    description: 'Token usage ledger with one entry per AI model call';
+    displayName: 'AI Usage';
+    pluralName: 'ai-usages';
+    singularName: 'ai-usage';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    estimated_cost: Schema.Attribute.Decimal &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    feature: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    input_tokens: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::ai-usage.ai-usage'
+    > &
+      Schema.Attribute.Private;
+    model: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    output_tokens: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    profile: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::permission-profile.permission-profile'
+    >;
+    publishedAt: Schema.Attribute.DateTime;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    user: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+  };
+}
+
+export interface ApiAnalysisEventAnalysisEvent
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'analysis_events';
+  info: {
+    description: 'Section events of a game plan analysis, replayed over its progress stream';
+    displayName: 'Analysis Event';
+    pluralName: 'analysis-events';
+    singularName: 'analysis-event';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    analysis_id: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 36;
+      }>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    data: Schema.Attribute.JSON;
+    event_type: Schema.Attribute.Enumeration<
+      ['phase-start', 'section-delta', 'section-complete', 'section-error']
+    > &
+      Schema.Attribute.Required;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::analysis-event.analysis-event'
+    > &
+      Schema.Attribute.Private;
+    publishedAt: Schema.Attribute.DateTime;
+    section: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 50;
+      }>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
+export interface ApiAnalysisJobAnalysisJob extends Struct.CollectionTypeSchema {
+  collectionName: 'analysis_jobs';
+  info: {
+    description: 'Game plan analysis runs with their progress, phase outputs and final result';
+    displayName: 'Analysis Job';
+    pluralName: 'analysis-jobs';
+    singularName: 'analysis-job';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    analysis_id: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 36;
+      }>;
+    attempts: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    completed_at: Schema.Attribute.DateTime;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    error: Schema.Attribute.Text;
+    global_start_time: Schema.Attribute.DateTime;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::analysis-job.analysis-job'
+    > &
+      Schema.Attribute.Private;
+    max_attempts: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 1;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<3>;
+    params: Schema.Attribute.JSON;
+    percentage: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          max: 100;
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    phase_number: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      >;
+    phase_results: Schema.Attribute.JSON;
+    phase_status: Schema.Attribute.JSON;
+    phase_timings: Schema.Attribute.JSON;
+    publishedAt: Schema.Attribute.DateTime;
+    result: Schema.Attribute.JSON;
+    stage: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 200;
+      }>;
+    status: Schema.Attribute.Enumeration<
+      ['in_progress', 'completed', 'error']
+    > &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'in_progress'>;
+    total_phases: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 1;
+        },
+        number
+      >;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    user: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+  };
+}
+
 export interface ApiCategoryCategory extends Struct.CollectionTypeSchema {
   collectionName: 'categories';
   info: {
@@ -385,6 +591,7 @@ export interface ApiCategoryCategory extends Struct.CollectionTypeSchema {
     draftAndPublish: false;
   };
   attributes: {
+    children: Schema.Attribute.Relation<'oneToMany', 'api::category.category'>;
     color: Schema.Attribute.String & Schema.Attribute.DefaultTo<'#007AFF'>;
     createdAt: Schema.Attribute.DateTime;
     createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
@@ -407,10 +614,63 @@ export interface ApiCategoryCategory extends Struct.CollectionTypeSchema {
         maxLength: 50;
       }>;
     opinions: Schema.Attribute.Relation<'oneToMany', 'api::opinion.opinion'>;
+    parent: Schema.Attribute.Relation<'manyToOne', 'api::category.category'>;
+    publishedAt: Schema.Attribute.DateTime;
+    sort_order: Schema.Attribute.Integer & Schema.Attribute.DefaultTo<0>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
+export interface ApiCommentReportCommentReport
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'comment_reports';
+  info: {
+    description: 'User reports of rating comments awaiting sysadmin moderation';
+    displayName: 'Comment Report';
+    pluralName: 'comment-reports';
+    singularName: 'comment-report';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::comment-report.comment-report'
+    > &
+      Schema.Attribute.Private;
     publishedAt: Schema.Attribute.DateTime;
+    reason: Schema.Attribute.Text &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 500;
+      }>;
+    reporter: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+    resolution: Schema.Attribute.Enumeration<
+      ['pending', 'approved', 'hidden', 'deleted']
+    > &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'pending'>;
+    resolved_at: Schema.Attribute.DateTime;
+    resolved_by: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
+    user_rating: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::user-rating.user-rating'
+    >;
   };
 }
 
@@ -561,6 +821,114 @@ export interface ApiMenuPermissionMenuPermission
   };
 }
 
+export interface ApiOpinionDuplicateOpinionDuplicate
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'opinion_duplicates';
+  info: {
+    description: 'Near-duplicate opinion pairs found by the duplicate detection job';
+    displayName: 'Opinion Duplicate';
+    pluralName: 'opinion-duplicates';
+    singularName: 'opinion-duplicate';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    duplicate_of: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::opinion.opinion'
+    >;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::opinion-duplicate.opinion-duplicate'
+    > &
+      Schema.Attribute.Private;
+    opinion: Schema.Attribute.Relation<'manyToOne', 'api::opinion.opinion'>;
+    pair_key: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 64;
+      }>;
+    publishedAt: Schema.Attribute.DateTime;
+    resolved_at: Schema.Attribute.DateTime;
+    resolved_by: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+    similarity: Schema.Attribute.Decimal &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          max: 1;
+          min: 0;
+        },
+        number
+      >;
+    status: Schema.Attribute.Enumeration<['pending', 'merged', 'dismissed']> &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'pending'>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
+export interface ApiOpinionTemplateOpinionTemplate
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'opinion_templates';
+  info: {
+    description: 'Prompt templates used by the AI opinion generator';
+    displayName: 'Opinion Template';
+    pluralName: 'opinion-templates';
+    singularName: 'opinion-template';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    description: Schema.Attribute.Text &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 500;
+      }>;
+    generation_source: Schema.Attribute.Enumeration<
+      ['News', 'Research', 'Laws', 'Advertisements']
+    >;
+    generation_type: Schema.Attribute.Enumeration<
+      ['Celebrity', 'Politician', 'Company Executive']
+    >;
+    isActive: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<true>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::opinion-template.opinion-template'
+    > &
+      Schema.Attribute.Private;
+    name: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    prompt: Schema.Attribute.Text &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 4000;
+      }>;
+    publishedAt: Schema.Attribute.DateTime;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
 export interface ApiOpinionOpinion extends Struct.CollectionTypeSchema {
   collectionName: 'opinions';
   info: {
@@ -573,7 +941,11 @@ export interface ApiOpinionOpinion extends Struct.CollectionTypeSchema {
     draftAndPublish: false;
   };
   attributes: {
+    archiveAt: Schema.Attribute.DateTime;
     category: Schema.Attribute.Relation<'manyToOne', 'api::category.category'>;
+    consensus_score: Schema.Attribute.Decimal & Schema.Attribute.DefaultTo<0>;
+    controversy_score: Schema.Attribute.Decimal &
+      Schema.Attribute.DefaultTo<0>;
     createdAt: Schema.Attribute.DateTime;
     createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
@@ -588,158 +960,421 @@ export interface ApiOpinionOpinion extends Struct.CollectionTypeSchema {
       ['Celebrity', 'Politician', 'Company Executive']
     >;
     isHidden: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<false>;
+    is_verified: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<false>;
+    lifecycle_status: Schema.Attribute.Enumeration<
+      ['draft', 'scheduled', 'live', 'archived']
+    > &
+      Schema.Attribute.DefaultTo<'live'>;
     locale: Schema.Attribute.String & Schema.Attribute.Private;
     localizations: Schema.Attribute.Relation<
       'oneToMany',
       'api::opinion.opinion'
     > &
       Schema.Attribute.Private;
+    publishAt: Schema.Attribute.DateTime;
     publishedAt: Schema.Attribute.DateTime;
     source_type: Schema.Attribute.Enumeration<['Human', 'AI']> &
       Schema.Attribute.DefaultTo<'Human'>;
     statement: Schema.Attribute.Text &
       Schema.Attribute.Required &
       Schema.Attribute.SetMinMaxLength<{
-        maxLength: 1000;
+        maxLength: 1000;
+      }>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    user_ratings: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::user-rating.user-rating'
+    >;
+  };
+}
+
+export interface ApiPermissionProfilePermissionProfile
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'permission_profiles';
+  info: {
+    description: 'User permission groups';
+    displayName: 'Permission Profile';
+    pluralName: 'permission-profiles';
+    singularName: 'permission-profile';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    aiMonthlyTokenBudget: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      >;
+    aiRateLimits: Schema.Attribute.JSON;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    description: Schema.Attribute.Text &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 500;
+      }>;
+    isSystemProfile: Schema.Attribute.Boolean &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<false>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::permission-profile.permission-profile'
+    > &
+      Schema.Attribute.Private;
+    menuPermissions: Schema.Attribute.Relation<
+      'manyToMany',
+      'api::menu-permission.menu-permission'
+    >;
+    name: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    primaryUsers: Schema.Attribute.Relation<
+      'oneToMany',
+      'plugin::users-permissions.user'
+    >;
+    publishedAt: Schema.Attribute.DateTime;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    users: Schema.Attribute.Relation<
+      'manyToMany',
+      'plugin::users-permissions.user'
+    >;
+  };
+}
+
+export interface ApiQuoteDraftQuoteDraft extends Struct.CollectionTypeSchema {
+  collectionName: 'quote_drafts';
+  info: {
+    description: 'AI-generated quote drafts for review before saving as opinions';
+    displayName: 'Quote Draft';
+    pluralName: 'quote-drafts';
+    singularName: 'quote-draft';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    candidates: Schema.Attribute.JSON;
+    category: Schema.Attribute.Relation<'manyToOne', 'api::category.category'>;
+    confidence_score: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          max: 100;
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<50>;
+    content_updated_at: Schema.Attribute.DateTime;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    generation_details: Schema.Attribute.Text &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 500;
+      }>;
+    generation_source: Schema.Attribute.Enumeration<
+      ['News', 'Research', 'Laws', 'Advertisements']
+    > &
+      Schema.Attribute.Required;
+    generation_type: Schema.Attribute.Enumeration<
+      ['Celebrity', 'Politician', 'Company Executive']
+    > &
+      Schema.Attribute.Required;
+    is_published: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<false>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::quote-draft.quote-draft'
+    > &
+      Schema.Attribute.Private;
+    opinion: Schema.Attribute.Relation<'manyToOne', 'api::opinion.opinion'>;
+    publication_source: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 200;
+      }>;
+    publishedAt: Schema.Attribute.DateTime;
+    quote_text: Schema.Attribute.Text &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 1000;
+        minLength: 10;
+      }>;
+    review_status: Schema.Attribute.Enumeration<
+      ['pending', 'approved', 'published']
+    > &
+      Schema.Attribute.DefaultTo<'pending'>;
+    reviewed_at: Schema.Attribute.DateTime;
+    reviewed_by: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+    selected_candidate_index: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      >;
+    selection_reasoning: Schema.Attribute.Text;
+    source_url: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 500;
+      }>;
+    speaker_name: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 100;
+      }>;
+    speaker_verified: Schema.Attribute.Boolean &
+      Schema.Attribute.DefaultTo<false>;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    user: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+    verification_score: Schema.Attribute.Decimal &
+      Schema.Attribute.SetMinMax<
+        {
+          max: 1;
+          min: 0;
+        },
+        number
+      >;
+    verification_snippet: Schema.Attribute.Text;
+    verification_status: Schema.Attribute.Enumeration<
+      ['unverified', 'verified', 'partial', 'not_found', 'fetch_failed']
+    > &
+      Schema.Attribute.DefaultTo<'unverified'>;
+    verified_at: Schema.Attribute.DateTime;
+  };
+}
+
+export interface ApiQuoteGenerationJobQuoteGenerationJob
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'quote_generation_jobs';
+  info: {
+    description: 'Queued quote draft generations created by batch requests';
+    displayName: 'Quote Generation Job';
+    pluralName: 'quote-generation-jobs';
+    singularName: 'quote-generation-job';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    attempts: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    batch_id: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 36;
+      }>;
+    category: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 200;
+      }>;
+    completed_at: Schema.Attribute.DateTime;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    error: Schema.Attribute.Text;
+    generation_details: Schema.Attribute.Text &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 500;
+      }>;
+    generation_source: Schema.Attribute.Enumeration<
+      ['News', 'Research', 'Laws', 'Advertisements']
+    > &
+      Schema.Attribute.Required;
+    generation_type: Schema.Attribute.Enumeration<
+      ['Celebrity', 'Politician', 'Company Executive']
+    > &
+      Schema.Attribute.Required;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::quote-generation-job.quote-generation-job'
+    > &
+      Schema.Attribute.Private;
+    max_attempts: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 1;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<3>;
+    next_attempt_at: Schema.Attribute.DateTime;
+    percentage: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          max: 100;
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    publishedAt: Schema.Attribute.DateTime;
+    quote_draft: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::quote-draft.quote-draft'
+    >;
+    stage: Schema.Attribute.String &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 200;
       }>;
+    started_at: Schema.Attribute.DateTime;
+    status: Schema.Attribute.Enumeration<
+      ['queued', 'running', 'completed', 'failed']
+    > &
+      Schema.Attribute.Required &
+      Schema.Attribute.DefaultTo<'queued'>;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
-    user_ratings: Schema.Attribute.Relation<
-      'oneToMany',
-      'api::user-rating.user-rating'
+    user: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
     >;
   };
 }
 
-export interface ApiPermissionProfilePermissionProfile
+export interface ApiRateLimitCounterRateLimitCounter
   extends Struct.CollectionTypeSchema {
-  collectionName: 'permission_profiles';
+  collectionName: 'rate_limit_counters';
   info: {
-    description: 'User permission groups';
-    displayName: 'Permission Profile';
-    pluralName: 'permission-profiles';
-    singularName: 'permission-profile';
+    description: 'Request counts per rate limit policy and user for the current window';
+    displayName: 'Rate Limit Counter';
+    pluralName: 'rate-limit-counters';
+    singularName: 'rate-limit-counter';
   };
   options: {
     draftAndPublish: false;
   };
   attributes: {
+    count: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    counter_key: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 255;
+      }>;
     createdAt: Schema.Attribute.DateTime;
     createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
-    description: Schema.Attribute.Text &
-      Schema.Attribute.SetMinMaxLength<{
-        maxLength: 500;
-      }>;
-    isSystemProfile: Schema.Attribute.Boolean &
-      Schema.Attribute.Required &
-      Schema.Attribute.DefaultTo<false>;
     locale: Schema.Attribute.String & Schema.Attribute.Private;
     localizations: Schema.Attribute.Relation<
       'oneToMany',
-      'api::permission-profile.permission-profile'
+      'api::rate-limit-counter.rate-limit-counter'
     > &
       Schema.Attribute.Private;
-    menuPermissions: Schema.Attribute.Relation<
-      'manyToMany',
-      'api::menu-permission.menu-permission'
-    >;
-    name: Schema.Attribute.String &
-      Schema.Attribute.Required &
-      Schema.Attribute.Unique &
-      Schema.Attribute.SetMinMaxLength<{
-        maxLength: 100;
-      }>;
-    primaryUsers: Schema.Attribute.Relation<
-      'oneToMany',
-      'plugin::users-permissions.user'
-    >;
     publishedAt: Schema.Attribute.DateTime;
+    reset_at: Schema.Attribute.DateTime & Schema.Attribute.Required;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
-    users: Schema.Attribute.Relation<
-      'manyToMany',
-      'plugin::users-permissions.user'
-    >;
   };
 }
 
-export interface ApiQuoteDraftQuoteDraft extends Struct.CollectionTypeSchema {
-  collectionName: 'quote_drafts';
+export interface ApiSalesGamePlanVersionSalesGamePlanVersion
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'sales_game_plan_versions';
   info: {
-    description: 'AI-generated quote drafts for review before saving as opinions';
-    displayName: 'Quote Draft';
-    pluralName: 'quote-drafts';
-    singularName: 'quote-draft';
+    description: "Snapshots of a game plan's sections after each edit, for history, diff and restore";
+    displayName: 'Sales Game Plan Version';
+    pluralName: 'sales-game-plan-versions';
+    singularName: 'sales-game-plan-version';
   };
   options: {
     draftAndPublish: false;
   };
   attributes: {
-    category: Schema.Attribute.Relation<'manyToOne', 'api::category.category'>;
-    confidence_score: Schema.Attribute.Integer &
-      Schema.Attribute.SetMinMax<
-        {
-          max: 100;
-          min: 0;
-        },
-        number
-      > &
-      Schema.Attribute.DefaultTo<50>;
+    author: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
     createdAt: Schema.Attribute.DateTime;
     createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
-    generation_details: Schema.Attribute.Text &
-      Schema.Attribute.SetMinMaxLength<{
-        maxLength: 500;
-      }>;
-    generation_source: Schema.Attribute.Enumeration<
-      ['News', 'Research', 'Laws', 'Advertisements']
-    > &
-      Schema.Attribute.Required;
-    generation_type: Schema.Attribute.Enumeration<
-      ['Celebrity', 'Politician', 'Company Executive']
-    > &
-      Schema.Attribute.Required;
-    is_published: Schema.Attribute.Boolean & Schema.Attribute.DefaultTo<false>;
+    game_plan: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::sales-game-plan.sales-game-plan'
+    >;
     locale: Schema.Attribute.String & Schema.Attribute.Private;
     localizations: Schema.Attribute.Relation<
       'oneToMany',
-      'api::quote-draft.quote-draft'
+      'api::sales-game-plan-version.sales-game-plan-version'
     > &
       Schema.Attribute.Private;
-    opinion: Schema.Attribute.Relation<'oneToOne', 'api::opinion.opinion'>;
-    publication_source: Schema.Attribute.String &
-      Schema.Attribute.Required &
-      Schema.Attribute.SetMinMaxLength<{
-        maxLength: 200;
-      }>;
     publishedAt: Schema.Attribute.DateTime;
-    quote_text: Schema.Attribute.Text &
-      Schema.Attribute.Required &
-      Schema.Attribute.SetMinMaxLength<{
-        maxLength: 1000;
-        minLength: 10;
-      }>;
-    source_url: Schema.Attribute.String &
-      Schema.Attribute.Required &
-      Schema.Attribute.SetMinMaxLength<{
-        maxLength: 500;
-      }>;
-    speaker_name: Schema.Attribute.String &
-      Schema.Attribute.Required &
+    restored_from: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 1;
+        },
+        number
+      >;
+    section: Schema.Attribute.String &
       Schema.Attribute.SetMinMaxLength<{
-        maxLength: 100;
+        maxLength: 50;
       }>;
+    sections: Schema.Attribute.JSON;
+    source_action: Schema.Attribute.Enumeration<
+      [
+        'original',
+        'apply_improvement',
+        'regenerate_section',
+        'delete_section',
+        'restore_section',
+        'restore_plan',
+      ]
+    > &
+      Schema.Attribute.Required;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
-    user: Schema.Attribute.Relation<
-      'manyToOne',
-      'plugin::users-permissions.user'
-    >;
+    version_number: Schema.Attribute.Integer &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 1;
+        },
+        number
+      >;
+    version_key: Schema.Attribute.String &
+      Schema.Attribute.Private &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 64;
+      }>;
   };
 }
 
@@ -857,6 +1492,64 @@ export interface ApiSalesGamePlanSalesGamePlan
   };
 }
 
+export interface ApiSearchCacheSearchCache extends Struct.CollectionTypeSchema {
+  collectionName: 'search_caches';
+  info: {
+    description: 'Cached web search results keyed by provider, query and result count';
+    displayName: 'Search Cache';
+    pluralName: 'search-caches';
+    singularName: 'search-cache';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    cache_key: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.Unique &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 64;
+      }>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    expires_at: Schema.Attribute.DateTime;
+    fetched_at: Schema.Attribute.DateTime;
+    hit_count: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      > &
+      Schema.Attribute.DefaultTo<0>;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::search-cache.search-cache'
+    > &
+      Schema.Attribute.Private;
+    num: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 1;
+        },
+        number
+      >;
+    provider: Schema.Attribute.String &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 50;
+      }>;
+    publishedAt: Schema.Attribute.DateTime;
+    query: Schema.Attribute.Text & Schema.Attribute.Required;
+    results: Schema.Attribute.JSON;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+  };
+}
+
 export interface ApiStatementStatement extends Struct.CollectionTypeSchema {
   collectionName: 'statements';
   info: {
@@ -1100,6 +1793,12 @@ export interface ApiUserActivityLogUserActivityLog
         'email_changed',
         'username_changed',
         'avatar_changed',
+        'comment_reported',
+        'comment_approved',
+        'comment_hidden',
+        'comment_deleted',
+        'category_merged',
+        'category_retired',
       ]
     > &
       Schema.Attribute.Required;
@@ -1131,6 +1830,88 @@ export interface ApiUserActivityLogUserActivityLog
   };
 }
 
+export interface ApiUserRatingRevisionUserRatingRevision
+  extends Struct.CollectionTypeSchema {
+  collectionName: 'user_rating_revisions';
+  info: {
+    description: "History of changes to a user's rating of an opinion";
+    displayName: 'User Rating Revision';
+    pluralName: 'user-rating-revisions';
+    singularName: 'user-rating-revision';
+  };
+  options: {
+    draftAndPublish: false;
+  };
+  attributes: {
+    change_type: Schema.Attribute.Enumeration<
+      ['created', 'updated', 'deleted', 'moderated']
+    > &
+      Schema.Attribute.Required;
+    comments: Schema.Attribute.Text &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 256;
+      }>;
+    createdAt: Schema.Attribute.DateTime;
+    createdBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    locale: Schema.Attribute.String & Schema.Attribute.Private;
+    localizations: Schema.Attribute.Relation<
+      'oneToMany',
+      'api::user-rating-revision.user-rating-revision'
+    > &
+      Schema.Attribute.Private;
+    moderated_by: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+    moderation_reason: Schema.Attribute.Text &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 500;
+      }>;
+    opinion: Schema.Attribute.Relation<'manyToOne', 'api::opinion.opinion'>;
+    previous_comments: Schema.Attribute.Text &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 256;
+      }>;
+    previous_rating: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          max: 10;
+          min: 0;
+        },
+        number
+      >;
+    publishedAt: Schema.Attribute.DateTime;
+    rating: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          max: 10;
+          min: 0;
+        },
+        number
+      >;
+    revision_number: Schema.Attribute.Integer &
+      Schema.Attribute.Required &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 1;
+        },
+        number
+      >;
+    updatedAt: Schema.Attribute.DateTime;
+    updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
+      Schema.Attribute.Private;
+    user: Schema.Attribute.Relation<
+      'manyToOne',
+      'plugin::users-permissions.user'
+    >;
+    user_rating: Schema.Attribute.Relation<
+      'manyToOne',
+      'api::user-rating.user-rating'
+    >;
+  };
+}
+
 export interface ApiUserRatingUserRating extends Struct.CollectionTypeSchema {
   collectionName: 'user_ratings';
   info: {
@@ -1142,6 +1923,10 @@ export interface ApiUserRatingUserRating extends Struct.CollectionTypeSchema {
     draftAndPublish: true;
   };
   attributes: {
+    comment_status: Schema.Attribute.Enumeration<
+      ['visible', 'reported', 'approved', 'hidden']
+    > &
+      Schema.Attribute.DefaultTo<'visible'>;
     comments: Schema.Attribute.Text &
       Schema.Attribute.SetMinMaxLength<{
         maxLength: 256;
@@ -1167,6 +1952,11 @@ export interface ApiUserRatingUserRating extends Struct.CollectionTypeSchema {
         number
       > &
       Schema.Attribute.DefaultTo<5>;
+    rating_key: Schema.Attribute.String &
+      Schema.Attribute.Private &
+      Schema.Attribute.SetMinMaxLength<{
+        maxLength: 64;
+      }>;
     updatedAt: Schema.Attribute.DateTime;
     updatedBy: Schema.Attribute.Relation<'oneToOne', 'admin::user'> &
       Schema.Attribute.Private;
@@ -1641,6 +2431,13 @@ export interface PluginUsersPermissionsUser
       Schema.Attribute.Required &
       Schema.Attribute.DefaultTo<'Active'>;
     adminNotes: Schema.Attribute.Text & Schema.Attribute.Private;
+    aiMonthlyTokenBudget: Schema.Attribute.Integer &
+      Schema.Attribute.SetMinMax<
+        {
+          min: 0;
+        },
+        number
+      >;
     avatarId: Schema.Attribute.String &
       Schema.Attribute.SetMinMaxLength<{
         maxLength: 50;
@@ -1741,19 +2538,30 @@ declare module '@strapi/strapi' {
       'admin::transfer-token': AdminTransferToken;
       'admin::transfer-token-permission': AdminTransferTokenPermission;
       'admin::user': AdminUser;
+      'api::ai-usage.ai-usage': ApiAiUsageAiUsage;
+      'api::analysis-event.analysis-event': ApiAnalysisEventAnalysisEvent;
+      'api::analysis-job.analysis-job': ApiAnalysisJobAnalysisJob;
       'api::category.category': ApiCategoryCategory;
+      'api::comment-report.comment-report': ApiCommentReportCommentReport;
       'api::investeos-config.investeos-config': ApiInvesteosConfigInvesteosConfig;
       'api::login-history.login-history': ApiLoginHistoryLoginHistory;
       'api::menu-permission.menu-permission': ApiMenuPermissionMenuPermission;
+      'api::opinion-duplicate.opinion-duplicate': ApiOpinionDuplicateOpinionDuplicate;
+      'api::opinion-template.opinion-template': ApiOpinionTemplateOpinionTemplate;
       'api::opinion.opinion': ApiOpinionOpinion;
       'api::permission-profile.permission-profile': ApiPermissionProfilePermissionProfile;
       'api::quote-draft.quote-draft': ApiQuoteDraftQuoteDraft;
+      'api::quote-generation-job.quote-generation-job': ApiQuoteGenerationJobQuoteGenerationJob;
+      'api::rate-limit-counter.rate-limit-counter': ApiRateLimitCounterRateLimitCounter;
+      'api::sales-game-plan-version.sales-game-plan-version': ApiSalesGamePlanVersionSalesGamePlanVersion;
       'api::sales-game-plan.sales-game-plan': ApiSalesGamePlanSalesGamePlan;
+      'api::search-cache.search-cache': ApiSearchCacheSearchCache;
       'api::statement.statement': ApiStatementStatement;
       'api::stock-modal-config.stock-modal-config': ApiStockModalConfigStockModalConfig;
       'api::stock-stat-config.stock-stat-config': ApiStockStatConfigStockStatConfig;
       'api::symbol-cache.symbol-cache': ApiSymbolCacheSymbolCache;
       'api::user-activity-log.user-activity-log': ApiUserActivityLogUserActivityLog;
+      'api::user-rating-revision.user-rating-revision': ApiUserRatingRevisionUserRatingRevision;
       'api::user-rating.user-rating': ApiUserRatingUserRating;
       'plugin::content-releases.release': PluginContentReleasesRelease;
       'plugin::content-releases.release-action': PluginContentReleasesReleaseAction;